@@ -1,29 +1,66 @@
-import type { ArchiveFrequency, DurationUnit, ResolvedTransportOptions } from "./types";
+import type {
+  ArchiveCompression,
+  ArchiveFrequency,
+  DurationUnit,
+  ResolvedRetentionPolicy,
+  ResolvedTransportOptions,
+} from "./types";
 
 export const DEFAULT_PACKAGE_NAME = "pino-file-transport";
 
 /** Default execution hour for scheduled jobs (1 AM) */
 export const DEFAULT_EXECUTION_HOUR = 1;
 
+/** Default pino levels */
+export const DEFAULT_LEVELS: Record<string, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60,
+};
+
+/** Default retention policy of the raw logs and of the archives */
+const DEFAULT_RETENTION_POLICY: ResolvedRetentionPolicy = {
+  duration: undefined, // No retention by default
+  maxFiles: undefined,
+  maxTotalSize: undefined,
+  executionHour: DEFAULT_EXECUTION_HOUR,
+};
+
 /** Default transport options */
 export const DEFAULT_OPTIONS: ResolvedTransportOptions = {
   path: "logs",
+  timezone: "local",
+  fileName: "{date}{hour?}.log",
   rotation: {
     maxSize: 100, // 100 MB
     frequency: "daily",
     logging: false,
+    currentLink: undefined,
+    maxPendingBytes: undefined, // No limit by default
+    pendingOverflow: "block",
+    lockMode: "best-effort",
   },
   archive: {
     enabled: true,
     path: "archives",
+    fileName: "{period}-archive",
     frequency: "monthly",
+    compression: "gzip",
+    level: undefined,
+    consolidation: undefined,
+    sink: undefined,
     runOnCreation: true,
     executionHour: DEFAULT_EXECUTION_HOUR,
     logging: false,
   },
   retention: {
-    duration: undefined, // No retention by default
-    executionHour: DEFAULT_EXECUTION_HOUR,
+    logs: DEFAULT_RETENTION_POLICY,
+    archives: DEFAULT_RETENTION_POLICY,
+    mode: "delete",
+    gracePeriod: "7d",
     logging: false,
   },
   meta: {
@@ -32,34 +69,121 @@ export const DEFAULT_OPTIONS: ResolvedTransportOptions = {
     executionHour: DEFAULT_EXECUTION_HOUR,
     logging: false,
   },
+  routes: [],
+  levels: DEFAULT_LEVELS,
+  reopenOnSignal: undefined,
+  diskGuard: undefined,
+  fallback: undefined,
+  locks: {
+    rotation: {
+      staleTimeout: 10_000, // 10 seconds (short-lived operation)
+      retryInterval: 20,
+      maxRetries: 50, // 50 * 20ms = 1s max wait
+    },
+    worker: {
+      staleTimeout: 20_000, // 20 seconds (heartbeat-based)
+      heartbeatInterval: 5_000,
+      checkInterval: 10_000,
+      maxAttempts: 3,
+      retryDelay: 1_000, // Doubled after each attempt
+    },
+  },
+};
+
+/** Default timeout of `stream.close()` */
+export const DEFAULT_CLOSE_TIMEOUT_MS = 5_000;
+
+/** Default name of the link to the active log file */
+export const DEFAULT_CURRENT_LINK = "current.log";
+
+/** Default partitioning settings */
+export const DEFAULT_PARTITION = {
+  /** Maximum number of open partition streams */
+  MAX_OPEN: 100,
+  /** Partition for lines without the partition field */
+  DEFAULT_NAME: "default",
+} as const;
+
+/** Default archive sink settings */
+export const DEFAULT_ARCHIVE_SINK = {
+  /** Retries of a failed copy or upload */
+  RETRIES: 3,
+  /** Delay before the first retry (doubled after each retry) */
+  RETRY_DELAY_MS: 1_000,
+  /** Region of S3 sinks */
+  S3_REGION: "us-east-1",
+  /** Inactivity timeout of S3 requests */
+  S3_TIMEOUT_MS: 30_000,
+} as const;
+
+/** Prefix of the temporary directories holding rotation spill files */
+export const SPILL_DIR_PREFIX = `${DEFAULT_PACKAGE_NAME}-spill-`;
+
+/** Default disk guard settings */
+export const DEFAULT_DISK_GUARD = {
+  /** Lowest level still written with the "drop" action */
+  MIN_LEVEL: "warn",
+  /** Interval between free space checks while free space is low (writes may be paused) */
+  CHECK_INTERVAL_MS: 2_000,
+} as const;
+
+/** Default fallback settings */
+export const DEFAULT_FALLBACK = {
+  /** Ring buffer size of the "buffer" type */
+  MAX_LINES: 10_000,
+  /** Consecutive write errors before switching to the fallback */
+  ERROR_THRESHOLD: 3,
+  /** Interval between retries of the log directory */
+  RETRY_INTERVAL_MS: 5_000,
+} as const;
+
+/** Archive compression formats */
+export const ARCHIVE_COMPRESSIONS: readonly ArchiveCompression[] = ["gzip", "brotli", "none"];
+
+/** Maximum compression level of each compressed archive format (the minimum is 0) */
+export const MAX_COMPRESSION_LEVEL: Record<Exclude<ArchiveCompression, "none">, number> = {
+  gzip: 9,
+  brotli: 11,
 };
 
-/** Lock settings */
+/** Lock settings (rotation and worker locks are configured with the `locks` option) */
 export const LOCK_SETTINGS = {
-  /** Rotation lock stale timeout (short-lived operation) */
-  ROTATION_STALE_MS: 10_000, // 10 seconds
-  /** Rotation lock retry interval */
-  ROTATION_RETRY_MS: 20,
-  /** Rotation lock max retries */
-  ROTATION_MAX_RETRIES: 50, // 50 * 20ms = 1s max wait
-
-  /** Worker lock stale timeout (heartbeat-based) */
-  WORKER_STALE_MS: 20_000, // 20 seconds
-  /** Worker heartbeat interval */
-  WORKER_HEARTBEAT_MS: 5_000, // 5 seconds
-  /** Worker heartbeat check interval */
-  WORKER_CHECK_MS: 10_000, // 10 seconds
+  /** Archive manifest lock stale timeout (short-lived operation) */
+  MANIFEST_STALE_MS: 10_000, // 10 seconds
+  /** Archive manifest lock retry interval */
+  MANIFEST_RETRY_MS: 50,
+  /** Archive manifest lock max retries */
+  MANIFEST_MAX_RETRIES: 100, // 100 * 50ms = 5s max wait
+  /** Worker lock guard stale timeout (held while a worker lock is replaced or released) */
+  GUARD_STALE_MS: 10_000, // 10 seconds
+  /** Worker lock guard retry interval */
+  GUARD_RETRY_MS: 5,
+  /** Worker lock guard max retries */
+  GUARD_MAX_RETRIES: 200, // 200 * 5ms = 1s max wait
 } as const;
 
 /** Lock directories */
 export const LOCK_PATHS = {
   LOCKS_DIR: ".locks",
   ROTATION_LOCK: "rotation",
+  LOCK_OWNER: "owner.json",
+  LOCK_GUARD_SUFFIX: ".guard",
+  MANIFEST_LOCK: "manifest",
   ARCHIVE_LOCK: "archive.json",
+  CONSOLIDATION_LOCK: "consolidation.json",
   RETENTION_LOCK: "retention.json",
   META_LOCK: "meta.json",
 } as const;
 
+/** Archive manifest file name (in the archive directory) */
+export const ARCHIVE_MANIFEST_FILE = "index.json";
+
+/** Trash directory of retention's trash mode (in each log directory) */
+export const TRASH_DIR = ".trash";
+
+/** Legal hold file (in each log directory): one held period per line */
+export const HOLD_FILE = ".hold";
+
 /** Meta directory for internal logging */
 export const META_DIR = ".meta";
 
@@ -83,6 +207,14 @@ export function getArchiveCron(frequency: ArchiveFrequency, executionHour: numbe
   }
 }
 
+/**
+ * Generate archive consolidation cron schedule based on execution hour.
+ * Runs daily at the specified hour.
+ */
+export function getConsolidationCron(executionHour: number): string {
+  return `0 ${executionHour} * * *`; // Daily at executionHour
+}
+
 /**
  * Generate retention cron schedule based on duration unit and execution hour.
  * Hourly always runs at the top of each hour (minute 0).
@@ -102,6 +234,12 @@ export function getRetentionCron(unit: DurationUnit, executionHour: number): str
   }
 }
 
+/**
+ * Retention cron schedule of file sets with a count or size limit.
+ * Runs every 10 minutes, so a spike of logs is cleaned up before the disk fills.
+ */
+export const RETENTION_LIMITS_CRON = "*/10 * * * *";
+
 /**
  * Generate meta cleanup cron schedule based on execution hour.
  * Runs daily at the specified hour.
@@ -1,37 +1,242 @@
-import type SonicBoom from "sonic-boom";
-import { DEFAULT_OPTIONS, DEFAULT_PACKAGE_NAME } from "./config";
+import path from "node:path";
+import {
+  ARCHIVE_COMPRESSIONS,
+  DEFAULT_ARCHIVE_SINK,
+  DEFAULT_CLOSE_TIMEOUT_MS,
+  DEFAULT_CURRENT_LINK,
+  DEFAULT_DISK_GUARD,
+  DEFAULT_FALLBACK,
+  DEFAULT_LEVELS,
+  DEFAULT_OPTIONS,
+  DEFAULT_PACKAGE_NAME,
+  DEFAULT_PARTITION,
+  MAX_COMPRESSION_LEVEL,
+} from "./config";
 import { startArchiveScheduler } from "./scheduling/archive";
+import { startConsolidationScheduler } from "./scheduling/consolidation";
 import { startMetaScheduler } from "./scheduling/meta";
 import { startRetentionScheduler } from "./scheduling/retention";
-import { FileTransport } from "./transport/file-transport";
+import { LevelRouter } from "./transport/level-router";
+import { createFileSetTransport } from "./transport/partition-router";
 import type {
+  ArchiveCompleteEvent,
+  ArchiveCompression,
+  ArchiveConfig,
+  ArchiveConsolidateEvent,
+  ArchivedFile,
+  ArchiveErrorEvent,
   ArchiveFrequency,
+  ArchiveManifest,
+  ArchiveOutcome,
+  ArchiveRecord,
+  ArchiveSink,
+  ArchiveSinkConfig,
+  ArchiveStartEvent,
+  ArchiveUploadEvent,
+  CloseOptions,
+  CloseReport,
+  ConsolidationConfig,
+  DiskGuardAction,
+  DiskGuardConfig,
+  DiskLowEvent,
+  DiskRecoveredEvent,
   DurationFormat,
+  EmitEvent,
+  ErrorContext,
+  FallbackConfig,
+  FallbackEndEvent,
+  FallbackStartEvent,
+  FallbackType,
+  FileStats,
+  FileSystemSinkConfig,
+  InterruptedWorker,
+  LockStaleEvent,
+  LocksConfig,
+  LockTimeoutEvent,
+  PartitionConfig,
+  PendingOverflowPolicy,
+  ReopenSignal,
+  ResolvedArchiveConfig,
+  ResolvedArchiveSinkConfig,
+  ResolvedDiskGuardConfig,
+  ResolvedFallbackConfig,
+  ResolvedLocksConfig,
+  ResolvedPartitionConfig,
+  ResolvedRetentionConfig,
+  ResolvedRetentionPolicy,
+  ResolvedRotationConfig,
+  ResolvedRoute,
   ResolvedTransportOptions,
+  RetentionCompleteEvent,
+  RetentionConfig,
+  RetentionDeleteEvent,
+  RetentionMode,
+  RetentionOutcome,
+  RetentionPolicy,
+  RetentionPurgeEvent,
+  RetentionReason,
+  RotateEvent,
+  RotationConfig,
   RotationFrequency,
+  RotationLockMode,
+  RotationLockOwner,
+  RotationReason,
+  RouteConfig,
+  S3SinkConfig,
+  SizeFormat,
+  SizeUnit,
   SonicBoomOptions,
+  Timezone,
+  TransportEvents,
   TransportOptions,
+  TransportStats,
+  TransportStream,
 } from "./types";
-import { parseDuration } from "./utils/parsing";
-import { durationToHours, frequencyToHours } from "./utils/time";
+import {
+  isLogFilename,
+  parseDuration,
+  parseSize,
+  validateArchiveTemplate,
+  validateLogTemplate,
+} from "./utils/parsing";
+import { resolveLevel, sanitizePartitionName } from "./utils/routing";
+import {
+  buildStats,
+  createStreamCounters,
+  recordWorkerOutcome,
+  type WorkerOutcomes,
+} from "./utils/stats";
+import { durationToHours, frequencyToHours, isValidTimezone } from "./utils/time";
 
 // Re-export types for consumers
 export type {
   TransportOptions,
   RotationFrequency,
+  PendingOverflowPolicy,
+  RotationLockMode,
   ArchiveFrequency,
+  ArchiveCompression,
+  ConsolidationConfig,
+  ArchiveSinkConfig,
+  FileSystemSinkConfig,
+  S3SinkConfig,
+  ArchiveSink,
+  RetentionConfig,
+  RetentionPolicy,
+  RetentionMode,
   DurationFormat,
+  SizeFormat,
+  SizeUnit,
   SonicBoomOptions,
+  Timezone,
+  RouteConfig,
+  PartitionConfig,
+  ReopenSignal,
+  DiskGuardConfig,
+  DiskGuardAction,
+  FallbackConfig,
+  FallbackType,
+  LocksConfig,
+  TransportStream,
+  CloseOptions,
+  CloseReport,
+  InterruptedWorker,
+  TransportEvents,
+  RotateEvent,
+  RotationReason,
+  ArchiveStartEvent,
+  ArchiveCompleteEvent,
+  ArchiveErrorEvent,
+  ArchiveConsolidateEvent,
+  ArchiveUploadEvent,
+  RetentionDeleteEvent,
+  RetentionReason,
+  RetentionPurgeEvent,
+  RetentionCompleteEvent,
+  LockStaleEvent,
+  LockTimeoutEvent,
+  RotationLockOwner,
+  DiskLowEvent,
+  DiskRecoveredEvent,
+  FallbackStartEvent,
+  FallbackEndEvent,
+  ErrorContext,
+  TransportStats,
+  FileStats,
+  ArchiveOutcome,
+  RetentionOutcome,
+  ArchiveManifest,
+  ArchiveRecord,
+  ArchivedFile,
 };
 
+/** Values accepted by the `retention.mode` option */
+const RETENTION_MODES: readonly RetentionMode[] = ["delete", "trash"];
+
+/** Values accepted by the `rotation.pendingOverflow` option */
+const PENDING_OVERFLOW_POLICIES: readonly PendingOverflowPolicy[] = [
+  "block",
+  "drop-oldest",
+  "drop-newest",
+  "spill",
+];
+
+/** Values accepted by the `rotation.lockMode` option */
+const ROTATION_LOCK_MODES: readonly RotationLockMode[] = ["best-effort", "strict"];
+
+/** Values accepted by the `diskGuard.action` option */
+const DISK_GUARD_ACTIONS: readonly DiskGuardAction[] = ["retention", "drop", "fallback", "pause"];
+
+/** Values accepted by the `fallback.type` option */
+const FALLBACK_TYPES: readonly FallbackType[] = ["directory", "stderr", "buffer"];
+
+/** Signals accepted by the `reopenOnSignal` option */
+const REOPEN_SIGNALS: readonly ReopenSignal[] = ["SIGHUP", "SIGUSR1", "SIGUSR2"];
+
 /**
  * Validate and resolve transport options with defaults.
+ * Routes are resolved with the transport's log directory as root.
  */
-function resolveOptions(options: TransportOptions): ResolvedTransportOptions {
+function resolveOptions(
+  options: TransportOptions,
+  rootPath: string = options.path,
+): ResolvedTransportOptions {
   if (!options.path) {
     throw new Error(`[${DEFAULT_PACKAGE_NAME}] 'path' option is required`);
   }
 
+  const timezone = options.timezone ?? DEFAULT_OPTIONS.timezone;
+  if (!isValidTimezone(timezone)) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'timezone' option: "${timezone}". ` +
+        `Expected "utc", "local" or an IANA timezone name (e.g., "Europe/Paris").`,
+    );
+  }
+
+  const fileName = options.fileName ?? DEFAULT_OPTIONS.fileName;
+  const fileNameError = validateLogTemplate(fileName);
+  if (fileNameError) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'fileName' template "${fileName}": ${fileNameError}`,
+    );
+  }
+
+  const archiveFileName = options.archive?.fileName ?? DEFAULT_OPTIONS.archive.fileName;
+  const archiveFileNameError = validateArchiveTemplate(archiveFileName);
+  if (archiveFileNameError) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'archive.fileName' template "${archiveFileName}": ${archiveFileNameError}`,
+    );
+  }
+
+  const reopenOnSignal = options.reopenOnSignal ?? DEFAULT_OPTIONS.reopenOnSignal;
+  if (reopenOnSignal !== undefined && !REOPEN_SIGNALS.includes(reopenOnSignal)) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'reopenOnSignal' option: "${reopenOnSignal}". ` +
+        `Expected one of ${REOPEN_SIGNALS.map((s) => `"${s}"`).join(", ")}.`,
+    );
+  }
+
   let maxSize =
     options.rotation?.maxSize === undefined
       ? DEFAULT_OPTIONS.rotation.maxSize
@@ -42,26 +247,33 @@ function resolveOptions(options: TransportOptions): ResolvedTransportOptions {
     console.warn(`[${DEFAULT_PACKAGE_NAME}] 'rotation.maxSize' is less than 1, setting to 1`);
   }
 
+  const levels = { ...DEFAULT_LEVELS, ...options.levels };
+
   const resolved: ResolvedTransportOptions = {
     path: options.path,
+    timezone,
+    fileName,
     rotation: {
       maxSize,
       frequency: options.rotation?.frequency ?? DEFAULT_OPTIONS.rotation.frequency,
       logging: options.rotation?.logging ?? DEFAULT_OPTIONS.rotation.logging,
+      currentLink: resolveCurrentLink(options.rotation?.currentLink, fileName),
+      ...resolvePendingBuffer(options.rotation),
+      lockMode: resolveLockMode(options.rotation?.lockMode),
     },
     archive: {
       enabled: options.archive?.enabled ?? DEFAULT_OPTIONS.archive.enabled,
       path: options.archive?.path ?? DEFAULT_OPTIONS.archive.path,
+      fileName: archiveFileName,
       frequency: options.archive?.frequency ?? DEFAULT_OPTIONS.archive.frequency,
+      ...resolveCompression(options.archive),
+      consolidation: resolveConsolidation(options.archive?.consolidation),
+      sink: resolveArchiveSink(options.archive?.sink, rootPath),
       runOnCreation: options.archive?.runOnCreation ?? DEFAULT_OPTIONS.archive.runOnCreation,
       logging: options.archive?.logging ?? DEFAULT_OPTIONS.archive.logging,
       executionHour: options.archive?.executionHour ?? DEFAULT_OPTIONS.archive.executionHour,
     },
-    retention: {
-      duration: options.retention?.duration ?? DEFAULT_OPTIONS.retention.duration,
-      logging: options.retention?.logging ?? DEFAULT_OPTIONS.retention.logging,
-      executionHour: options.retention?.executionHour ?? DEFAULT_OPTIONS.retention.executionHour,
-    },
+    retention: resolveRetention(options.retention),
     meta: {
       retention: options.meta?.retention ?? DEFAULT_OPTIONS.meta.retention,
       error: options.meta?.error ?? DEFAULT_OPTIONS.meta.error,
@@ -69,17 +281,532 @@ function resolveOptions(options: TransportOptions): ResolvedTransportOptions {
       executionHour: options.meta?.executionHour ?? DEFAULT_OPTIONS.meta.executionHour,
     },
     sonicBoom: options.sonicBoom,
+    routes: [],
+    levels,
+    partition: resolvePartition(options.partition),
+    reopenOnSignal,
+    diskGuard: resolveDiskGuard(options.diskGuard, levels, rootPath),
+    fallback: resolveFallback(options.fallback, rootPath),
+    locks: resolveLocks(options.locks),
   };
 
   // Validate constraints
   validateConstraints(resolved);
 
+  // Resolve level routes (each route is validated as its own file set)
+  resolved.routes = resolveRoutes(options, resolved.levels);
+
+  return resolved;
+}
+
+/**
+ * Resolve level routes into file sets.
+ * Each route's settings are merged over the transport options.
+ */
+function resolveRoutes(options: TransportOptions, levels: Record<string, number>): ResolvedRoute[] {
+  if (!options.routes) {
+    return [];
+  }
+
+  const routePaths = new Set<string>();
+
+  return options.routes.map((route) => {
+    if (!route.path) {
+      throw new Error(`[${DEFAULT_PACKAGE_NAME}] Each entry of 'routes' requires a 'path' option`);
+    }
+
+    const routePath = path.join(options.path, route.path);
+    if (routePaths.has(routePath)) {
+      throw new Error(
+        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: several routes use the path "${route.path}".`,
+      );
+    }
+    routePaths.add(routePath);
+
+    const minLevel = resolveRouteLevel(route, "minLevel", levels) ?? -Infinity;
+    const maxLevel = resolveRouteLevel(route, "maxLevel", levels) ?? Infinity;
+    if (minLevel > maxLevel) {
+      throw new Error(
+        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: route "${route.path}" has minLevel > maxLevel.`,
+      );
+    }
+
+    return {
+      minLevel,
+      maxLevel,
+      options: resolveOptions(
+        {
+          ...options,
+          path: routePath,
+          fileName: route.fileName ?? options.fileName,
+          rotation: { ...options.rotation, ...route.rotation },
+          archive: { ...options.archive, ...route.archive },
+          retention: { ...options.retention, ...route.retention },
+          routes: undefined,
+        },
+        options.path,
+      ),
+    };
+  });
+}
+
+/**
+ * Resolve the name of the link to the active log file.
+ * @throws Error if the name contains path separators or matches the log filename template
+ */
+function resolveCurrentLink(
+  currentLink: boolean | string | undefined,
+  fileName: string,
+): string | undefined {
+  if (!currentLink) {
+    return DEFAULT_OPTIONS.rotation.currentLink;
+  }
+
+  const linkName = currentLink === true ? DEFAULT_CURRENT_LINK : currentLink;
+  if (/[\\/]/.test(linkName) || linkName.startsWith(".")) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'rotation.currentLink' option: "${linkName}". ` +
+        `Expected a file name without path separators, not starting with ".".`,
+    );
+  }
+  if (isLogFilename(linkName, fileName)) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'rotation.currentLink' option: "${linkName}" ` +
+        `matches the 'fileName' template and would be archived as a log file.`,
+    );
+  }
+  return linkName;
+}
+
+/**
+ * Resolve the rotation buffer limit and its overflow policy.
+ * @throws Error if the limit is not a positive integer or the policy is unknown
+ */
+function resolvePendingBuffer(
+  rotation: RotationConfig | undefined,
+): Pick<ResolvedRotationConfig, "maxPendingBytes" | "pendingOverflow"> {
+  const maxPendingBytes = rotation?.maxPendingBytes ?? DEFAULT_OPTIONS.rotation.maxPendingBytes;
+  if (
+    maxPendingBytes !== undefined &&
+    (!Number.isInteger(maxPendingBytes) || maxPendingBytes < 1)
+  ) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'rotation.maxPendingBytes' option: ${maxPendingBytes}. Expected an integer >= 1.`,
+    );
+  }
+
+  const pendingOverflow = rotation?.pendingOverflow ?? DEFAULT_OPTIONS.rotation.pendingOverflow;
+  if (!PENDING_OVERFLOW_POLICIES.includes(pendingOverflow)) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'rotation.pendingOverflow' option: "${pendingOverflow}". ` +
+        `Expected one of ${PENDING_OVERFLOW_POLICIES.map((p) => `"${p}"`).join(", ")}.`,
+    );
+  }
+
+  return { maxPendingBytes, pendingOverflow };
+}
+
+/**
+ * Resolve the rotation lock mode.
+ * @throws Error if the mode is unknown
+ */
+function resolveLockMode(lockMode: RotationLockMode | undefined): RotationLockMode {
+  const mode = lockMode ?? DEFAULT_OPTIONS.rotation.lockMode;
+  if (!ROTATION_LOCK_MODES.includes(mode)) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'rotation.lockMode' option: "${mode}". ` +
+        `Expected one of ${ROTATION_LOCK_MODES.map((m) => `"${m}"`).join(", ")}.`,
+    );
+  }
+  return mode;
+}
+
+/**
+ * Resolve the archive compression format and level.
+ * @throws Error if the format is unknown or the level is out of the format's range
+ */
+function resolveCompression(
+  archive: ArchiveConfig | undefined,
+): Pick<ResolvedArchiveConfig, "compression" | "level"> {
+  const compression = archive?.compression ?? DEFAULT_OPTIONS.archive.compression;
+  if (!ARCHIVE_COMPRESSIONS.includes(compression)) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'archive.compression' option: "${compression}". ` +
+        `Expected one of ${ARCHIVE_COMPRESSIONS.map((c) => `"${c}"`).join(", ")}.`,
+    );
+  }
+
+  const level = archive?.level ?? DEFAULT_OPTIONS.archive.level;
+  if (level === undefined || compression === "none") {
+    return { compression, level: undefined };
+  }
+
+  const maxLevel = MAX_COMPRESSION_LEVEL[compression];
+  if (!Number.isInteger(level) || level < 0 || level > maxLevel) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'archive.level' option: ${level}. ` +
+        `Expected an integer from 0 to ${maxLevel} for ${compression}.`,
+    );
+  }
+  return { compression, level };
+}
+
+/**
+ * Resolve the archive consolidation policy (undefined if no tier is set).
+ * @throws Error if a duration is invalid or monthly consolidation comes before daily
+ */
+function resolveConsolidation(
+  consolidation: ConsolidationConfig | undefined,
+): ConsolidationConfig | undefined {
+  const { daily, monthly } = consolidation ?? {};
+  if (daily === undefined && monthly === undefined) {
+    return undefined;
+  }
+
+  // Parse every set duration (throws on an invalid format)
+  const [dailyHours, monthlyHours] = [daily, monthly].map((duration) => {
+    if (duration === undefined) return undefined;
+    const { value, unit } = parseDuration(duration);
+    return durationToHours(value, unit);
+  });
+
+  if (dailyHours !== undefined && monthlyHours !== undefined && monthlyHours < dailyHours) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: archive.consolidation.monthly ("${monthly}") ` +
+        `must be >= archive.consolidation.daily ("${daily}").`,
+    );
+  }
+
+  return { daily, monthly };
+}
+
+/**
+ * Resolve the retention config with defaults.
+ * The `logs` and `archives` policies inherit the unset fields of the top-level policy.
+ * @throws Error if a maxFiles is not a positive integer or a maxTotalSize is invalid
+ */
+function resolveRetention(retention: RetentionConfig | undefined): ResolvedRetentionConfig {
+  const { logs, archives, mode, gracePeriod, logging, ...policy } = retention ?? {};
+  const defaults = resolveRetentionPolicy(policy, "retention", DEFAULT_OPTIONS.retention.logs);
+
+  if (mode !== undefined && !RETENTION_MODES.includes(mode)) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'retention.mode' option: "${mode}". Expected "delete" or "trash".`,
+    );
+  }
+  // Validate the grace period format (throws on an invalid format)
+  if (gracePeriod !== undefined) {
+    parseDuration(gracePeriod);
+  }
+
+  return {
+    logs: logs ? resolveRetentionPolicy(logs, "retention.logs", defaults) : defaults,
+    archives: archives
+      ? resolveRetentionPolicy(archives, "retention.archives", defaults)
+      : defaults,
+    mode: mode ?? DEFAULT_OPTIONS.retention.mode,
+    gracePeriod: gracePeriod ?? DEFAULT_OPTIONS.retention.gracePeriod,
+    logging: logging ?? DEFAULT_OPTIONS.retention.logging,
+  };
+}
+
+/**
+ * Resolve a retention policy over the policy it inherits from.
+ * `name` is the option path used in error messages.
+ * @throws Error if maxFiles is not a positive integer or maxTotalSize is invalid
+ */
+function resolveRetentionPolicy(
+  policy: RetentionPolicy,
+  name: string,
+  defaults: ResolvedRetentionPolicy,
+): ResolvedRetentionPolicy {
+  const maxFiles = policy.maxFiles ?? defaults.maxFiles;
+  if (maxFiles !== undefined && (!Number.isInteger(maxFiles) || maxFiles < 1)) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid '${name}.maxFiles' option: ${maxFiles}. Expected an integer >= 1.`,
+    );
+  }
+
+  // Parse the size limit to bytes (throws on an invalid format)
+  const maxTotalSize =
+    policy.maxTotalSize !== undefined ? parseSize(policy.maxTotalSize) : defaults.maxTotalSize;
+  if (maxTotalSize !== undefined && maxTotalSize < 1) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid '${name}.maxTotalSize' option: "${policy.maxTotalSize}". Expected a size > 0.`,
+    );
+  }
+
+  return {
+    duration: policy.duration ?? defaults.duration,
+    maxFiles,
+    maxTotalSize,
+    executionHour: policy.executionHour ?? defaults.executionHour,
+  };
+}
+
+/**
+ * Resolve the archive sink config with defaults.
+ * @throws Error if the sink type is unknown, its destination is missing or a retry option is invalid
+ */
+function resolveArchiveSink(
+  sink: ArchiveSinkConfig | undefined,
+  root: string,
+): ResolvedArchiveSinkConfig | undefined {
+  if (!sink) {
+    return undefined;
+  }
+
+  if (sink.type === "fs") {
+    if (!sink.path) {
+      throw new Error(`[${DEFAULT_PACKAGE_NAME}] 'archive.sink.path' option is required`);
+    }
+  } else if (sink.type === "s3") {
+    if (!sink.bucket) {
+      throw new Error(`[${DEFAULT_PACKAGE_NAME}] 'archive.sink.bucket' option is required`);
+    }
+    if (sink.timeout !== undefined && !(Number.isFinite(sink.timeout) && sink.timeout > 0)) {
+      throw new Error(
+        `[${DEFAULT_PACKAGE_NAME}] Invalid 'archive.sink.timeout' option: ${sink.timeout}. Expected a number > 0.`,
+      );
+    }
+  } else {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'archive.sink.type' option: "${(sink as { type: unknown }).type}". ` +
+        `Expected "fs" or "s3".`,
+    );
+  }
+
+  const retries = sink.retries ?? DEFAULT_ARCHIVE_SINK.RETRIES;
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'archive.sink.retries' option: ${retries}. Expected an integer >= 0.`,
+    );
+  }
+
+  const retryDelay = sink.retryDelay ?? DEFAULT_ARCHIVE_SINK.RETRY_DELAY_MS;
+  if (!Number.isFinite(retryDelay) || retryDelay < 0) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'archive.sink.retryDelay' option: ${retryDelay}. Expected a number >= 0.`,
+    );
+  }
+
+  return { ...sink, retries, retryDelay, deleteLocal: sink.deleteLocal ?? false, root };
+}
+
+/**
+ * Resolve the disk guard config with defaults.
+ * @throws Error if the threshold, action or level is invalid, or the fallback path is missing
+ */
+function resolveDiskGuard(
+  diskGuard: DiskGuardConfig | undefined,
+  levels: Record<string, number>,
+  root: string,
+): ResolvedDiskGuardConfig | undefined {
+  if (!diskGuard) {
+    return undefined;
+  }
+
+  if (!diskGuard.minFreeSpace) {
+    throw new Error(`[${DEFAULT_PACKAGE_NAME}] 'diskGuard.minFreeSpace' option is required`);
+  }
+  // Parse the threshold to bytes (throws on an invalid format)
+  const minFreeSpace = parseSize(diskGuard.minFreeSpace);
+  if (minFreeSpace < 1) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'diskGuard.minFreeSpace' option: "${diskGuard.minFreeSpace}". Expected a size > 0.`,
+    );
+  }
+
+  if (!DISK_GUARD_ACTIONS.includes(diskGuard.action)) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'diskGuard.action' option: "${diskGuard.action}". ` +
+        `Expected one of ${DISK_GUARD_ACTIONS.map((a) => `"${a}"`).join(", ")}.`,
+    );
+  }
+
+  const level = diskGuard.minLevel ?? DEFAULT_DISK_GUARD.MIN_LEVEL;
+  const minLevel = resolveLevel(level, levels);
+  if (minLevel === undefined) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: unknown level "${level}" for ` +
+        `diskGuard.minLevel. Add it to the 'levels' option.`,
+    );
+  }
+
+  if (diskGuard.action === "fallback" && !diskGuard.fallbackPath) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] 'diskGuard.fallbackPath' option is required with the "fallback" action`,
+    );
+  }
+
+  return {
+    minFreeSpace,
+    action: diskGuard.action,
+    minLevel,
+    fallbackPath:
+      diskGuard.action === "fallback" ? path.resolve(diskGuard.fallbackPath as string) : undefined,
+    root,
+  };
+}
+
+/**
+ * Resolve the fallback config with defaults.
+ * @throws Error if the type is unknown, the directory is missing or a numeric option is invalid
+ */
+function resolveFallback(
+  fallback: FallbackConfig | undefined,
+  root: string,
+): ResolvedFallbackConfig | undefined {
+  if (!fallback) {
+    return undefined;
+  }
+
+  if (!FALLBACK_TYPES.includes(fallback.type)) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'fallback.type' option: "${fallback.type}". ` +
+        `Expected one of ${FALLBACK_TYPES.map((t) => `"${t}"`).join(", ")}.`,
+    );
+  }
+  if (fallback.type === "directory" && !fallback.path) {
+    throw new Error(`[${DEFAULT_PACKAGE_NAME}] 'fallback.path' option is required`);
+  }
+
+  const maxLines =
+    (fallback.type === "buffer" ? fallback.maxLines : undefined) ?? DEFAULT_FALLBACK.MAX_LINES;
+  if (!Number.isInteger(maxLines) || maxLines < 1) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'fallback.maxLines' option: ${maxLines}. Expected an integer >= 1.`,
+    );
+  }
+
+  const errorThreshold = fallback.errorThreshold ?? DEFAULT_FALLBACK.ERROR_THRESHOLD;
+  if (!Number.isInteger(errorThreshold) || errorThreshold < 1) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'fallback.errorThreshold' option: ${errorThreshold}. Expected an integer >= 1.`,
+    );
+  }
+
+  const retryInterval = fallback.retryInterval ?? DEFAULT_FALLBACK.RETRY_INTERVAL_MS;
+  if (!Number.isFinite(retryInterval) || retryInterval <= 0) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'fallback.retryInterval' option: ${retryInterval}. Expected a number > 0.`,
+    );
+  }
+
+  return {
+    type: fallback.type,
+    path: fallback.type === "directory" ? path.resolve(fallback.path) : undefined,
+    maxLines,
+    errorThreshold,
+    retryInterval,
+    root,
+  };
+}
+
+/**
+ * Resolve the lock timings with defaults.
+ * @throws Error if a timing is not a positive integer, or a worker's heartbeat interval
+ * is not less than its stale timeout (its lock would look stale while it runs)
+ */
+function resolveLocks(locks: LocksConfig | undefined): ResolvedLocksConfig {
+  const { rotation, worker } = DEFAULT_OPTIONS.locks;
+  const resolved: ResolvedLocksConfig = {
+    rotation: {
+      staleTimeout: locks?.rotation?.staleTimeout ?? rotation.staleTimeout,
+      retryInterval: locks?.rotation?.retryInterval ?? rotation.retryInterval,
+      maxRetries: locks?.rotation?.maxRetries ?? rotation.maxRetries,
+    },
+    worker: {
+      staleTimeout: locks?.worker?.staleTimeout ?? worker.staleTimeout,
+      heartbeatInterval: locks?.worker?.heartbeatInterval ?? worker.heartbeatInterval,
+      checkInterval: locks?.worker?.checkInterval ?? worker.checkInterval,
+      maxAttempts: locks?.worker?.maxAttempts ?? worker.maxAttempts,
+      retryDelay: locks?.worker?.retryDelay ?? worker.retryDelay,
+    },
+  };
+
+  for (const lock of ["rotation", "worker"] as const) {
+    for (const [key, value] of Object.entries(resolved[lock])) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(
+          `[${DEFAULT_PACKAGE_NAME}] Invalid 'locks.${lock}.${key}' option: ${value}. Expected an integer >= 1.`,
+        );
+      }
+    }
+  }
+
+  const { staleTimeout, heartbeatInterval } = resolved.worker;
+  if (heartbeatInterval >= staleTimeout) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'locks.worker.heartbeatInterval' option: ${heartbeatInterval}. ` +
+        `Expected less than 'locks.worker.staleTimeout' (${staleTimeout}).`,
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve the partition config with defaults.
+ * @throws Error if the field, maxOpen or default partition name is invalid
+ */
+function resolvePartition(
+  partition: PartitionConfig | undefined,
+): ResolvedPartitionConfig | undefined {
+  if (!partition) {
+    return undefined;
+  }
+
+  if (!partition.field) {
+    throw new Error(`[${DEFAULT_PACKAGE_NAME}] 'partition.field' option is required`);
+  }
+
+  const maxOpen = partition.maxOpen ?? DEFAULT_PARTITION.MAX_OPEN;
+  if (!Number.isInteger(maxOpen) || maxOpen < 1) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'partition.maxOpen' option: ${maxOpen}. Expected an integer >= 1.`,
+    );
+  }
+
+  const defaultName = partition.default ?? DEFAULT_PARTITION.DEFAULT_NAME;
+  if (!defaultName || sanitizePartitionName(defaultName) !== defaultName) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid 'partition.default' option: "${defaultName}". ` +
+        `Use letters, digits, ".", "_" and "-" only, not starting with ".".`,
+    );
+  }
+
+  return { field: partition.field, maxOpen, default: defaultName };
+}
+
+/**
+ * Resolve a route's level bound to a number.
+ * @throws Error if the level name is unknown
+ */
+function resolveRouteLevel(
+  route: RouteConfig,
+  key: "minLevel" | "maxLevel",
+  levels: Record<string, number>,
+): number | undefined {
+  const level = route[key];
+  if (level === undefined) {
+    return undefined;
+  }
+
+  const resolved = resolveLevel(level, levels);
+  if (resolved === undefined) {
+    throw new Error(
+      `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: unknown level "${level}" for ` +
+        `${key} of route "${route.path}". Add it to the 'levels' option.`,
+    );
+  }
   return resolved;
 }
 
 /**
  * Validate constraint hierarchy:
- * retention.duration >= archive.frequency >= rotation.frequency
+ * retention.logs.duration >= archive.frequency >= rotation.frequency
+ * retention.archives.duration >= archive.frequency
  */
 function validateConstraints(options: ResolvedTransportOptions): void {
   const rotationHours = frequencyToHours(options.rotation.frequency);
@@ -94,14 +821,35 @@ function validateConstraints(options: ResolvedTransportOptions): void {
     );
   }
 
-  // retention.duration >= archive.frequency (when retention is configured)
-  if (options.retention.duration) {
-    const { value, unit } = parseDuration(options.retention.duration);
+  // Consolidation merges archives finer than its tiers
+  const consolidation = options.archive.consolidation;
+  if (options.archive.enabled && consolidation) {
+    if (consolidation.daily && options.archive.frequency !== "hourly") {
+      throw new Error(
+        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: archive.consolidation.daily requires ` +
+          `archive.frequency "hourly" (got "${options.archive.frequency}").`,
+      );
+    }
+    if (consolidation.monthly && archiveHours > frequencyToHours("daily")) {
+      throw new Error(
+        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: archive.consolidation.monthly requires ` +
+          `archive.frequency "hourly" or "daily" (got "${options.archive.frequency}").`,
+      );
+    }
+  }
+
+  // Raw logs are deleted after their rotation period and, with archiving, once archived.
+  // The policies are named "retention" while they share the same duration.
+  const { logs, archives } = options.retention;
+  const shared = logs.duration === archives.duration;
+  if (logs.duration) {
+    const name = shared ? "retention.duration" : "retention.logs.duration";
+    const { value, unit } = parseDuration(logs.duration);
     const retentionHours = durationToHours(value, unit);
 
     if (options.archive.enabled && retentionHours < archiveHours) {
       throw new Error(
-        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: retention.duration ("${options.retention.duration}") ` +
+        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: ${name} ("${logs.duration}") ` +
           `must be >= archive.frequency ("${options.archive.frequency}"). ` +
           `Cannot delete files before they can be archived.`,
       );
@@ -109,7 +857,7 @@ function validateConstraints(options: ResolvedTransportOptions): void {
 
     if (retentionHours < rotationHours) {
       throw new Error(
-        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: retention.duration ("${options.retention.duration}") ` +
+        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: ${name} ("${logs.duration}") ` +
           `must be >= rotation.frequency ("${options.rotation.frequency}"). ` +
           `Cannot delete files before rotation period ends.`,
       );
@@ -118,11 +866,42 @@ function validateConstraints(options: ResolvedTransportOptions): void {
     // Additional check: hourly retention with daily rotation
     if (unit === "h" && options.rotation.frequency === "daily") {
       throw new Error(
-        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: retention.duration with hours ("${options.retention.duration}") ` +
+        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: ${name} with hours ("${logs.duration}") ` +
           `cannot be used with daily rotation. Use "d" (days) or higher units.`,
       );
     }
   }
+
+  // Archives are deleted once their archive period has ended
+  if (archives.duration && !shared && options.archive.enabled) {
+    const { value, unit } = parseDuration(archives.duration);
+    if (durationToHours(value, unit) < archiveHours) {
+      throw new Error(
+        `[${DEFAULT_PACKAGE_NAME}] Invalid configuration: retention.archives.duration ("${archives.duration}") ` +
+          `must be >= archive.frequency ("${options.archive.frequency}"). ` +
+          `Cannot delete archives before their period ends.`,
+      );
+    }
+  }
+}
+
+/**
+ * Resolve with a promise's value, or with undefined if the deadline (epoch ms) comes first.
+ */
+function settleBefore<T>(promise: Promise<T>, deadline: number): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(undefined), Math.max(0, deadline - Date.now()));
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
 }
 
 /**
@@ -145,44 +924,127 @@ function validateConstraints(options: ResolvedTransportOptions): void {
  * });
  * ```
  */
-export default function (options: TransportOptions): SonicBoom {
+export default function (options: TransportOptions): TransportStream {
   // Resolve options with defaults and validation
   const resolved = resolveOptions(options);
 
-  // Create file transport
-  const transport = new FileTransport(resolved);
+  // Runtime stats: write counters shared by every file, worker outcomes recorded from events
+  const counters = createStreamCounters();
+  const outcomes: WorkerOutcomes = { lastArchive: null, lastRetention: null };
 
-  // Start archive scheduler if enabled
-  let stopArchive: (() => void) | undefined;
-  if (resolved.archive.enabled) {
-    stopArchive = startArchiveScheduler(resolved);
-  }
+  // Transport events are emitted on the returned stream once it is set up
+  let eventTarget: TransportStream | undefined;
+  const emit: EmitEvent = (event, ...args) => {
+    recordWorkerOutcome(outcomes, event, args);
+    eventTarget?.emit(event, ...args);
+  };
 
-  // Start retention scheduler if duration is set
-  let stopRetention: (() => void) | undefined;
-  if (resolved.retention.duration) {
-    stopRetention = startRetentionScheduler(resolved);
-  }
+  // Create file transport (partitioned if configured), or a level router with one per route
+  const transport =
+    resolved.routes.length > 0
+      ? new LevelRouter(resolved, emit, counters)
+      : createFileSetTransport(resolved, emit, counters);
 
-  // Start meta cleanup scheduler (always runs, default 7 days retention)
-  const stopMeta = startMetaScheduler(resolved);
+  // Start schedulers. Each one handles every file set of the transport,
+  // so routes share one set of cron tasks and worker threads.
+  // - Archive: file sets with archiving enabled
+  // - Consolidation: file sets with archiving and a consolidation policy
+  // - Retention: file sets with a retention policy (age, count or size)
+  // - Meta cleanup: always runs, default 7 days retention
+  const schedulers = [
+    startArchiveScheduler(resolved, emit),
+    startConsolidationScheduler(resolved, emit),
+    startRetentionScheduler(resolved, emit),
+    startMetaScheduler(resolved, emit),
+  ];
 
-  // Get the underlying SonicBoom stream
-  const stream = transport.stream;
+  // Get the underlying SonicBoom stream (the first route's stream when routing)
+  const sonic = transport.stream;
+  const sonicReopen = sonic.reopen.bind(sonic);
+  const stream = sonic as TransportStream;
+  eventTarget = stream;
 
-  // Override write to route through FileTransport (for rotation logic)
+  // Override write to route through the transport (for routing and rotation logic)
   stream.write = (data: string): boolean => {
     return transport.write(data);
   };
 
-  // Override end to clean up schedulers
-  const originalEnd = stream.end.bind(stream);
-  stream.end = (...args: Parameters<typeof originalEnd>): ReturnType<typeof originalEnd> => {
-    stopArchive?.();
-    stopRetention?.();
-    stopMeta();
-    return originalEnd(...args);
+  // Override flush so every file set is flushed
+  stream.flush = (cb?: (err?: Error) => unknown): void => {
+    transport.flush(cb);
+  };
+
+  // Rotate/reopen every file set through the transport (rotation lock held)
+  // SonicBoom's own reopen is kept for calls with a file and for the calls SonicBoom makes
+  // to complete a reopen deferred by an in-flight write
+  stream.rotate = (): Promise<void> => transport.rotate("manual");
+  stream.reopen = (file?: string): Promise<void> => {
+    if (file !== undefined || transport.opening) {
+      sonicReopen(file);
+      return Promise.resolve();
+    }
+    return transport.rotate("reopen");
   };
 
+  stream.getStats = (): TransportStats =>
+    buildStats(counters, [transport.getStats()].flat(), outcomes);
+
+  // Reopen on signal (e.g., logrotate postrotate)
+  const onSignal = (): void => {
+    stream.reopen().catch((err) => {
+      console.error(`[${DEFAULT_PACKAGE_NAME}] Reopen on ${resolved.reopenOnSignal} failed:`, err);
+    });
+  };
+  if (resolved.reopenOnSignal) {
+    process.on(resolved.reopenOnSignal, onSignal);
+  }
+
+  // Graceful shutdown: stop schedulers and signal handler, drain and end every file set,
+  // and wait for running workers until the deadline
+  let closing: Promise<CloseReport> | undefined;
+  stream.close = ({ timeout = DEFAULT_CLOSE_TIMEOUT_MS }: CloseOptions = {}) => {
+    closing ??= (async () => {
+      const deadline = Date.now() + timeout;
+      if (resolved.reopenOnSignal) {
+        process.off(resolved.reopenOnSignal, onSignal);
+      }
+
+      const [linesFlushed, interrupted] = await Promise.all([
+        settleBefore(transport.close(), deadline),
+        Promise.all(schedulers.map((scheduler) => scheduler.close(deadline))),
+      ]);
+      const interruptedWorkers = interrupted.flat();
+
+      return {
+        linesFlushed: linesFlushed ?? 0,
+        interruptedWorkers,
+        timedOut: linesFlushed === undefined || interruptedWorkers.length > 0,
+      };
+    })();
+    return closing;
+  };
+
+  // Override end to close without waiting for the report, keeping the Writable.end arguments
+  stream.end = ((...args: unknown[]): TransportStream => {
+    const cb =
+      typeof args.at(-1) === "function" ? (args.pop() as (err?: Error) => void) : undefined;
+    const [chunk] = args;
+    if (typeof chunk === "string" || Buffer.isBuffer(chunk)) {
+      stream.write(chunk.toString());
+    }
+
+    stream.close().then(
+      () => cb?.(),
+      (err) => {
+        if (cb) {
+          cb(err);
+        } else {
+          console.error(`[${DEFAULT_PACKAGE_NAME}] Close failed:`, err);
+        }
+      },
+    );
+    return stream;
+  }) as TransportStream["end"];
+
   return stream;
 }
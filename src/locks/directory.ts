@@ -0,0 +1,152 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { LOCK_PATHS } from "../config";
+import type { RotationLockOwner } from "../types";
+import { getISOTimestamp } from "../utils/time";
+import { isOwnedByThisProcess, isOwnerDead } from "./owner";
+
+/**
+ * Directory locks using atomic mkdir, shared by the rotation lock, the archive manifest lock
+ * and the guards of the worker locks. The lock directory holds an owner file, so the lock of
+ * a dead process is taken over right away.
+ */
+
+/** Counter making the names of moved stale locks unique within a process */
+let staleCounter = 0;
+
+/**
+ * Read the owner of a lock directory.
+ * Returns null if the lock doesn't exist or has no owner file yet (or from an older version).
+ */
+export function readDirectoryLockOwner(lockPath: string): RotationLockOwner | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(lockPath, LOCK_PATHS.LOCK_OWNER), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove a stale lock, unless another process took it over in the meantime.
+ * The lock is moved to a private name first: only one process can move it, and the mover
+ * checks it moved the lock it found stale (same owner). Otherwise the lock is put back.
+ * A moved lock without an owner file is put back unless it is older than `staleTimeout`:
+ * its holder may not have written the owner file yet.
+ */
+function removeStaleLock(
+  lockPath: string,
+  staleOwner: RotationLockOwner | null,
+  staleTimeout: number,
+): void {
+  const movedPath = `${lockPath}.${process.pid}-${staleCounter++}.stale`;
+  try {
+    fs.renameSync(lockPath, movedPath);
+  } catch {
+    // Another process moved it first
+    return;
+  }
+
+  const movedOwner = readDirectoryLockOwner(movedPath);
+  const fresh = movedOwner
+    ? movedOwner.acquiredAt !== staleOwner?.acquiredAt
+    : !isOlderThan(movedPath, staleTimeout);
+  if (fresh) {
+    // A fresh lock of another process: put it back (unless yet another lock was created)
+    try {
+      fs.mkdirSync(lockPath);
+      if (movedOwner) {
+        fs.renameSync(
+          path.join(movedPath, LOCK_PATHS.LOCK_OWNER),
+          path.join(lockPath, LOCK_PATHS.LOCK_OWNER),
+        );
+      }
+    } catch {
+      // Another process holds the lock now
+    }
+  }
+  fs.rmSync(movedPath, { recursive: true, force: true });
+}
+
+/**
+ * Check whether a lock directory was last modified more than `staleTimeout` ago.
+ * A lock that cannot be read is considered old.
+ */
+function isOlderThan(lockPath: string, staleTimeout: number): boolean {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs > staleTimeout;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Try to acquire a lock directory using atomic mkdir (its parent directory must exist).
+ * Returns true if lock acquired, false if another process holds it.
+ * Handles stale locks: the owner process is dead (on this host), or the lock is older than
+ * `staleTimeout` (crashed process on another host, or a hung one).
+ */
+export function tryAcquireDirectoryLock(lockPath: string, staleTimeout: number): boolean {
+  try {
+    // Check for stale lock (crashed process)
+    try {
+      const owner = readDirectoryLockOwner(lockPath);
+      const lockAge = Date.now() - fs.statSync(lockPath).mtimeMs;
+      if ((owner && isOwnerDead(owner)) || lockAge > staleTimeout) {
+        // Lock is stale, remove it
+        removeStaleLock(lockPath, owner, staleTimeout);
+      }
+    } catch {
+      // Lock doesn't exist, that's fine
+    }
+
+    // Try to create lock directory (atomic operation)
+    fs.mkdirSync(lockPath);
+  } catch {
+    // Lock already exists (another process holds it)
+    return false;
+  }
+
+  // Record the owner (without it, the lock only becomes stale by age)
+  const owner: RotationLockOwner = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    acquiredAt: getISOTimestamp(),
+  };
+  try {
+    fs.writeFileSync(path.join(lockPath, LOCK_PATHS.LOCK_OWNER), JSON.stringify(owner));
+  } catch {
+    // The lock is held either way
+  }
+  return true;
+}
+
+/**
+ * Refresh the age of a held lock directory, for holders that may keep it longer than
+ * its stale timeout.
+ */
+export function refreshDirectoryLock(lockPath: string): void {
+  const now = new Date();
+  try {
+    fs.utimesSync(lockPath, now, now);
+  } catch {
+    // Lock was released or taken over
+  }
+}
+
+/**
+ * Release a lock directory.
+ * A lock taken over by another process is left untouched.
+ */
+export function releaseDirectoryLock(lockPath: string): void {
+  const owner = readDirectoryLockOwner(lockPath);
+  if (owner && !isOwnedByThisProcess(owner)) {
+    return;
+  }
+  try {
+    fs.rmSync(path.join(lockPath, LOCK_PATHS.LOCK_OWNER), { force: true });
+    fs.rmdirSync(lockPath);
+  } catch {
+    // Lock might already be released or never acquired
+  }
+}
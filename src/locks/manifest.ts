@@ -0,0 +1,64 @@
+import path from "node:path";
+import { LOCK_PATHS, LOCK_SETTINGS } from "../config";
+import { ensureLocksDir } from "../utils/file";
+import { refreshDirectoryLock, releaseDirectoryLock, tryAcquireDirectoryLock } from "./directory";
+
+/**
+ * Archive manifest lock using atomic mkdir.
+ * Short-lived lock serializing the manifest updates of the archive and retention workers
+ * (see `tryAcquireDirectoryLock`).
+ */
+
+/**
+ * Get the manifest lock path for a log directory.
+ */
+export function getManifestLockPath(logDir: string): string {
+  return path.join(logDir, LOCK_PATHS.LOCKS_DIR, LOCK_PATHS.MANIFEST_LOCK);
+}
+
+/**
+ * Try to acquire the manifest lock using atomic mkdir.
+ * Returns true if lock acquired, false if another worker holds it.
+ * Stale locks are taken over (see `tryAcquireDirectoryLock`).
+ */
+async function tryAcquireManifestLock(logDir: string): Promise<boolean> {
+  try {
+    await ensureLocksDir(logDir);
+  } catch {
+    return false;
+  }
+  return tryAcquireDirectoryLock(getManifestLockPath(logDir), LOCK_SETTINGS.MANIFEST_STALE_MS);
+}
+
+/**
+ * Run a function with the manifest lock held.
+ * The lock is refreshed while the function runs, so a slow update (large manifest, slow disk)
+ * is not mistaken for a crashed one.
+ * @throws Error if the lock could not be acquired in time
+ */
+export async function withManifestLock<T>(logDir: string, fn: () => Promise<T>): Promise<T> {
+  let acquired = false;
+  for (let i = 0; i < LOCK_SETTINGS.MANIFEST_MAX_RETRIES && !acquired; i++) {
+    acquired = await tryAcquireManifestLock(logDir);
+    if (!acquired) {
+      await new Promise((resolve) => setTimeout(resolve, LOCK_SETTINGS.MANIFEST_RETRY_MS));
+    }
+  }
+  if (!acquired) {
+    throw new Error(`Timed out waiting for the archive manifest lock in ${logDir}`);
+  }
+
+  const lockPath = getManifestLockPath(logDir);
+  const refresh = setInterval(
+    () => refreshDirectoryLock(lockPath),
+    LOCK_SETTINGS.MANIFEST_STALE_MS / 4,
+  );
+  refresh.unref?.();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(refresh);
+    releaseDirectoryLock(lockPath);
+  }
+}
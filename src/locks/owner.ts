@@ -0,0 +1,37 @@
+import os from "node:os";
+
+/**
+ * Lock ownership checks shared by the rotation and worker locks.
+ * A PID can only be checked on the host it belongs to: locks of other hosts
+ * (e.g., on a shared volume) fall back to their age.
+ */
+
+/** Process and host recorded in a lock */
+type LockOwner = { pid: number; hostname?: string };
+
+/**
+ * Check whether a process is alive (signal 0 only checks that it exists).
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Check whether a lock owner is a dead process of this host.
+ */
+export function isOwnerDead(owner: LockOwner): boolean {
+  return owner.hostname === os.hostname() && !isProcessAlive(owner.pid);
+}
+
+/**
+ * Check whether a lock owner is this process.
+ */
+export function isOwnedByThisProcess(owner: LockOwner): boolean {
+  return owner.pid === process.pid && owner.hostname === os.hostname();
+}
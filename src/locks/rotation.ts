@@ -1,76 +1,87 @@
 import fs from "node:fs";
 import path from "node:path";
-import { LOCK_PATHS, LOCK_SETTINGS } from "../config";
+import { DEFAULT_OPTIONS, LOCK_PATHS } from "../config";
+import type { ResolvedLocksConfig, RotationLockOwner } from "../types";
 import { ensureLocksDirSync } from "../utils/file";
+import { getLockScope } from "../utils/parsing";
+import { readDirectoryLockOwner, releaseDirectoryLock, tryAcquireDirectoryLock } from "./directory";
 
 /**
  * Rotation lock using atomic mkdir.
- * Short-lived lock for file rotation operations.
+ * Short-lived lock for file rotation operations (see `tryAcquireDirectoryLock`).
  */
 
 /**
- * Get the rotation lock path for a log directory.
+ * Get the rotation lock path for a log directory (scoped by the filename template,
+ * see `getLockScope`).
  */
-export function getRotationLockPath(logDir: string): string {
-  return path.join(logDir, LOCK_PATHS.LOCKS_DIR, LOCK_PATHS.ROTATION_LOCK);
+export function getRotationLockPath(
+  logDir: string,
+  fileName: string = DEFAULT_OPTIONS.fileName,
+): string {
+  return path.join(
+    logDir,
+    LOCK_PATHS.LOCKS_DIR,
+    `${LOCK_PATHS.ROTATION_LOCK}${getLockScope(fileName)}`,
+  );
+}
+
+/**
+ * Get the owner of the rotation lock of a log directory, null if unknown.
+ */
+export function getRotationLockOwner(logDir: string, fileName?: string): RotationLockOwner | null {
+  return readDirectoryLockOwner(getRotationLockPath(logDir, fileName));
+}
+
+/**
+ * Check whether the rotation lock is held (by any process).
+ */
+export function isRotationLockHeld(logDir: string, fileName?: string): boolean {
+  return fs.existsSync(getRotationLockPath(logDir, fileName));
 }
 
 /**
  * Try to acquire rotation lock using atomic mkdir.
  * Returns true if lock acquired, false if another process holds it.
- * Handles stale locks from crashed processes.
+ * Stale locks are taken over (see `tryAcquireDirectoryLock`).
  */
-export function tryAcquireRotationLock(logDir: string): boolean {
-  const lockPath = getRotationLockPath(logDir);
-
+export function tryAcquireRotationLock(
+  logDir: string,
+  fileName: string | undefined,
+  staleTimeout: number,
+): boolean {
   try {
-    // Check for stale lock (crashed process)
-    try {
-      const stats = fs.statSync(lockPath);
-      const lockAge = Date.now() - stats.mtimeMs;
-      if (lockAge > LOCK_SETTINGS.ROTATION_STALE_MS) {
-        // Lock is stale, remove it
-        fs.rmdirSync(lockPath);
-      }
-    } catch {
-      // Lock doesn't exist, that's fine
-    }
-
     // Ensure .locks directory exists with README
     ensureLocksDirSync(logDir);
-
-    // Try to create lock directory (atomic operation)
-    fs.mkdirSync(lockPath);
-    return true;
   } catch {
-    // Lock already exists (another process is rotating)
     return false;
   }
+  return tryAcquireDirectoryLock(getRotationLockPath(logDir, fileName), staleTimeout);
 }
 
 /**
  * Release rotation lock.
+ * A lock taken over by another process is left untouched.
  */
-export function releaseRotationLock(logDir: string): void {
-  const lockPath = getRotationLockPath(logDir);
-  try {
-    fs.rmdirSync(lockPath);
-  } catch {
-    // Lock might already be released or never acquired
-  }
+export function releaseRotationLock(logDir: string, fileName?: string): void {
+  releaseDirectoryLock(getRotationLockPath(logDir, fileName));
 }
 
 /**
  * Wait for rotation lock with retries.
  * Returns true if lock acquired, false if timed out.
  */
-export async function waitForRotationLock(logDir: string): Promise<boolean> {
-  for (let i = 0; i < LOCK_SETTINGS.ROTATION_MAX_RETRIES; i++) {
-    if (tryAcquireRotationLock(logDir)) {
+export async function waitForRotationLock(
+  logDir: string,
+  fileName: string | undefined,
+  settings: ResolvedLocksConfig["rotation"],
+): Promise<boolean> {
+  for (let i = 0; i < settings.maxRetries; i++) {
+    if (tryAcquireRotationLock(logDir, fileName, settings.staleTimeout)) {
       return true;
     }
     // Wait before retry
-    await new Promise((resolve) => setTimeout(resolve, LOCK_SETTINGS.ROTATION_RETRY_MS));
+    await new Promise((resolve) => setTimeout(resolve, settings.retryInterval));
   }
   return false;
 }
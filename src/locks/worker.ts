@@ -1,108 +1,260 @@
+import { randomUUID } from "node:crypto";
 import fsPromises from "node:fs/promises";
+import os from "node:os";
 import path from "node:path";
-import { LOCK_PATHS, LOCK_SETTINGS } from "../config";
-import type { WorkerLockData } from "../types";
-import { ensureLocksDir, fileExists, readJsonFile, writeJsonFile } from "../utils/file";
+import { DEFAULT_OPTIONS, LOCK_PATHS, LOCK_SETTINGS } from "../config";
+import type { WorkerLockData, WorkerType } from "../types";
+import { ensureLocksDir, readJsonFile, writeJsonFile } from "../utils/file";
+import { getLockScope } from "../utils/parsing";
 import { getISOTimestamp } from "../utils/time";
-
-export type WorkerType = "archive" | "retention" | "meta";
+import { releaseDirectoryLock, tryAcquireDirectoryLock } from "./directory";
+import { isOwnerDead } from "./owner";
 
 /** Map worker types to their lock file names */
 const WORKER_LOCK_FILES: Record<WorkerType, string> = {
   archive: LOCK_PATHS.ARCHIVE_LOCK,
+  consolidation: LOCK_PATHS.CONSOLIDATION_LOCK,
   retention: LOCK_PATHS.RETENTION_LOCK,
   meta: LOCK_PATHS.META_LOCK,
 };
 
+/** Counter making temporary lock file names unique within a process */
+let lockCounter = 0;
+
 /**
- * Get the worker lock file path.
+ * Get the worker lock file path (scoped by the filename template, see `getLockScope`).
  */
-export function getWorkerLockPath(logDir: string, workerType: WorkerType): string {
-  const lockFile = WORKER_LOCK_FILES[workerType];
+export function getWorkerLockPath(
+  logDir: string,
+  workerType: WorkerType,
+  fileName: string = DEFAULT_OPTIONS.fileName,
+): string {
+  const lockFile = WORKER_LOCK_FILES[workerType].replace(
+    /\.json$/,
+    `${getLockScope(fileName)}.json`,
+  );
   return path.join(logDir, LOCK_PATHS.LOCKS_DIR, lockFile);
 }
 
+/**
+ * Check if a worker lock is stale: its heartbeat is older than `staleTimeout`,
+ * or its process is dead.
+ */
+export function isWorkerLockStale(lockData: WorkerLockData, staleTimeout: number): boolean {
+  const heartbeatAge = Date.now() - new Date(lockData.heartbeat).getTime();
+  return heartbeatAge > staleTimeout || isOwnerDead(lockData);
+}
+
+/**
+ * Read a worker lock.
+ * A lock file that cannot be parsed (e.g., truncated by a crash) is read as a lock with the
+ * file's modification time as heartbeat, so it becomes stale like a crashed worker's lock.
+ * Returns null if the lock doesn't exist.
+ */
+export async function readWorkerLock(
+  logDir: string,
+  workerType: WorkerType,
+  fileName?: string,
+): Promise<WorkerLockData | null> {
+  const lockPath = getWorkerLockPath(logDir, workerType, fileName);
+  const lockData = await readJsonFile<WorkerLockData>(lockPath);
+  if (lockData) {
+    return lockData;
+  }
+  try {
+    const stats = await fsPromises.stat(lockPath);
+    return { pid: 0, startedAt: "", heartbeat: stats.mtime.toISOString(), attempt: 0 };
+  } catch {
+    return null;
+  }
+}
+
+/** Errors of `link` on file systems without hard links (some network, FUSE and Windows mounts) */
+const LINK_UNSUPPORTED_CODES = new Set(["EPERM", "ENOTSUP", "EOPNOTSUPP", "ENOSYS"]);
+
+/**
+ * Write a lock file atomically: the content is written to a temporary file, then linked to the
+ * lock path (fails with EEXIST if a lock exists) or renamed over it (`replace`).
+ * Readers never see a partially written lock.
+ * Without hard links, the lock is created exclusively and written in place: a partially written
+ * lock reads as a fresh lock (see `readWorkerLock`).
+ */
+async function writeLockFile(
+  lockPath: string,
+  lockData: WorkerLockData,
+  replace: boolean,
+): Promise<void> {
+  const tempPath = `${lockPath}.${process.pid}-${lockCounter++}.tmp`;
+  await writeJsonFile(tempPath, lockData);
+  try {
+    if (replace) {
+      await fsPromises.rename(tempPath, lockPath);
+    } else {
+      await fsPromises.link(tempPath, lockPath);
+    }
+  } catch (err) {
+    if (replace || !LINK_UNSUPPORTED_CODES.has((err as NodeJS.ErrnoException).code ?? "")) {
+      throw err;
+    }
+    await fsPromises.writeFile(lockPath, JSON.stringify(lockData, null, 2), { flag: "wx" });
+  } finally {
+    await fsPromises.unlink(tempPath).catch(() => {});
+  }
+}
+
+/**
+ * Run a function while holding the guard of a worker lock.
+ * The lock file is only replaced or removed under its guard (a short-lived directory lock), so
+ * a process checking the lock before replacing it knows no other process changes it meanwhile.
+ * Returns `busy` if the guard could not be acquired in time.
+ */
+async function withLockGuard<T>(lockPath: string, busy: T, fn: () => Promise<T>): Promise<T> {
+  const guardPath = `${lockPath}${LOCK_PATHS.LOCK_GUARD_SUFFIX}`;
+  let acquired = false;
+  for (let i = 0; i < LOCK_SETTINGS.GUARD_MAX_RETRIES && !acquired; i++) {
+    acquired = tryAcquireDirectoryLock(guardPath, LOCK_SETTINGS.GUARD_STALE_MS);
+    if (!acquired) {
+      await new Promise((resolve) => setTimeout(resolve, LOCK_SETTINGS.GUARD_RETRY_MS));
+    }
+  }
+  if (!acquired) {
+    return busy;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    releaseDirectoryLock(guardPath);
+  }
+}
+
 /**
  * Try to acquire a worker lock.
+ * A missing lock file is created exclusively, so only one process can create it. A stale lock
+ * (see `isWorkerLockStale`) is replaced under the lock's guard, after checking it is still stale.
+ * The winner re-reads the lock to confirm it owns it.
+ * A taken-over lock counts as the next attempt of the crashed worker.
  * Returns the lock data if acquired, null if another worker holds it.
  */
 export async function tryAcquireWorkerLock(
   logDir: string,
   workerType: WorkerType,
+  fileName?: string,
+  staleTimeout: number = DEFAULT_OPTIONS.locks.worker.staleTimeout,
   attempt: number = 1,
-): Promise<WorkerLockData | null> {
-  const lockPath = getWorkerLockPath(logDir, workerType);
+): Promise<Required<WorkerLockData> | null> {
+  const lockPath = getWorkerLockPath(logDir, workerType, fileName);
 
   // Ensure .locks directory exists with README
   await ensureLocksDir(logDir);
 
-  // Check if lock exists
-  if (await fileExists(lockPath)) {
-    // Check if lock is stale
-    const existingLock = await readJsonFile<WorkerLockData>(lockPath);
-    if (existingLock) {
-      const heartbeatAge = Date.now() - new Date(existingLock.heartbeat).getTime();
-      if (heartbeatAge < LOCK_SETTINGS.WORKER_STALE_MS) {
-        // Lock is fresh, another worker is running
-        return null;
-      }
-      // Lock is stale, we can take over (increment attempt)
-      attempt = existingLock.attempt + 1;
+  const createLock = async (
+    replace: boolean,
+    lockAttempt: number,
+  ): Promise<Required<WorkerLockData> | null> => {
+    const lockData: Required<WorkerLockData> = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      token: randomUUID(),
+      startedAt: getISOTimestamp(),
+      heartbeat: getISOTimestamp(),
+      attempt: lockAttempt,
+    };
+
+    try {
+      await writeLockFile(lockPath, lockData, replace);
+    } catch {
+      // Another process created the lock first
+      return null;
     }
-  }
 
-  // Create lock
-  const lockData: WorkerLockData = {
-    pid: process.pid,
-    startedAt: getISOTimestamp(),
-    heartbeat: getISOTimestamp(),
-    attempt,
+    // Confirm ownership
+    const ownLock = await readJsonFile<WorkerLockData>(lockPath);
+    return ownLock?.token === lockData.token ? lockData : null;
   };
 
-  try {
-    await writeJsonFile(lockPath, lockData);
-    return lockData;
-  } catch {
+  // Check if lock exists
+  const existingLock = await readWorkerLock(logDir, workerType, fileName);
+  if (!existingLock) {
+    return createLock(false, attempt);
+  }
+  if (!isWorkerLockStale(existingLock, staleTimeout)) {
+    // Lock is fresh, another worker is running
     return null;
   }
+
+  return withLockGuard(lockPath, null, async () => {
+    // Check again: another process may have taken the lock over or released it meanwhile
+    const staleLock = await readWorkerLock(logDir, workerType, fileName);
+    if (!staleLock) {
+      return createLock(false, attempt);
+    }
+    if (!isWorkerLockStale(staleLock, staleTimeout)) {
+      return null;
+    }
+    // Lock is stale, we can take over (increment attempt)
+    return createLock(true, staleLock.attempt + 1);
+  });
 }
 
 /**
- * Update the heartbeat in the lock file.
+ * Update the heartbeat in the lock file, under the lock's guard.
  * Called periodically by the worker while it's running.
+ * Returns false if the lock was lost (released or taken over by another process).
  */
 export async function updateWorkerHeartbeat(
   logDir: string,
   workerType: WorkerType,
+  fileName: string | undefined,
+  token: string,
 ): Promise<boolean> {
-  const lockPath = getWorkerLockPath(logDir, workerType);
+  const lockPath = getWorkerLockPath(logDir, workerType, fileName);
 
   try {
-    const lockData = await readJsonFile<WorkerLockData>(lockPath);
-    if (!lockData || lockData.pid !== process.pid) {
-      // Lock was taken by another process
-      return false;
-    }
+    // A busy guard only delays the heartbeat
+    return await withLockGuard(lockPath, true, async () => {
+      const lockData = await readJsonFile<WorkerLockData>(lockPath);
+      if (lockData?.token !== token) {
+        return false;
+      }
 
-    lockData.heartbeat = getISOTimestamp();
-    await writeJsonFile(lockPath, lockData);
-    return true;
+      lockData.heartbeat = getISOTimestamp();
+      await writeLockFile(lockPath, lockData, true);
+
+      // Confirm ownership
+      const ownLock = await readJsonFile<WorkerLockData>(lockPath);
+      return ownLock?.token === token;
+    });
   } catch {
-    return false;
+    // The lock could not be written: the next heartbeat retries
+    return true;
   }
 }
 
 /**
- * Release the worker lock.
+ * Release the worker lock, under the lock's guard.
  * Called when the worker completes successfully.
+ * A lock taken over by another holder (another process, or another transport of this one)
+ * is left untouched.
  */
-export async function releaseWorkerLock(logDir: string, workerType: WorkerType): Promise<void> {
-  const lockPath = getWorkerLockPath(logDir, workerType);
-  try {
-    await fsPromises.unlink(lockPath);
-  } catch {
-    // Lock might already be released
-  }
+export async function releaseWorkerLock(
+  logDir: string,
+  workerType: WorkerType,
+  fileName: string | undefined,
+  token: string,
+): Promise<void> {
+  const lockPath = getWorkerLockPath(logDir, workerType, fileName);
+  await withLockGuard(lockPath, undefined, async () => {
+    const lockData = await readJsonFile<WorkerLockData>(lockPath);
+    if (lockData?.token !== token) {
+      return;
+    }
+    try {
+      await fsPromises.unlink(lockPath);
+    } catch {
+      // Lock might already be released
+    }
+  });
 }
 
 /**
@@ -112,38 +264,34 @@ export async function releaseWorkerLock(logDir: string, workerType: WorkerType):
 export async function checkStaleLock(
   logDir: string,
   workerType: WorkerType,
+  fileName?: string,
+  staleTimeout: number = DEFAULT_OPTIONS.locks.worker.staleTimeout,
 ): Promise<WorkerLockData | null> {
-  const lockPath = getWorkerLockPath(logDir, workerType);
-
-  if (!(await fileExists(lockPath))) {
-    return null;
-  }
-
-  const lockData = await readJsonFile<WorkerLockData>(lockPath);
-  if (!lockData) {
-    return null;
-  }
-
-  const heartbeatAge = Date.now() - new Date(lockData.heartbeat).getTime();
-  if (heartbeatAge > LOCK_SETTINGS.WORKER_STALE_MS) {
-    return lockData; // Stale
-  }
-
-  return null; // Fresh
+  const lockData = await readWorkerLock(logDir, workerType, fileName);
+  return lockData && isWorkerLockStale(lockData, staleTimeout) ? lockData : null;
 }
 
 /**
  * Start a heartbeat interval for a worker.
+ * `onLost` is called once if the lock is lost, the worker must then stop.
  * Returns the interval ID for cleanup.
  */
-export function startHeartbeat(logDir: string, workerType: WorkerType): NodeJS.Timeout {
+export function startHeartbeat(
+  logDir: string,
+  workerType: WorkerType,
+  fileName: string | undefined,
+  token: string,
+  heartbeatInterval: number,
+  onLost: () => void,
+): NodeJS.Timeout {
   const interval = setInterval(async () => {
-    const success = await updateWorkerHeartbeat(logDir, workerType);
+    const success = await updateWorkerHeartbeat(logDir, workerType, fileName, token);
     if (!success) {
       // Lost the lock, stop heartbeat
       clearInterval(interval);
+      onLost();
     }
-  }, LOCK_SETTINGS.WORKER_HEARTBEAT_MS);
+  }, heartbeatInterval);
 
   // Don't prevent process exit
   interval.unref?.();
@@ -1,100 +1,96 @@
-import { Worker } from "node:worker_threads";
 import cron from "node-cron";
-import { getArchiveCron, LOCK_SETTINGS } from "../config";
-import { checkStaleLock, tryAcquireWorkerLock } from "../locks/worker";
-import type { ResolvedTransportOptions } from "../types";
+import { getArchiveCron } from "../config";
+import type { EmitEvent, ResolvedTransportOptions } from "../types";
 import { logArchive } from "../utils/meta-log";
-import { resolveWorkerPath } from "../utils/worker-path";
+import { getFileSets, groupFileSets } from "../utils/routing";
+import { getCronTimezone } from "../utils/time";
+import { runSupervised } from "./supervisor";
+import {
+  closeSchedulerState,
+  createSchedulerState,
+  IDLE_SCHEDULER,
+  type Scheduler,
+  stopSchedulerState,
+  type WorkerSpec,
+} from "./workers";
 
-/**
- * Spawn the archive worker in a separate thread.
- */
-function spawnArchiveWorker(options: ResolvedTransportOptions): void {
-  try {
-    const workerPath = resolveWorkerPath("archive.worker");
-    new Worker(workerPath, { workerData: options });
-  } catch (err) {
+/** Archive worker, logging to the archive meta log */
+const ARCHIVE_WORKER: WorkerSpec = {
+  workerType: "archive",
+  name: "archive",
+  log: (options, message) => {
     if (options.archive.logging) {
-      logArchive(options.path, `Failed to spawn archive worker: ${err}`);
+      logArchive(options.path, message);
     }
-  }
-}
+  },
+};
 
 /**
- * Try to run the archive worker.
- * Acquires lock, spawns worker, then monitors heartbeat for retry.
+ * Start the archive scheduler for every file set with archiving enabled.
+ * File sets sharing a cron schedule share one cron task and one worker.
+ * Returns a handle to stop the scheduler or close it with its running workers.
  */
-async function tryRunArchive(options: ResolvedTransportOptions): Promise<void> {
-  const { path: logDir, archive } = options;
+export function startArchiveScheduler(
+  options: ResolvedTransportOptions,
+  emit: EmitEvent,
+): Scheduler {
+  const sets = getFileSets(options).filter((set) => set.archive.enabled);
 
-  // Try to acquire lock
-  const lockData = await tryAcquireWorkerLock(logDir, "archive");
-
-  if (lockData) {
-    // We got the lock, spawn the worker
-    if (archive.logging) {
-      logArchive(logDir, `Acquired archive lock, spawning worker (attempt: ${lockData.attempt})`);
-    }
-    spawnArchiveWorker(options);
+  // Archiving disabled everywhere - nothing to do
+  if (sets.length === 0) {
+    return IDLE_SCHEDULER;
   }
 
-  // Start monitoring for stale lock (worker crash)
-  // Even the process that spawned the worker monitors it
-  scheduleHeartbeatCheck(options);
-}
+  const state = createSchedulerState(ARCHIVE_WORKER, emit, options.locks.worker);
 
-/**
- * Schedule periodic heartbeat check for stale locks.
- */
-function scheduleHeartbeatCheck(options: ResolvedTransportOptions): void {
-  const { path: logDir, archive } = options;
+  // Run on creation if enabled
+  const runOnCreation = sets.filter((set) => set.archive.runOnCreation);
+  if (runOnCreation.length > 0) {
+    runSupervised(state, runOnCreation);
+  }
+
+  // Schedule one cron job per distinct schedule
+  const groups = groupFileSets(sets, (set) =>
+    getArchiveCron(set.archive.frequency, set.archive.executionHour),
+  );
 
-  // Check after worker stale timeout
-  setTimeout(async () => {
-    const staleLock = await checkStaleLock(logDir, "archive");
-    if (staleLock) {
-      if (archive.logging) {
+  const tasks = [...groups].map(([cronSchedule, group]) => {
+    for (const set of group) {
+      if (set.archive.logging) {
         logArchive(
-          logDir,
-          `Archive worker stale (last heartbeat: ${staleLock.heartbeat}), retrying...`,
+          set.path,
+          `Scheduling archive (frequency: ${set.archive.frequency}, cron: ${cronSchedule})`,
         );
       }
-      // Try to take over and retry
-      await tryRunArchive(options);
     }
-  }, LOCK_SETTINGS.WORKER_CHECK_MS);
-}
 
-/**
- * Start the archive scheduler.
- * Returns a function to stop the scheduler.
- */
-export function startArchiveScheduler(options: ResolvedTransportOptions): () => void {
-  const { archive } = options;
-
-  // Run on creation if enabled
-  if (archive.runOnCreation) {
-    tryRunArchive(options);
-  }
-
-  // Schedule cron job
-  const cronSchedule = getArchiveCron(archive.frequency, archive.executionHour);
-
-  if (archive.logging) {
-    logArchive(
-      options.path,
-      `Scheduling archive (frequency: ${archive.frequency}, cron: ${cronSchedule})`,
+    return cron.schedule(
+      cronSchedule,
+      () => {
+        runSupervised(state, group);
+      },
+      { timezone: getCronTimezone(options.timezone) },
     );
-  }
-
-  const task = cron.schedule(cronSchedule, () => {
-    tryRunArchive(options);
   });
 
-  return () => {
-    task.stop();
-    if (archive.logging) {
-      logArchive(options.path, "Archive scheduler stopped");
+  const stop = (): void => {
+    if (state.stopped) return;
+    stopSchedulerState(state);
+    for (const task of tasks) {
+      task.stop();
+    }
+    for (const set of sets) {
+      if (set.archive.logging) {
+        logArchive(set.path, "Archive scheduler stopped");
+      }
     }
   };
+
+  return {
+    stop,
+    close: (deadline) => {
+      stop();
+      return closeSchedulerState(state, deadline);
+    },
+  };
 }
@@ -0,0 +1,93 @@
+import cron from "node-cron";
+import { getConsolidationCron } from "../config";
+import type { EmitEvent, ResolvedTransportOptions } from "../types";
+import { logArchive } from "../utils/meta-log";
+import { getFileSets, groupFileSets } from "../utils/routing";
+import { getCronTimezone } from "../utils/time";
+import { runSupervised } from "./supervisor";
+import {
+  closeSchedulerState,
+  createSchedulerState,
+  IDLE_SCHEDULER,
+  type Scheduler,
+  stopSchedulerState,
+  type WorkerSpec,
+} from "./workers";
+
+/** Consolidation worker, logging to the archive meta log */
+const CONSOLIDATION_WORKER: WorkerSpec = {
+  workerType: "consolidation",
+  name: "consolidation",
+  log: (options, message) => {
+    if (options.archive.logging) {
+      logArchive(options.path, message);
+    }
+  },
+};
+
+/**
+ * Start the consolidation scheduler for every file set with archiving and a consolidation policy.
+ * File sets sharing a cron schedule share one cron task and one worker.
+ * Returns a handle to stop the scheduler or close it with its running workers.
+ */
+export function startConsolidationScheduler(
+  options: ResolvedTransportOptions,
+  emit: EmitEvent,
+): Scheduler {
+  const sets = getFileSets(options).filter(
+    (set) => set.archive.enabled && set.archive.consolidation,
+  );
+
+  // Consolidation disabled everywhere - nothing to do
+  if (sets.length === 0) {
+    return IDLE_SCHEDULER;
+  }
+
+  const state = createSchedulerState(CONSOLIDATION_WORKER, emit, options.locks.worker);
+
+  // Run on creation if enabled
+  const runOnCreation = sets.filter((set) => set.archive.runOnCreation);
+  if (runOnCreation.length > 0) {
+    runSupervised(state, runOnCreation);
+  }
+
+  // Schedule one cron job per distinct schedule
+  const groups = groupFileSets(sets, (set) => getConsolidationCron(set.archive.executionHour));
+
+  const tasks = [...groups].map(([cronSchedule, group]) => {
+    for (const set of group) {
+      if (set.archive.logging) {
+        logArchive(set.path, `Scheduling archive consolidation (cron: ${cronSchedule})`);
+      }
+    }
+
+    return cron.schedule(
+      cronSchedule,
+      () => {
+        runSupervised(state, group);
+      },
+      { timezone: getCronTimezone(options.timezone) },
+    );
+  });
+
+  const stop = (): void => {
+    if (state.stopped) return;
+    stopSchedulerState(state);
+    for (const task of tasks) {
+      task.stop();
+    }
+    for (const set of sets) {
+      if (set.archive.logging) {
+        logArchive(set.path, "Consolidation scheduler stopped");
+      }
+    }
+  };
+
+  return {
+    stop,
+    close: (deadline) => {
+      stop();
+      return closeSchedulerState(state, deadline);
+    },
+  };
+}
@@ -1,97 +1,77 @@
-import { Worker } from "node:worker_threads";
 import cron from "node-cron";
-import { getMetaCleanupCron, LOCK_SETTINGS } from "../config";
-import { checkStaleLock, tryAcquireWorkerLock } from "../locks/worker";
-import type { ResolvedTransportOptions } from "../types";
+import { getMetaCleanupCron } from "../config";
+import type { EmitEvent, ResolvedTransportOptions } from "../types";
 import { logMeta } from "../utils/meta-log";
-import { resolveWorkerPath } from "../utils/worker-path";
+import { getFileSets } from "../utils/routing";
+import { getCronTimezone } from "../utils/time";
+import { runSupervised } from "./supervisor";
+import {
+  closeSchedulerState,
+  createSchedulerState,
+  type Scheduler,
+  stopSchedulerState,
+  type WorkerSpec,
+} from "./workers";
 
-/**
- * Spawn the meta cleanup worker in a separate thread.
- */
-function spawnMetaWorker(options: ResolvedTransportOptions): void {
-  try {
-    const workerPath = resolveWorkerPath("meta.worker");
-    new Worker(workerPath, { workerData: options });
-  } catch (err) {
+/** Meta cleanup worker, logging to the meta log */
+const META_WORKER: WorkerSpec = {
+  workerType: "meta",
+  name: "meta cleanup",
+  log: (options, message) => {
     if (options.meta.logging) {
-      logMeta(options.path, `Failed to spawn meta cleanup worker: ${err}`);
+      logMeta(options.path, message);
     }
-  }
-}
+  },
+};
 
 /**
- * Try to run the meta cleanup worker.
- * Acquires lock, spawns worker, then monitors heartbeat for retry.
+ * Start the meta cleanup scheduler for every file set.
+ * Returns a handle to stop the scheduler or close it with its running workers.
  */
-async function tryRunMetaCleanup(options: ResolvedTransportOptions): Promise<void> {
-  const { path: logDir, meta } = options;
-
-  // Try to acquire lock
-  const lockData = await tryAcquireWorkerLock(logDir, "meta");
-
-  if (lockData) {
-    // We got the lock, spawn the worker
-    if (meta.logging) {
-      logMeta(logDir, `Acquired meta lock, spawning worker (attempt: ${lockData.attempt})`);
-    }
-    spawnMetaWorker(options);
-  }
-
-  // Start monitoring for stale lock (worker crash)
-  scheduleHeartbeatCheck(options);
-}
-
-/**
- * Schedule periodic heartbeat check for stale locks.
- */
-function scheduleHeartbeatCheck(options: ResolvedTransportOptions): void {
-  const { path: logDir, meta } = options;
-
-  // Check after worker stale timeout
-  setTimeout(async () => {
-    const staleLock = await checkStaleLock(logDir, "meta");
-    if (staleLock) {
-      if (meta.logging) {
-        logMeta(
-          logDir,
-          `Meta cleanup worker stale (last heartbeat: ${staleLock.heartbeat}), retrying...`,
-        );
-      }
-      // Try to take over and retry
-      await tryRunMetaCleanup(options);
-    }
-  }, LOCK_SETTINGS.WORKER_CHECK_MS);
-}
-
-/**
- * Start the meta cleanup scheduler.
- * Returns a function to stop the scheduler.
- */
-export function startMetaScheduler(options: ResolvedTransportOptions): () => void {
+export function startMetaScheduler(options: ResolvedTransportOptions, emit: EmitEvent): Scheduler {
   const { meta } = options;
+  const sets = getFileSets(options);
+  const state = createSchedulerState(META_WORKER, emit, options.locks.worker);
 
   // Run immediately on creation
-  tryRunMetaCleanup(options);
+  runSupervised(state, sets);
 
   // Get cron schedule based on execution hour
   const cronSchedule = getMetaCleanupCron(meta.executionHour);
 
   if (meta.logging) {
-    logMeta(
-      options.path,
-      `Scheduling meta cleanup (retention: ${meta.retention} days, cron: ${cronSchedule})`,
-    );
+    for (const set of sets) {
+      logMeta(
+        set.path,
+        `Scheduling meta cleanup (retention: ${meta.retention} days, cron: ${cronSchedule})`,
+      );
+    }
   }
 
-  const task = cron.schedule(cronSchedule, () => {
-    tryRunMetaCleanup(options);
-  });
+  const task = cron.schedule(
+    cronSchedule,
+    () => {
+      runSupervised(state, sets);
+    },
+    { timezone: getCronTimezone(options.timezone) },
+  );
 
-  return () => {
+  const stop = (): void => {
+    if (state.stopped) return;
+    stopSchedulerState(state);
     task.stop();
     if (meta.logging) {
-      logMeta(options.path, "Meta cleanup scheduler stopped");
+      for (const set of sets) {
+        logMeta(set.path, "Meta cleanup scheduler stopped");
+      }
     }
   };
+
+  return {
+    stop,
+    close: (deadline) => {
+      stop();
+      return closeSchedulerState(state, deadline);
+    },
+  };
 }
@@ -1,114 +1,116 @@
-import { Worker } from "node:worker_threads";
 import cron from "node-cron";
-import { getRetentionCron, LOCK_SETTINGS } from "../config";
-import { checkStaleLock, tryAcquireWorkerLock } from "../locks/worker";
-import type { ResolvedTransportOptions } from "../types";
+import { getRetentionCron, RETENTION_LIMITS_CRON } from "../config";
+import type {
+  DurationFormat,
+  EmitEvent,
+  ResolvedRetentionPolicy,
+  ResolvedTransportOptions,
+} from "../types";
 import { logRetention } from "../utils/meta-log";
 import { parseDuration } from "../utils/parsing";
-import { resolveWorkerPath } from "../utils/worker-path";
-
-/**
- * Spawn the retention worker in a separate thread.
- */
-function spawnRetentionWorker(options: ResolvedTransportOptions): void {
-  try {
-    const workerPath = resolveWorkerPath("retention.worker");
-    new Worker(workerPath, { workerData: options });
-  } catch (err) {
+import { hasRetentionPolicy, isRetentionPolicyActive } from "../utils/retention";
+import { getFileSets, groupFileSets } from "../utils/routing";
+import { getCronTimezone } from "../utils/time";
+import { runSupervised } from "./supervisor";
+import {
+  closeSchedulerState,
+  createSchedulerState,
+  IDLE_SCHEDULER,
+  type Scheduler,
+  stopSchedulerState,
+  type WorkerSpec,
+} from "./workers";
+
+/** Retention worker, logging to the retention meta log */
+const RETENTION_WORKER: WorkerSpec = {
+  workerType: "retention",
+  name: "retention",
+  log: (options, message) => {
     if (options.retention.logging) {
-      logRetention(options.path, `Failed to spawn retention worker: ${err}`);
+      logRetention(options.path, message);
     }
-  }
-}
+  },
+};
 
 /**
- * Try to run the retention worker.
- * Acquires lock, spawns worker, then monitors heartbeat for retry.
+ * Get the cron schedule of a retention policy.
+ * Count and size limits are checked frequently, durations on their unit and execution hour.
  */
-async function tryRunRetention(options: ResolvedTransportOptions): Promise<void> {
-  const { path: logDir, retention } = options;
-
-  // No duration configured - nothing to do
-  if (!retention.duration) {
-    return;
-  }
-
-  // Try to acquire lock
-  const lockData = await tryAcquireWorkerLock(logDir, "retention");
-
-  if (lockData) {
-    // We got the lock, spawn the worker
-    if (retention.logging) {
-      logRetention(
-        logDir,
-        `Acquired retention lock, spawning worker (attempt: ${lockData.attempt})`,
-      );
-    }
-    spawnRetentionWorker(options);
+function getRetentionPolicyCron(policy: ResolvedRetentionPolicy): string {
+  if (policy.maxFiles !== undefined || policy.maxTotalSize !== undefined) {
+    return RETENTION_LIMITS_CRON;
   }
-
-  // Start monitoring for stale lock (worker crash)
-  scheduleHeartbeatCheck(options);
+  const { unit } = parseDuration(policy.duration as DurationFormat);
+  return getRetentionCron(unit, policy.executionHour);
 }
 
 /**
- * Schedule periodic heartbeat check for stale locks.
+ * Start the retention scheduler for every file set with a retention policy.
+ * File sets sharing a cron schedule share one cron task and one worker.
+ * Returns a handle to stop the scheduler or close it with its running workers.
  */
-function scheduleHeartbeatCheck(options: ResolvedTransportOptions): void {
-  const { path: logDir, retention } = options;
+export function startRetentionScheduler(
+  options: ResolvedTransportOptions,
+  emit: EmitEvent,
+): Scheduler {
+  const sets = getFileSets(options).filter((set) => hasRetentionPolicy(set.retention));
+
+  // No retention policy configured - nothing to do
+  if (sets.length === 0) {
+    return IDLE_SCHEDULER;
+  }
 
-  if (!retention.duration) return;
+  const state = createSchedulerState(RETENTION_WORKER, emit, options.locks.worker);
 
-  // Check after worker stale timeout
-  setTimeout(async () => {
-    const staleLock = await checkStaleLock(logDir, "retention");
-    if (staleLock) {
-      if (retention.logging) {
+  // Run immediately on creation
+  runSupervised(state, sets);
+
+  // Each policy (logs, archives) runs on its own schedule; a run applies both policies,
+  // so a run skipped because another schedule holds the lock loses nothing
+  const groups = groupFileSets(sets, (set) =>
+    [set.retention.logs, set.retention.archives]
+      .filter(isRetentionPolicyActive)
+      .map(getRetentionPolicyCron),
+  );
+
+  const tasks = [...groups].map(([cronSchedule, group]) => {
+    for (const set of group) {
+      if (set.retention.logging) {
         logRetention(
-          logDir,
-          `Retention worker stale (last heartbeat: ${staleLock.heartbeat}), retrying...`,
+          set.path,
+          `Scheduling retention (logs: ${set.retention.logs.duration ?? "none"}, ` +
+            `archives: ${set.retention.archives.duration ?? "none"}, cron: ${cronSchedule})`,
         );
       }
-      // Try to take over and retry
-      await tryRunRetention(options);
     }
-  }, LOCK_SETTINGS.WORKER_CHECK_MS);
-}
 
-/**
- * Start the retention scheduler.
- * Returns a function to stop the scheduler.
- */
-export function startRetentionScheduler(options: ResolvedTransportOptions): () => void {
-  const { retention } = options;
-
-  // No duration configured - nothing to do
-  if (!retention.duration) {
-    return () => {};
-  }
-
-  // Run immediately on creation
-  tryRunRetention(options);
-
-  // Get cron schedule based on duration unit and execution hour
-  const { unit } = parseDuration(retention.duration);
-  const cronSchedule = getRetentionCron(unit, retention.executionHour);
-
-  if (retention.logging) {
-    logRetention(
-      options.path,
-      `Scheduling retention (duration: ${retention.duration}, cron: ${cronSchedule})`,
+    return cron.schedule(
+      cronSchedule,
+      () => {
+        runSupervised(state, group);
+      },
+      { timezone: getCronTimezone(options.timezone) },
     );
-  }
-
-  const task = cron.schedule(cronSchedule, () => {
-    tryRunRetention(options);
   });
 
-  return () => {
-    task.stop();
-    if (retention.logging) {
-      logRetention(options.path, "Retention scheduler stopped");
+  const stop = (): void => {
+    if (state.stopped) return;
+    stopSchedulerState(state);
+    for (const task of tasks) {
+      task.stop();
     }
+    for (const set of sets) {
+      if (set.retention.logging) {
+        logRetention(set.path, "Retention scheduler stopped");
+      }
+    }
+  };
+
+  return {
+    stop,
+    close: (deadline) => {
+      stop();
+      return closeSchedulerState(state, deadline);
+    },
   };
 }
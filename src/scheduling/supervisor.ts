@@ -0,0 +1,307 @@
+import { Worker } from "node:worker_threads";
+import { isWorkerLockStale, readWorkerLock, tryAcquireWorkerLock } from "../locks/worker";
+import type { ResolvedTransportOptions, WorkerJob } from "../types";
+import { logError } from "../utils/meta-log";
+import { resolveWorkerPath } from "../utils/worker-path";
+import { releaseLocks, type SchedulerState, scheduleTimer, trackWorker } from "./workers";
+
+/**
+ * File sets of a scheduled run that are not done yet.
+ * A pending file set is processed by a worker of this process, waiting for a retry,
+ * or locked by another process.
+ */
+type SupervisedRun = {
+  pending: Set<ResolvedTransportOptions>;
+  /** Attempt of the last worker started for each file set */
+  attempts: Map<ResolvedTransportOptions, number>;
+  /** Workers of this process, by file set */
+  workers: Map<ResolvedTransportOptions, Worker>;
+  /** File sets waiting for a retry */
+  retrying: Set<ResolvedTransportOptions>;
+};
+
+/**
+ * Run the scheduler's worker for a group of file sets, and supervise the run until every
+ * file set is done:
+ * - the file sets whose lock is acquired are processed by one spawned worker
+ * - a worker that crashes (its lock is left behind when it exits) or hangs (its heartbeat goes
+ *   stale) is retried for the file sets it did not complete, after `locks.worker.retryDelay`,
+ *   doubled after each attempt
+ * - the file sets locked by another process are watched, and taken over if their lock goes stale
+ * After `locks.worker.maxAttempts` attempts, a file set is given up until the next scheduled
+ * run, and the failure is logged to `.meta/error`.
+ */
+export async function runSupervised(
+  state: SchedulerState,
+  sets: ResolvedTransportOptions[],
+): Promise<void> {
+  const run: SupervisedRun = {
+    pending: new Set(sets),
+    attempts: new Map(),
+    workers: new Map(),
+    retrying: new Set(),
+  };
+
+  await startAttempt(state, run, sets);
+  watchRun(state, run);
+}
+
+/**
+ * Acquire the locks of file sets and spawn one worker for the acquired ones.
+ */
+async function startAttempt(
+  state: SchedulerState,
+  run: SupervisedRun,
+  sets: ResolvedTransportOptions[],
+): Promise<void> {
+  const { spec, locks } = state;
+  const acquired: ResolvedTransportOptions[] = [];
+
+  for (const options of sets) {
+    run.retrying.delete(options);
+
+    // Try to acquire lock: a stale lock of another process counts as its next attempt
+    const lockData = await tryAcquireWorkerLock(
+      options.path,
+      spec.workerType,
+      options.fileName,
+      locks.staleTimeout,
+      run.attempts.get(options) ?? 1,
+    );
+    if (!lockData) {
+      // Another process is running the worker: watched until it is done
+      continue;
+    }
+
+    state.tokens.set(options, lockData.token);
+    if (lockData.attempt > locks.maxAttempts) {
+      await giveUp(state, run, options, lockData.attempt - 1);
+      continue;
+    }
+
+    // We got the lock, the worker will process this file set
+    spec.log(
+      options,
+      `Acquired ${spec.workerType} lock, spawning worker (attempt: ${lockData.attempt})`,
+    );
+    run.attempts.set(options, lockData.attempt);
+    acquired.push(options);
+  }
+
+  // The scheduler was closed while acquiring locks
+  if (state.stopped) {
+    await releaseLocks(state, acquired);
+    return;
+  }
+
+  if (acquired.length > 0) {
+    await spawnWorker(state, run, acquired);
+  }
+}
+
+/**
+ * Spawn the worker in a separate thread, and handle its exit.
+ * A worker that cannot be spawned is retried like a crashed one.
+ */
+async function spawnWorker(
+  state: SchedulerState,
+  run: SupervisedRun,
+  sets: ResolvedTransportOptions[],
+): Promise<void> {
+  const { spec } = state;
+  let worker: Worker;
+  try {
+    const workerPath = resolveWorkerPath(`${spec.workerType}.worker`);
+    const jobs: WorkerJob[] = sets.map((options) => ({
+      options,
+      lockToken: state.tokens.get(options) as string,
+    }));
+    worker = new Worker(workerPath, { workerData: jobs });
+  } catch (err) {
+    for (const options of sets) {
+      spec.log(options, `Failed to spawn ${spec.name} worker: ${err}`);
+    }
+    await retryFailed(state, run, sets);
+    return;
+  }
+
+  trackWorker(state, worker, sets);
+  for (const options of sets) {
+    run.workers.set(options, worker);
+  }
+  worker.once("exit", () => {
+    void handleExit(state, run, sets);
+  });
+}
+
+/**
+ * Handle the exit of a worker: the worker releases the lock of every file set it completes,
+ * so the file sets whose lock the scheduler still holds (same token) failed and are retried.
+ */
+async function handleExit(
+  state: SchedulerState,
+  run: SupervisedRun,
+  sets: ResolvedTransportOptions[],
+): Promise<void> {
+  for (const options of sets) {
+    run.workers.delete(options);
+  }
+  // Closing the scheduler releases the locks of terminated workers
+  if (state.stopped) return;
+
+  const failed: ResolvedTransportOptions[] = [];
+  for (const options of sets) {
+    const lockData = await readWorkerLock(options.path, state.spec.workerType, options.fileName);
+    if (lockData && lockData.token === state.tokens.get(options)) {
+      failed.push(options);
+    } else {
+      state.tokens.delete(options);
+      run.pending.delete(options);
+    }
+  }
+
+  if (failed.length > 0) {
+    await retryFailed(state, run, failed);
+  }
+}
+
+/**
+ * Release the locks of failed file sets, then retry them after a delay doubling with each
+ * attempt, or give up after the last attempt.
+ */
+async function retryFailed(
+  state: SchedulerState,
+  run: SupervisedRun,
+  failed: ResolvedTransportOptions[],
+): Promise<void> {
+  const { spec, locks } = state;
+  await releaseLocks(state, failed);
+
+  // File sets of one worker usually share their attempt: one worker per attempt
+  const retries = new Map<number, ResolvedTransportOptions[]>();
+  for (const options of failed) {
+    const attempt = run.attempts.get(options) ?? 1;
+    if (attempt >= locks.maxAttempts) {
+      await giveUp(state, run, options, attempt);
+      continue;
+    }
+
+    const delay = locks.retryDelay * 2 ** (attempt - 1);
+    spec.log(
+      options,
+      `${capitalize(spec.name)} worker failed (attempt: ${attempt}), retrying in ${delay}ms`,
+    );
+    run.attempts.set(options, attempt + 1);
+    run.retrying.add(options);
+    retries.set(attempt, [...(retries.get(attempt) ?? []), options]);
+  }
+
+  for (const [attempt, sets] of retries) {
+    scheduleTimer(
+      state,
+      () => {
+        void startAttempt(state, run, sets);
+      },
+      locks.retryDelay * 2 ** (attempt - 1),
+    );
+  }
+}
+
+/**
+ * Stop retrying a file set until the next scheduled run: its lock is released,
+ * and the failure is logged to `.meta/error` and emitted.
+ */
+async function giveUp(
+  state: SchedulerState,
+  run: SupervisedRun,
+  options: ResolvedTransportOptions,
+  attempts: number,
+): Promise<void> {
+  const { spec } = state;
+  run.pending.delete(options);
+  run.retrying.delete(options);
+  await releaseLocks(state, [options]);
+
+  const err = new Error(
+    `${capitalize(spec.name)} worker failed after ${attempts} attempts, ` +
+      "giving up until the next scheduled run",
+  );
+  spec.log(options, err.message);
+  logError(options.path, spec.workerType, err, options.meta.error);
+  state.emit("transport:error", err, { source: spec.workerType, path: options.path });
+}
+
+/**
+ * Check the locks of the pending file sets every `locks.worker.checkInterval`, for the whole
+ * run. Even the process that spawned the worker monitors it.
+ */
+function watchRun(state: SchedulerState, run: SupervisedRun): void {
+  if (run.pending.size === 0) return;
+
+  scheduleTimer(
+    state,
+    async () => {
+      await checkLocks(state, run);
+      watchRun(state, run);
+    },
+    state.locks.checkInterval,
+  );
+}
+
+/**
+ * Check the locks of the pending file sets:
+ * - a file set locked by another process is done once its lock is released,
+ *   and taken over if the lock is stale
+ * - a worker of this process whose lock is stale hangs: it is terminated, then retried
+ */
+async function checkLocks(state: SchedulerState, run: SupervisedRun): Promise<void> {
+  const { spec, locks } = state;
+  const staleSets: ResolvedTransportOptions[] = [];
+  const hungWorkers = new Set<Worker>();
+
+  for (const options of [...run.pending]) {
+    if (run.retrying.has(options)) continue;
+
+    const worker = run.workers.get(options);
+    const lockData = await readWorkerLock(options.path, spec.workerType, options.fileName);
+    if (!lockData) {
+      // Released: done (the exit of a worker of this process is handled on exit)
+      if (!worker) run.pending.delete(options);
+      continue;
+    }
+    if (!isWorkerLockStale(lockData, locks.staleTimeout)) continue;
+
+    state.emit("lock:stale", {
+      path: options.path,
+      worker: spec.workerType,
+      pid: lockData.pid,
+      heartbeat: lockData.heartbeat,
+    });
+    spec.log(
+      options,
+      `${capitalize(spec.name)} worker stale (last heartbeat: ${lockData.heartbeat}), retrying...`,
+    );
+    if (worker) {
+      hungWorkers.add(worker);
+    } else {
+      staleSets.push(options);
+    }
+  }
+
+  // A terminated worker is retried on exit, for the file sets it did not complete
+  for (const worker of hungWorkers) {
+    await worker.terminate();
+  }
+
+  // Try to take over and retry
+  if (staleSets.length > 0) {
+    await startAttempt(state, run, staleSets);
+  }
+}
+
+/**
+ * Capitalize a worker name for the start of a meta log message.
+ */
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
@@ -0,0 +1,190 @@
+import type { Worker } from "node:worker_threads";
+import { releaseWorkerLock } from "../locks/worker";
+import type {
+  EmitEvent,
+  InterruptedWorker,
+  ResolvedLocksConfig,
+  ResolvedTransportOptions,
+  WorkerType,
+} from "../types";
+import { emitEventMessage } from "../utils/events";
+import { logError } from "../utils/meta-log";
+
+/** A spawned worker and the file sets whose locks it holds */
+type RunningWorker = {
+  worker: Worker;
+  sets: ResolvedTransportOptions[];
+};
+
+/**
+ * Worker run by a scheduler.
+ */
+export type WorkerSpec = {
+  /** Worker type, also the name of its lock and entry point (`<type>.worker`) */
+  workerType: WorkerType;
+  /** Name in meta log messages, e.g. "meta cleanup" */
+  name: string;
+  /** Log a message to the meta log of a file set, if its logging is enabled */
+  log: (options: ResolvedTransportOptions, message: string) => void;
+};
+
+/**
+ * Runtime state of a scheduler: running workers and pending heartbeat checks and retries.
+ */
+export type SchedulerState = {
+  spec: WorkerSpec;
+  emit: EmitEvent;
+  /** Worker lock timings and retry limits */
+  locks: ResolvedLocksConfig["worker"];
+  stopped: boolean;
+  running: Set<RunningWorker>;
+  /** Tokens of the worker locks held by the scheduler, by file set */
+  tokens: Map<ResolvedTransportOptions, string>;
+  timers: Set<NodeJS.Timeout>;
+};
+
+/**
+ * Handle returned by the schedulers.
+ */
+export type Scheduler = {
+  /** Stop scheduling new runs (running workers continue) */
+  stop: () => void;
+  /**
+   * Stop scheduling and wait for running workers until the deadline (epoch ms).
+   * Workers still running are terminated and their locks released.
+   */
+  close: (deadline: number) => Promise<InterruptedWorker[]>;
+};
+
+/** Scheduler without file sets to process */
+export const IDLE_SCHEDULER: Scheduler = {
+  stop: () => {},
+  close: async () => [],
+};
+
+/**
+ * Create the runtime state of a scheduler.
+ */
+export function createSchedulerState(
+  spec: WorkerSpec,
+  emit: EmitEvent,
+  locks: ResolvedLocksConfig["worker"],
+): SchedulerState {
+  return {
+    spec,
+    emit,
+    locks,
+    stopped: false,
+    running: new Set(),
+    tokens: new Map(),
+    timers: new Set(),
+  };
+}
+
+/**
+ * Track a spawned worker until it exits.
+ * Events posted by the worker are emitted on the stream, and uncaught worker errors
+ * are reported for every file set it processes.
+ */
+export function trackWorker(
+  state: SchedulerState,
+  worker: Worker,
+  sets: ResolvedTransportOptions[],
+): void {
+  const entry: RunningWorker = { worker, sets };
+  state.running.add(entry);
+  worker.on("message", (message) => emitEventMessage(message, state.emit));
+  worker.on("error", (err) => {
+    for (const set of sets) {
+      logError(set.path, state.spec.workerType, err, set.meta.error);
+      state.emit("transport:error", err, { source: state.spec.workerType, path: set.path });
+    }
+  });
+  worker.once("exit", () => {
+    state.running.delete(entry);
+  });
+}
+
+/**
+ * Schedule a callback unless the scheduler is stopped.
+ * Pending callbacks are cancelled when the scheduler stops.
+ */
+export function scheduleTimer(state: SchedulerState, fn: () => void, delayMs: number): void {
+  if (state.stopped) return;
+
+  const timer = setTimeout(() => {
+    state.timers.delete(timer);
+    if (!state.stopped) fn();
+  }, delayMs);
+  state.timers.add(timer);
+}
+
+/**
+ * Stop a scheduler's pending heartbeat checks.
+ */
+export function stopSchedulerState(state: SchedulerState): void {
+  state.stopped = true;
+  for (const timer of state.timers) {
+    clearTimeout(timer);
+  }
+  state.timers.clear();
+}
+
+/**
+ * Wait for a scheduler's running workers until the deadline, then terminate the
+ * remaining ones and release the locks they hold.
+ * Returns the terminated workers.
+ */
+export async function closeSchedulerState(
+  state: SchedulerState,
+  deadline: number,
+): Promise<InterruptedWorker[]> {
+  stopSchedulerState(state);
+
+  const running = [...state.running];
+  await Promise.all(running.map(({ worker }) => waitForExit(worker, deadline)));
+
+  const interrupted: InterruptedWorker[] = [];
+  for (const entry of running) {
+    if (!state.running.has(entry)) continue;
+
+    await entry.worker.terminate();
+    state.running.delete(entry);
+    await releaseLocks(state, entry.sets);
+    interrupted.push({ type: state.spec.workerType, paths: entry.sets.map((set) => set.path) });
+  }
+
+  return interrupted;
+}
+
+/**
+ * Release the scheduler's worker locks of the given file sets.
+ */
+export async function releaseLocks(
+  state: SchedulerState,
+  sets: ResolvedTransportOptions[],
+): Promise<void> {
+  for (const set of sets) {
+    const token = state.tokens.get(set);
+    if (token === undefined) continue;
+
+    state.tokens.delete(set);
+    await releaseWorkerLock(set.path, state.spec.workerType, set.fileName, token);
+  }
+}
+
+/**
+ * Wait for a worker to exit, at most until the deadline.
+ */
+function waitForExit(worker: Worker, deadline: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, Math.max(0, deadline - Date.now()));
+    worker.once("exit", done);
+
+    function done(): void {
+      clearTimeout(timer);
+      worker.off("exit", done);
+      resolve();
+    }
+  });
+}
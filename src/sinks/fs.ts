@@ -0,0 +1,36 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ArchiveSink, FileSystemSinkConfig } from "../types";
+import { ensureDir } from "../utils/file";
+import { hashFile } from "../utils/manifest";
+
+/**
+ * Create a sink copying archives to another directory.
+ * Each archive is copied under a temp name and renamed, so the destination never holds
+ * a partial archive, then read back and compared to the archive's SHA-256.
+ */
+export function createFileSystemSink(config: FileSystemSinkConfig): ArchiveSink {
+  return {
+    put: async (file, key, sha256) => {
+      const destination = path.resolve(config.path, ...key.split("/"));
+      const tempPath = path.join(
+        path.dirname(destination),
+        `.${path.basename(destination)}.${process.pid}.tmp`,
+      );
+
+      await ensureDir(path.dirname(destination));
+      try {
+        await fs.copyFile(file, tempPath);
+        if ((await hashFile(tempPath)) !== sha256) {
+          throw new Error(`Copy of ${key} does not match the archive`);
+        }
+        await fs.rename(tempPath, destination);
+      } catch (err) {
+        await fs.rm(tempPath, { force: true });
+        throw err;
+      }
+
+      return destination;
+    },
+  };
+}
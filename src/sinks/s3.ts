@@ -0,0 +1,232 @@
+import { createHash, createHmac } from "node:crypto";
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import http from "node:http";
+import https from "node:https";
+import { DEFAULT_ARCHIVE_SINK } from "../config";
+import type { ArchiveSink, S3SinkConfig } from "../types";
+import { hashFile } from "../utils/manifest";
+
+/** SHA-256 of an empty payload (HEAD requests) */
+const EMPTY_PAYLOAD_SHA256 = createHash("sha256").update("").digest("hex");
+
+/** Signing credentials of an S3 sink */
+type S3Credentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken: string | undefined;
+};
+
+/** Response of an S3 request (the body is only kept for errors) */
+type S3Response = {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+/**
+ * Create a sink uploading archives to an S3-compatible bucket.
+ * Requests are signed with AWS Signature Version 4. The upload carries the SHA-256 and MD5
+ * of the archive, so the server rejects a corrupted body, and the object is checked
+ * with a HEAD request afterwards.
+ * @throws Error if no credentials are configured
+ */
+export function createS3Sink(config: S3SinkConfig): ArchiveSink {
+  const credentials = getCredentials(config);
+  const region = config.region ?? DEFAULT_ARCHIVE_SINK.S3_REGION;
+  const endpoint = new URL(config.endpoint ?? `https://s3.${region}.amazonaws.com`);
+  const pathStyle = config.forcePathStyle ?? config.endpoint !== undefined;
+  const timeout = config.timeout ?? DEFAULT_ARCHIVE_SINK.S3_TIMEOUT_MS;
+
+  /**
+   * Get the URL of an object key.
+   */
+  const getObjectUrl = (key: string): URL => {
+    const url = new URL(endpoint);
+    const objectPath = key.split("/").map(encodeRfc3986).join("/");
+    if (pathStyle) {
+      url.pathname = `${url.pathname.replace(/\/$/, "")}/${config.bucket}/${objectPath}`;
+    } else {
+      url.hostname = `${config.bucket}.${url.hostname}`;
+      url.pathname = `/${objectPath}`;
+    }
+    return url;
+  };
+
+  return {
+    put: async (file, key, sha256) => {
+      const objectKey = `${config.prefix ?? ""}${key}`;
+      const url = getObjectUrl(objectKey);
+      const { size } = await fs.stat(file);
+      const md5 = await hashFile(file, "md5");
+
+      const put = await request(
+        url,
+        "PUT",
+        signHeaders(url, "PUT", sha256, region, credentials, {
+          "content-length": String(size),
+          "content-md5": Buffer.from(md5, "hex").toString("base64"),
+        }),
+        timeout,
+        file,
+      );
+      if (put.status < 200 || put.status >= 300) {
+        throw new Error(`S3 upload of ${objectKey} failed: ${put.status} ${put.body}`.trim());
+      }
+
+      // Check the stored object: size, and content when the ETag is the MD5 (single-part upload)
+      const head = await request(
+        url,
+        "HEAD",
+        signHeaders(url, "HEAD", EMPTY_PAYLOAD_SHA256, region, credentials, {}),
+        timeout,
+      );
+      const etag = String(head.headers.etag ?? "").replace(/"/g, "");
+      if (
+        head.status !== 200 ||
+        Number(head.headers["content-length"]) !== size ||
+        (/^[0-9a-f]{32}$/.test(etag) && etag !== md5)
+      ) {
+        throw new Error(`S3 object ${objectKey} does not match the archive (${head.status})`);
+      }
+
+      return `s3://${config.bucket}/${objectKey}`;
+    },
+  };
+}
+
+/**
+ * Get the credentials of an S3 sink, from its config or the AWS environment variables.
+ * @throws Error if the access key or secret is missing
+ */
+function getCredentials(config: S3SinkConfig): S3Credentials {
+  const accessKeyId = config.accessKeyId ?? process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = config.secretAccessKey ?? process.env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error(
+      "S3 sink credentials are missing: set 'accessKeyId' and 'secretAccessKey' " +
+        "or the AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables",
+    );
+  }
+  return {
+    accessKeyId,
+    secretAccessKey,
+    sessionToken: config.sessionToken ?? process.env.AWS_SESSION_TOKEN,
+  };
+}
+
+/**
+ * Sign a request with AWS Signature Version 4 and return all of its headers.
+ * Every given header is signed.
+ */
+function signHeaders(
+  url: URL,
+  method: string,
+  payloadSha256: string,
+  region: string,
+  credentials: S3Credentials,
+  extraHeaders: Record<string, string>,
+): Record<string, string> {
+  const amzDate = new Date()
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...extraHeaders,
+    host: url.host,
+    "x-amz-content-sha256": payloadSha256,
+    "x-amz-date": amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    ...names.map((name) => `${name}:${headers[name].trim()}`),
+    "",
+    signedHeaders,
+    payloadSha256,
+  ].join("\n");
+
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    createHash("sha256").update(canonicalRequest).digest("hex"),
+  ].join("\n");
+
+  let key: Buffer = hmac(`AWS4${credentials.secretAccessKey}`, dateStamp);
+  for (const part of [region, "s3", "aws4_request"]) {
+    key = hmac(key, part);
+  }
+  const signature = createHmac("sha256", key).update(stringToSign).digest("hex");
+
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
+
+/**
+ * HMAC-SHA256 of a value.
+ */
+function hmac(key: string | Buffer, value: string): Buffer {
+  return createHmac("sha256", key).update(value).digest();
+}
+
+/**
+ * Encode a path segment as required by Signature Version 4 (RFC 3986 unreserved characters kept).
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+/**
+ * Send an HTTP(S) request, streaming a file as the body if given.
+ * The request is destroyed with an error once its socket is idle for `timeout` ms.
+ */
+function request(
+  url: URL,
+  method: string,
+  headers: Record<string, string>,
+  timeout: number,
+  bodyFile?: string,
+): Promise<S3Response> {
+  const transport = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = transport.request(url, { method, headers }, (res) => {
+      let body = "";
+      res.setEncoding("utf-8");
+      res.on("data", (chunk: string) => {
+        // Error bodies are short XML documents: keep the start only
+        if (body.length < 1024) body += chunk;
+      });
+      res.on("end", () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+      res.on("error", reject);
+    });
+    req.on("error", reject);
+    req.setTimeout(timeout, () => {
+      req.destroy(new Error(`S3 ${method} ${url.pathname} timed out after ${timeout}ms`));
+    });
+
+    if (bodyFile) {
+      const input = createReadStream(bodyFile);
+      input.on("error", (err) => req.destroy(err));
+      input.pipe(req);
+    } else {
+      req.end();
+    }
+  });
+}
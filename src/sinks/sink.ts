@@ -0,0 +1,50 @@
+import path from "node:path";
+import type { ArchiveSink, ResolvedArchiveSinkConfig } from "../types";
+import { createFileSystemSink } from "./fs";
+import { createS3Sink } from "./s3";
+
+/**
+ * Create the archive sink of a sink config.
+ * @throws Error if the sink cannot be created (e.g., missing S3 credentials)
+ */
+export function createArchiveSink(config: ResolvedArchiveSinkConfig): ArchiveSink {
+  switch (config.type) {
+    case "fs":
+      return createFileSystemSink(config);
+    case "s3":
+      return createS3Sink(config);
+  }
+}
+
+/**
+ * Get the sink key of an archive: its path relative to the transport log directory,
+ * so the archives of routes and partitions sharing a sink never clash.
+ */
+export function getArchiveKey(config: ResolvedArchiveSinkConfig, archiveFile: string): string {
+  return path.relative(config.root, archiveFile).split(path.sep).join("/");
+}
+
+/**
+ * Put an archive into the sink, retrying failures with an exponential backoff.
+ * Resolves with the destination.
+ * @throws Error the last failure once the retries are exhausted
+ */
+export async function putArchive(
+  sink: ArchiveSink,
+  config: ResolvedArchiveSinkConfig,
+  archiveFile: string,
+  sha256: string,
+): Promise<string> {
+  const key = getArchiveKey(config, archiveFile);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sink.put(archiveFile, key, sha256);
+    } catch (err) {
+      if (attempt >= config.retries) {
+        throw err;
+      }
+      await new Promise((resolve) => setTimeout(resolve, config.retryDelay * 2 ** attempt));
+    }
+  }
+}
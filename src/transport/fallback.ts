@@ -0,0 +1,101 @@
+import path from "node:path";
+import SonicBoom from "sonic-boom";
+import { DEFAULT_PACKAGE_NAME } from "../config";
+import type { FallbackType, ResolvedFallbackConfig, ResolvedTransportOptions } from "../types";
+import { getLogPath } from "../utils/parsing";
+import type { StreamCounters } from "../utils/stats";
+import { getCurrentRotationPeriod } from "../utils/time";
+
+/**
+ * Destination of the lines of a file set while its log directory fails (see `fallback`):
+ * another directory, stderr, or a ring buffer replayed once the log directory works again.
+ */
+export class FallbackDestination {
+  private options: ResolvedTransportOptions;
+  private config: ResolvedFallbackConfig;
+  private counters: StreamCounters;
+
+  // "directory": stream of the current period's file
+  private sonic: SonicBoom | null = null;
+  private period: string | null = null;
+
+  // "buffer": ring of the latest lines, the oldest at `head` once full
+  private ring: string[] = [];
+  private head: number = 0;
+
+  constructor(
+    options: ResolvedTransportOptions,
+    config: ResolvedFallbackConfig,
+    counters: StreamCounters,
+  ) {
+    this.options = options;
+    this.config = config;
+    this.counters = counters;
+  }
+
+  get type(): FallbackType {
+    return this.config.type;
+  }
+
+  /**
+   * Write a line. Returns false if the line is only held in the ring buffer.
+   */
+  write(line: string): boolean {
+    switch (this.config.type) {
+      case "directory":
+        this.getStream().write(line);
+        return true;
+      case "stderr":
+        process.stderr.write(line);
+        return true;
+      case "buffer":
+        if (this.ring.length < this.config.maxLines) {
+          this.ring.push(line);
+        } else {
+          this.ring[this.head] = line;
+          this.head = (this.head + 1) % this.config.maxLines;
+          this.counters.linesDroppedFallback++;
+        }
+        return false;
+    }
+  }
+
+  /**
+   * Close the destination, returning the lines held in the ring buffer, oldest first.
+   */
+  close(): string[] {
+    this.sonic?.end();
+    this.sonic = null;
+
+    const lines = [...this.ring.slice(this.head), ...this.ring.slice(0, this.head)];
+    this.ring = [];
+    this.head = 0;
+    return lines;
+  }
+
+  /**
+   * Get the stream of the current period's file in the fallback directory,
+   * reopened when the rotation period changes.
+   * Routes and partitions write to their path relative to the transport's directory.
+   */
+  private getStream(): SonicBoom {
+    const { rotation, timezone, fileName } = this.options;
+    const period = getCurrentRotationPeriod(rotation.frequency, timezone);
+    const dir = path.join(
+      this.config.path as string,
+      path.relative(this.config.root, this.options.path),
+    );
+    const file = getLogPath(dir, period, fileName);
+
+    if (!this.sonic) {
+      this.sonic = new SonicBoom({ dest: file, mkdir: true, append: true });
+      this.sonic.on("error", (err: Error) => {
+        console.error(`[${DEFAULT_PACKAGE_NAME}] Fallback write error:`, err);
+      });
+    } else if (period !== this.period) {
+      this.sonic.reopen(file);
+    }
+    this.period = period;
+    return this.sonic;
+  }
+}
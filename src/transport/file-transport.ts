@@ -1,38 +1,99 @@
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import SonicBoom from "sonic-boom";
-import { DEFAULT_PACKAGE_NAME } from "../config";
-import { releaseRotationLock, waitForRotationLock } from "../locks/rotation";
-import type { ResolvedTransportOptions } from "../types";
-import { ensureDirSync, getFileSizeSync } from "../utils/file";
-import { logRotation } from "../utils/meta-log";
+import { DEFAULT_DISK_GUARD, DEFAULT_PACKAGE_NAME, SPILL_DIR_PREFIX } from "../config";
+import {
+  getRotationLockOwner,
+  isRotationLockHeld,
+  releaseRotationLock,
+  waitForRotationLock,
+} from "../locks/rotation";
+import type {
+  EmitEvent,
+  ErrorContext,
+  FileStats,
+  ResolvedDiskGuardConfig,
+  ResolvedTransportOptions,
+  RotationReason,
+} from "../types";
+import { freeDiskSpace, getFreeSpace } from "../utils/disk";
+import { toError } from "../utils/events";
+import { ensureDirSync, getFileSizeSync, updateCurrentLinkSync } from "../utils/file";
+import { logError, logRotation } from "../utils/meta-log";
 import { generateOverflowFilename, getLogPath, getOverflowPattern } from "../utils/parsing";
+import { parseLevel } from "../utils/routing";
+import type { StreamCounters } from "../utils/stats";
 import { getCurrentRotationPeriod } from "../utils/time";
+import { FallbackDestination } from "./fallback";
 
 /**
  * File transport using SonicBoom with rotation support.
  */
 export class FileTransport {
   private options: ResolvedTransportOptions;
+  /** File set holding the worker locks: the partitioned file set for a partition */
+  private fileSet: ResolvedTransportOptions;
+  private emit: EmitEvent;
+  private counters: StreamCounters;
   private sonic: SonicBoom;
   private sonicWrite: (data: string) => boolean;
+  private sonicFlush: (cb?: (err?: Error) => unknown) => void;
+  private sonicEnd: () => void;
+  private sonicReopen: (file?: string) => void;
   private currentPeriod: string;
   private currentFilePath: string;
   private bytesWritten: number = 0;
   private maxSizeBytes: number;
 
   private isRotating: boolean = false;
+  private rotation: Promise<void> | null = null;
+  private streamOpening: boolean = true;
+  private closing: Promise<number> | null = null;
   private pendingWrites: string[] = [];
+  private pendingWritesHighWaterMark: number = 0;
 
-  constructor(options: ResolvedTransportOptions) {
+  // Rotation buffer limit: buffered bytes, lines dropped since the last report,
+  // whether `write()` returned false ("block") and the spill file ("spill")
+  private pendingBytes: number = 0;
+  private pendingDropped: number = 0;
+  private pendingBlocked: boolean = false;
+  private spillFile: string | null = null;
+  private spilledLines: number = 0;
+
+  // Disk guard state, while free space is below the threshold
+  private lowDisk: boolean = false;
+  private lowDiskTimer: NodeJS.Timeout | null = null;
+  private lowDiskDropped: number = 0;
+  private emergencyRetention: Promise<void> | null = null;
+  private lastEmergencyRetention: number = 0;
+
+  // Fallback state: consecutive write errors, and the destination while the log directory fails
+  private writeErrors: number = 0;
+  private fallback: FallbackDestination | null = null;
+  private fallbackTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    options: ResolvedTransportOptions,
+    emit: EmitEvent,
+    counters: StreamCounters,
+    fileSet: ResolvedTransportOptions = options,
+  ) {
     this.options = options;
+    this.fileSet = fileSet;
+    this.emit = emit;
+    this.counters = counters;
     this.maxSizeBytes = options.rotation.maxSize * 1024 * 1024;
 
-    // Ensure log directory exists
-    ensureDirSync(options.path);
+    // Ensure log directory exists (with a fallback, a failing directory only fails the writes)
+    try {
+      ensureDirSync(options.path);
+    } catch (err) {
+      if (!options.fallback) throw err;
+    }
 
     // Get current period and file path
-    this.currentPeriod = getCurrentRotationPeriod(options.rotation.frequency);
+    this.currentPeriod = getCurrentRotationPeriod(options.rotation.frequency, options.timezone);
     this.currentFilePath = this.findAvailableLogPath();
 
     // Initialize bytes written from existing file
@@ -47,14 +108,42 @@ export class FileTransport {
       append: true,
     });
 
-    // Store original write method before any override
-    // This prevents infinite recursion when stream.write is overridden externally
+    // Store original write/flush/end methods before any override
+    // This prevents infinite recursion when the stream methods are overridden externally
     this.sonicWrite = this.sonic.write.bind(this.sonic);
+    this.sonicFlush = this.sonic.flush.bind(this.sonic);
+    this.sonicEnd = this.sonic.end.bind(this.sonic);
+    this.sonicReopen = this.sonic.reopen.bind(this.sonic);
+
+    this.sonic.once("ready", () => {
+      this.streamOpening = false;
+    });
+
+    // Lines dropped because SonicBoom's buffer reached maxLength were counted as written
+    this.sonic.on("drop", (data: string) => {
+      if (data === "") return;
+      this.counters.linesDropped++;
+      this.counters.linesWritten--;
+      this.counters.bytesWritten -= Buffer.byteLength(data, "utf8");
+    });
+
+    // A successful write ends a series of write errors
+    this.sonic.on("write", () => {
+      this.writeErrors = 0;
+    });
 
-    // Handle errors
-    this.sonic.on("error", (err) => {
+    // Handle SonicBoom errors (transport errors are emitted as `transport:error`)
+    this.sonic.on("error", (err: Error) => {
       console.error(`[${DEFAULT_PACKAGE_NAME}] SonicBoom error:`, err);
+      // A full disk engages the disk guard right away
+      if ((err as NodeJS.ErrnoException).code === "ENOSPC") {
+        this.checkDiskSpace();
+      }
+      this.handleWriteError(err);
     });
+
+    // Point the current link at the file this process writes to
+    this.updateCurrentLink();
   }
 
   // Adaptive disk check interval - adjusts based on throughput
@@ -70,30 +159,70 @@ export class FileTransport {
    * This is the main write interface for pino.
    */
   write(data: string): boolean {
-    const line = data.endsWith("\n") ? data : `${data}\n`;
+    let line = data.endsWith("\n") ? data : `${data}\n`;
+
+    // Low disk space: drop lines below the guard's level, or hold them (backpressure)
+    const guard = this.options.diskGuard;
+    if (this.lowDisk && guard) {
+      if (guard.action === "drop") {
+        line = this.dropLowLevelLines(line, guard.minLevel);
+        if (line === "") {
+          return true;
+        }
+      } else if (guard.action === "pause") {
+        this.bufferLine(line);
+        return false;
+      }
+    }
+
+    // The log directory fails: write to the fallback destination
+    if (this.fallback) {
+      if (this.fallback.write(line)) {
+        this.counters.bytesWritten += Buffer.byteLength(line, "utf8");
+        this.counters.linesWritten++;
+      }
+      return true;
+    }
 
     // During rotation, buffer writes
     if (this.isRotating) {
-      this.pendingWrites.push(line);
-      return true;
+      return this.bufferLine(line);
     }
 
     const lineBytes = Buffer.byteLength(line, "utf8");
 
     // Check if rotation is needed
-    const currentPeriod = getCurrentRotationPeriod(this.options.rotation.frequency);
+    const currentPeriod = getCurrentRotationPeriod(
+      this.options.rotation.frequency,
+      this.options.timezone,
+    );
     const periodChanged = currentPeriod !== this.currentPeriod;
 
+    // Disk check: detect a file moved or deleted by another tool
+    // SonicBoom would keep writing to the unlinked inode and its size would read as 0
+    const now = Date.now();
+    const diskCheckDue = now - this.lastDiskCheckTime >= this.nextCheckIntervalMs;
+    const fileReplaced = diskCheckDue && this.isFileReplaced();
+    if (diskCheckDue && (fileReplaced || this.maxSizeBytes === 0)) {
+      this.lastDiskCheckTime = now;
+    }
+
+    // Free space check: crossing the disk guard threshold may switch to the fallback directory
+    if (diskCheckDue && guard) {
+      this.checkDiskSpace();
+      if (this.isRotating) {
+        return this.bufferLine(line);
+      }
+    }
+
     // For size check: use adaptive interval that adjusts based on throughput
     // This handles multi-process scenarios where other workers may have written to the file
     let sizeExceeded = false;
-    if (this.maxSizeBytes > 0) {
-      const now = Date.now();
-
+    if (this.maxSizeBytes > 0 && !fileReplaced) {
       // Adaptive disk check - interval adjusts based on throughput and remaining space
-      if (now - this.lastDiskCheckTime >= this.nextCheckIntervalMs) {
+      if (diskCheckDue) {
         // Flush SonicBoom buffer first so disk size is accurate
-        this.sonic.flush();
+        this.sonicFlush();
 
         const actualSize = getFileSizeSync(this.currentFilePath);
         const elapsedMs = now - this.lastDiskCheckTime;
@@ -134,41 +263,274 @@ export class FileTransport {
       }
     }
 
-    if (periodChanged || sizeExceeded) {
+    if (periodChanged || sizeExceeded || fileReplaced) {
       // Start rotation
-      this.isRotating = true;
-      this.pendingWrites.push(line);
+      const buffered = this.bufferLine(line);
+      void this.startRotation(fileReplaced ? "external" : sizeExceeded ? "size" : "period");
+      return buffered;
+    }
 
-      this.rotate(sizeExceeded ? "size" : "period")
-        .then(() => this.processPendingWrites())
-        .catch((err) => console.error(`[${DEFAULT_PACKAGE_NAME}] Rotation failed:`, err))
-        .finally(() => {
-          this.isRotating = false;
-        });
+    // Normal write
+    return this.writeLine(line, lineBytes);
+  }
 
-      return true;
+  /**
+   * Drop the lines below the disk guard's level, counting them.
+   * A write may hold several lines (`pino.transport()` batches them): each one is checked.
+   * Returns the lines kept.
+   */
+  private dropLowLevelLines(data: string, minLevel: number): string {
+    let kept = "";
+    for (const line of data.split(/(?<=\n)/)) {
+      const level = parseLevel(line, this.options.levels);
+      if (level !== undefined && level < minLevel) {
+        this.lowDiskDropped++;
+        this.counters.linesDroppedLowDisk++;
+      } else {
+        kept += line;
+      }
     }
+    return kept;
+  }
 
-    // Normal write
+  /**
+   * Write a line to the active file, updating the size estimate and the stream counters.
+   */
+  private writeLine(line: string, lineBytes: number = Buffer.byteLength(line, "utf8")): boolean {
     this.bytesWritten += lineBytes;
+    this.counters.bytesWritten += lineBytes;
+    this.counters.linesWritten++;
     return this.sonicWrite(line);
   }
 
   /**
-   * Flush pending writes and end the stream.
+   * Buffer a line until the rotation completes, tracking the high-water mark.
+   * Beyond `rotation.maxPendingBytes`, the overflow policy applies.
+   * Returns false when the caller should wait for `drain` ("block" policy).
    */
-  async end(): Promise<void> {
-    return new Promise((resolve) => {
-      this.sonic.end();
+  private bufferLine(line: string): boolean {
+    // Once spilling, every line goes to the spill file to keep lines in order
+    if (this.spillFile && this.spillLine(line)) {
+      return true;
+    }
+
+    const lineBytes = Buffer.byteLength(line, "utf8");
+    const { maxPendingBytes, pendingOverflow } = this.options.rotation;
+    if (maxPendingBytes !== undefined && this.pendingBytes + lineBytes > maxPendingBytes) {
+      switch (pendingOverflow) {
+        case "block":
+          this.pendingBlocked = true;
+          break;
+        case "drop-newest":
+          this.pendingDropped++;
+          this.counters.linesDroppedPending++;
+          return true;
+        case "drop-oldest":
+          while (this.pendingWrites.length > 0 && this.pendingBytes + lineBytes > maxPendingBytes) {
+            this.pendingBytes -= Buffer.byteLength(this.pendingWrites.shift() as string, "utf8");
+            this.pendingDropped++;
+            this.counters.linesDroppedPending++;
+          }
+          break;
+        case "spill":
+          if (this.spillLine(line)) {
+            return true;
+          }
+          break;
+      }
+    }
+
+    this.pendingWrites.push(line);
+    this.pendingBytes += lineBytes;
+    if (this.pendingWrites.length > this.pendingWritesHighWaterMark) {
+      this.pendingWritesHighWaterMark = this.pendingWrites.length;
+      this.counters.pendingWritesHighWaterMark = Math.max(
+        this.counters.pendingWritesHighWaterMark,
+        this.pendingWritesHighWaterMark,
+      );
+    }
+    return !this.pendingBlocked;
+  }
+
+  /**
+   * Append a line to the spill file, created in the temporary directory on first use.
+   * Returns false if the spill file cannot be written (the line is buffered in memory).
+   */
+  private spillLine(line: string): boolean {
+    try {
+      this.spillFile ??= path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), SPILL_DIR_PREFIX)),
+        "spill.log",
+      );
+      fs.appendFileSync(this.spillFile, line);
+      this.spilledLines++;
+      return true;
+    } catch (err) {
+      this.reportError(err);
+      return false;
+    }
+  }
+
+  /**
+   * Take the buffered lines, in order: the lines in memory, then the spilled lines
+   * (the spill file is deleted).
+   */
+  private takePendingWrites(): string[] {
+    const pending = this.pendingWrites;
+    this.pendingWrites = [];
+    this.pendingBytes = 0;
+
+    if (this.spillFile) {
+      const spillFile = this.spillFile;
+      this.spillFile = null;
+      this.spilledLines = 0;
+      try {
+        const content = fs.readFileSync(spillFile, "utf-8");
+        for (const line of content.split("\n").slice(0, -1)) {
+          pending.push(`${line}\n`);
+        }
+      } catch (err) {
+        this.reportError(err);
+      }
+      fs.rmSync(path.dirname(spillFile), { recursive: true, force: true });
+    }
+    return pending;
+  }
+
+  /**
+   * Record the lines dropped by the rotation buffer's overflow policy in `.meta/error`,
+   * and emit `drain` if writes were blocked.
+   */
+  private reportPendingOverflow(): void {
+    const { maxPendingBytes, pendingOverflow } = this.options.rotation;
+    if (this.pendingDropped > 0) {
+      logError(
+        this.options.path,
+        "rotation",
+        new Error(
+          `Rotation buffer reached rotation.maxPendingBytes (${maxPendingBytes} bytes): ` +
+            `dropped ${this.pendingDropped} lines (${pendingOverflow})`,
+        ),
+        this.options.meta.error,
+      );
+      this.pendingDropped = 0;
+    }
+    if (this.pendingBlocked) {
+      this.pendingBlocked = false;
+      this.sonic.emit("drain");
+    }
+  }
+
+  /**
+   * Rotate on demand, with the rotation lock held.
+   * - "manual": switch to a new overflow file, cutting a clean file boundary
+   * - "reopen": reopen the active file path (e.g., after logrotate moved the file)
+   * Waits for an in-flight rotation first; writes are buffered meanwhile.
+   */
+  async rotate(reason: "manual" | "reopen" = "manual"): Promise<void> {
+    while (this.rotation) {
+      await this.rotation;
+    }
+    await this.startRotation(reason);
+  }
+
+  /**
+   * Gracefully end the stream: wait for the in-flight rotation, write the lines buffered
+   * meanwhile, then flush and end SonicBoom.
+   * Returns the number of lines that were buffered when closing started.
+   */
+  close(): Promise<number> {
+    this.closing ??= this.drainAndEnd();
+    return this.closing;
+  }
+
+  /**
+   * Drain buffered lines and end the stream (see `close`).
+   */
+  private async drainAndEnd(): Promise<number> {
+    const linesFlushed = this.pendingWrites.length + this.spilledLines;
+
+    // Stop the disk guard: lines held by a pause are written below
+    if (this.lowDiskTimer) {
+      clearInterval(this.lowDiskTimer);
+      this.lowDiskTimer = null;
+    }
+    await this.emergencyRetention;
+
+    // Last retry of a failing log directory, replaying the ring buffer if it works again
+    if (this.fallback && !this.retryLogDirectory()) {
+      this.stopFallback(false);
+    }
+
+    // Wait for the in-flight rotation (and follow-up rotations): they write buffered lines
+    while (this.rotation) {
+      await this.rotation;
+    }
+
+    // A failed rotation leaves lines buffered: write them to the current file
+    for (const line of this.takePendingWrites()) {
+      this.writeLine(line);
+    }
+    this.reportPendingOverflow();
+
+    // SonicBoom defers end() until the file is open, through the (overridden) stream.end
+    if (this.streamOpening) {
+      await this.waitForOpen();
+    }
+
+    // end() flushes SonicBoom's buffer before closing the file
+    await new Promise<void>((resolve) => {
       this.sonic.once("close", resolve);
+      this.sonicEnd();
     });
+
+    return linesFlushed;
   }
 
   /**
    * Flush the stream.
    */
-  flush(): void {
-    this.sonic.flush();
+  flush(cb?: (err?: Error) => unknown): void {
+    this.sonicFlush(cb);
+  }
+
+  /**
+   * Call back once the stream has drained after a write returned false (or is closed).
+   */
+  onDrain(cb: () => void): void {
+    const done = (): void => {
+      this.sonic.off("drain", done);
+      this.sonic.off("close", done);
+      cb();
+    };
+    this.sonic.on("drain", done);
+    this.sonic.on("close", done);
+  }
+
+  /**
+   * Get the state of the active file.
+   */
+  getStats(): FileStats {
+    return {
+      path: this.options.path,
+      file: this.currentFilePath,
+      period: this.currentPeriod,
+      rotating: this.isRotating,
+      pendingWrites: this.pendingWrites.length + this.spilledLines,
+      pendingBytes: this.pendingBytes,
+      pendingWritesHighWaterMark: this.pendingWritesHighWaterMark,
+      nextCheckIntervalMs: this.nextCheckIntervalMs,
+      lowDisk: this.lowDisk,
+      fallback: this.fallback?.type ?? null,
+    };
+  }
+
+  /**
+   * Whether the SonicBoom stream is being opened (initially or on a new file).
+   * Calls to an overridden `stream.reopen()` must reach SonicBoom's own method meanwhile.
+   */
+  get opening(): boolean {
+    return this.streamOpening;
   }
 
   /**
@@ -178,12 +540,25 @@ export class FileTransport {
     return this.sonic;
   }
 
+  /**
+   * Directory of the active file: the disk guard's fallback directory while free space is low.
+   * Routes and partitions fall back to their path relative to the transport's directory.
+   */
+  private get logDir(): string {
+    const guard = this.options.diskGuard;
+    if (!this.lowDisk || !guard?.fallbackPath) {
+      return this.options.path;
+    }
+    return path.join(guard.fallbackPath, path.relative(guard.root, this.options.path));
+  }
+
   /**
    * Find an available log file path.
    * Checks main log and overflow files for space.
    */
   private findAvailableLogPath(excludeCurrentFile: boolean = false): string {
-    const mainLogPath = getLogPath(this.options.path, this.currentPeriod);
+    const logDir = this.logDir;
+    const mainLogPath = getLogPath(logDir, this.currentPeriod, this.options.fileName);
 
     // Check main log file
     const isCurrentFileMainLog = this.currentFilePath === mainLogPath;
@@ -195,17 +570,21 @@ export class FileTransport {
     }
 
     // Main log is full, look for overflow files with space
-    const overflowPattern = getOverflowPattern(this.currentPeriod, this.options.rotation.frequency);
+    const overflowPattern = getOverflowPattern(
+      this.currentPeriod,
+      this.options.rotation.frequency,
+      this.options.fileName,
+    );
 
     try {
-      const files = fs.readdirSync(this.options.path);
+      const files = fs.readdirSync(logDir);
       const overflowFiles = files
         .filter((f) => overflowPattern.test(f))
         .sort()
         .reverse();
 
       for (const overflowFile of overflowFiles) {
-        const overflowPath = path.join(this.options.path, overflowFile);
+        const overflowPath = path.join(logDir, overflowFile);
 
         if (excludeCurrentFile && overflowPath === this.currentFilePath) {
           continue;
@@ -221,19 +600,47 @@ export class FileTransport {
     }
 
     // Create new overflow file
-    return generateOverflowFilename(this.options.path);
+    return generateOverflowFilename(logDir, this.options.timezone, this.options.fileName);
+  }
+
+  /**
+   * Start a rotation and process the writes buffered meanwhile.
+   * The returned promise rejects if the rotation fails; failures are also logged.
+   */
+  private startRotation(reason: RotationReason): Promise<void> {
+    this.isRotating = true;
+
+    const rotation = this.switchFile(reason).then(() => this.processPendingWrites());
+    const tracked = rotation
+      .catch((err) => {
+        console.error(`[${DEFAULT_PACKAGE_NAME}] Rotation failed:`, err);
+        this.reportError(err);
+      })
+      .finally(() => {
+        // A follow-up rotation started by processPendingWrites keeps writes buffered
+        if (this.rotation === tracked) {
+          this.rotation = null;
+          this.isRotating = false;
+        }
+      });
+    this.rotation = tracked;
+
+    return rotation;
   }
 
   /**
    * Rotate to a new log file.
    */
-  private async rotate(reason: "period" | "size"): Promise<void> {
+  private async switchFile(reason: RotationReason): Promise<void> {
     // Acquire rotation lock
-    const gotLock = await waitForRotationLock(this.options.path);
+    const gotLock = await this.acquireRotationLock();
 
     try {
       // Update period first (needed for findAvailableLogPath)
-      this.currentPeriod = getCurrentRotationPeriod(this.options.rotation.frequency);
+      this.currentPeriod = getCurrentRotationPeriod(
+        this.options.rotation.frequency,
+        this.options.timezone,
+      );
 
       // === CRITICAL: Recheck if rotation is still needed after acquiring lock ===
       // Another worker might have rotated while we were waiting
@@ -249,12 +656,29 @@ export class FileTransport {
         }
       }
 
-      // Current file is truly full - find the best available file
-      // This might be an overflow file another worker just created
-      const newPath = this.findAvailableLogPath(reason === "size");
+      let newPath: string;
+      if (reason === "manual") {
+        // Always start a brand new file
+        newPath = generateOverflowFilename(
+          this.logDir,
+          this.options.timezone,
+          this.options.fileName,
+        );
+      } else if (reason === "disk") {
+        // Switch to the best file of the fallback directory, or back to the log directory
+        ensureDirSync(this.logDir);
+        newPath = this.findAvailableLogPath();
+      } else if (reason === "reopen" || reason === "external") {
+        // Reopen the best file, possibly the same path whose file was moved away
+        newPath = this.findAvailableLogPath();
+      } else {
+        // Current file is truly full - find the best available file
+        // This might be an overflow file another worker just created
+        newPath = this.findAvailableLogPath(reason === "size");
+      }
 
       // Check if we're already on the best file (edge case)
-      if (newPath === this.currentFilePath) {
+      if ((reason === "period" || reason === "size") && newPath === this.currentFilePath) {
         // We're already on the best file but it's full
         // This means we need a brand new file - findAvailableLogPath should handle this
         // via generateOverflowFilename, but double-check
@@ -267,14 +691,19 @@ export class FileTransport {
         }
       }
 
+      // Wait for a pending open, so buffered lines reach the file they were written for
+      if (this.streamOpening) {
+        await this.waitForOpen();
+      }
+
       // Flush current buffer before switching files
-      this.sonic.flush();
+      this.sonicFlush();
 
       // Wait for drain event indicating buffer is flushed
       await new Promise<void>((resolve) => {
         // If write returns true, buffer is not full and we can proceed
         // Otherwise wait for drain
-        const drained = this.sonic.write("");
+        const drained = this.sonicWrite("");
         if (drained) {
           resolve();
         } else {
@@ -288,9 +717,17 @@ export class FileTransport {
       fs.closeSync(fs.openSync(newPath, "a"));
 
       // Reopen SonicBoom with new path
-      this.sonic.reopen(newPath);
+      // If a write is in flight, SonicBoom defers the reopen and completes it by calling
+      // `reopen()` on itself: track it until the new file is open (see `opening`)
+      this.streamOpening = true;
+      this.sonic.once("ready", () => {
+        this.streamOpening = false;
+      });
+      this.sonicReopen(newPath);
+      this.updateCurrentLink(newPath);
 
       // Update tracking
+      const oldPath = this.currentFilePath;
       this.currentFilePath = newPath;
       this.bytesWritten = getFileSizeSync(newPath);
 
@@ -300,15 +737,92 @@ export class FileTransport {
       this.lastDiskCheckTime = Date.now();
       // Note: intentionally NOT resetting nextCheckIntervalMs - carry over learned throughput
 
-      // Log rotation event if enabled
-      if (this.options.rotation.logging) {
+      this.counters.rotations[reason]++;
+      this.emit("rotate", { oldPath, newPath, reason });
+
+      // Log rotation event if enabled (external changes are always logged)
+      if (this.options.rotation.logging || reason === "external") {
         this.logRotationEvent(newPath, reason);
       }
     } finally {
       if (gotLock) {
-        releaseRotationLock(this.options.path);
+        releaseRotationLock(this.options.path, this.options.fileName);
+      }
+    }
+  }
+
+  /**
+   * Acquire the rotation lock, waiting for another process's rotation (up to 1s by default).
+   * On timeout, logs it and rotates without the lock ("best-effort"), or keeps waiting while
+   * the lock is held ("strict"): writes stay buffered, and a lock whose owner died is taken
+   * over right away. Returns whether the lock was acquired.
+   */
+  private async acquireRotationLock(): Promise<boolean> {
+    const { path: logDir, fileName, rotation, locks } = this.options;
+    if (await waitForRotationLock(logDir, fileName, locks.rotation)) {
+      return true;
+    }
+
+    const owner = getRotationLockOwner(logDir, fileName);
+    const holder = owner
+      ? ` (held by pid ${owner.pid} on ${owner.hostname} since ${owner.acquiredAt})`
+      : "";
+    const strict = rotation.lockMode === "strict";
+    logError(
+      logDir,
+      "rotation",
+      new Error(
+        `Timed out waiting for the rotation lock${holder}: ` +
+          (strict ? "keeping lines buffered until it is released" : "rotating without the lock"),
+      ),
+      this.options.meta.error,
+    );
+    this.emit("lock:timeout", { path: logDir, owner, mode: rotation.lockMode });
+
+    if (strict) {
+      while (!(await waitForRotationLock(logDir, fileName, locks.rotation))) {
+        // The lock cannot be created (e.g., the log directory is unavailable)
+        if (!isRotationLockHeld(logDir, fileName)) return false;
       }
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Check whether the active file was moved or deleted by another tool,
+   * by comparing the device and inode of the open fd with the file at the path.
+   */
+  private isFileReplaced(): boolean {
+    // Nothing to compare while the stream is being (re)opened
+    const { fd } = this.sonic as SonicBoom & { fd: number };
+    if (this.streamOpening || fd < 0) {
+      return false;
     }
+
+    try {
+      const open = fs.fstatSync(fd);
+      const onDisk = fs.statSync(this.currentFilePath);
+      return open.dev !== onDisk.dev || open.ino !== onDisk.ino;
+    } catch (err) {
+      // The file was deleted (fstat errors are not a replacement)
+      return (err as NodeJS.ErrnoException).code === "ENOENT";
+    }
+  }
+
+  /**
+   * Wait until the SonicBoom stream is open (or failed to open).
+   */
+  private waitForOpen(): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        this.sonic.off("ready", done);
+        this.sonic.off("error", done);
+        resolve();
+      };
+      this.sonic.once("ready", done);
+      this.sonic.once("error", done);
+    });
   }
 
   /**
@@ -316,30 +830,266 @@ export class FileTransport {
    * Checks size limits and triggers additional rotations if needed.
    */
   private processPendingWrites(): void {
-    // Move pending writes to local array and clear immediately
+    // Lines held by the disk guard's pause are written once free space is back
+    if (this.lowDisk && this.options.diskGuard?.action === "pause") {
+      return;
+    }
+
+    // Move pending writes (and spilled lines) to local array and clear immediately
     // This ensures any new writes during processing go to a fresh pendingWrites array
-    const pending = this.pendingWrites;
-    this.pendingWrites = [];
+    const pending = this.takePendingWrites();
 
-    for (const line of pending) {
-      const lineBytes = Buffer.byteLength(line, "utf8");
+    for (let i = 0; i < pending.length; i++) {
+      const lineBytes = Buffer.byteLength(pending[i], "utf8");
 
       // Check if this write would exceed size limit
       if (this.maxSizeBytes > 0 && this.bytesWritten + lineBytes >= this.maxSizeBytes) {
         // Need another rotation - prepend remaining lines to any new writes that arrived
-        this.pendingWrites = [...pending.slice(pending.indexOf(line)), ...this.pendingWrites];
-
-        this.rotate("size")
-          .then(() => this.processPendingWrites())
-          .catch((err) => console.error(`[${DEFAULT_PACKAGE_NAME}] Rotation failed:`, err));
+        // (the buffer limit applies to new lines only)
+        const remaining = pending.slice(i);
+        this.pendingWrites = [...remaining, ...this.pendingWrites];
+        for (const line of remaining) {
+          this.pendingBytes += Buffer.byteLength(line, "utf8");
+        }
 
+        void this.startRotation("size");
         return;
       }
 
       // Write to current file
-      this.bytesWritten += lineBytes;
-      this.sonicWrite(line);
+      this.writeLine(pending[i], lineBytes);
+    }
+
+    this.reportPendingOverflow();
+  }
+
+  /**
+   * Atomically point the current link (if enabled) at the active log file.
+   * Failures are logged but never interrupt writing.
+   */
+  private updateCurrentLink(filePath: string = this.currentFilePath): void {
+    // The link is not updated while writing to the fallback directory
+    const { currentLink } = this.options.rotation;
+    if (!currentLink || path.resolve(path.dirname(filePath)) !== path.resolve(this.options.path)) {
+      return;
+    }
+
+    try {
+      updateCurrentLinkSync(this.options.path, currentLink, path.basename(filePath));
+    } catch (err) {
+      this.reportError(err);
+    }
+  }
+
+  /**
+   * Check free space of the log volume against the disk guard threshold:
+   * enter or leave the low disk state when it is crossed, and run emergency retention
+   * while it is low.
+   */
+  private checkDiskSpace(): void {
+    const guard = this.options.diskGuard;
+    if (!guard || this.closing) return;
+
+    const free = getFreeSpace(this.options.path);
+    if (free === null) return;
+
+    if (free < guard.minFreeSpace) {
+      if (!this.lowDisk) {
+        this.enterLowDisk(guard, free);
+      }
+      if (guard.action === "retention") {
+        this.runEmergencyRetention();
+      }
+    } else if (this.lowDisk) {
+      this.leaveLowDisk(guard, free);
+    }
+  }
+
+  /**
+   * Enter the low disk state and apply the disk guard action.
+   */
+  private enterLowDisk(guard: ResolvedDiskGuardConfig, free: number): void {
+    const { minFreeSpace, action } = guard;
+    this.lowDisk = true;
+    this.lowDiskDropped = 0;
+
+    this.reportDiskState(
+      `Free space (${free} bytes) is below diskGuard.minFreeSpace (${minFreeSpace} bytes), action: ${action}`,
+    );
+    this.emit("disk:low", { path: this.options.path, free, threshold: minFreeSpace, action });
+
+    // Recheck on a timer: writes may be paused, so the write path may not check again
+    this.lowDiskTimer = setInterval(
+      () => this.checkDiskSpace(),
+      DEFAULT_DISK_GUARD.CHECK_INTERVAL_MS,
+    );
+    this.lowDiskTimer.unref();
+
+    if (action === "fallback") {
+      this.switchDirectory();
+    }
+  }
+
+  /**
+   * Leave the low disk state: switch back from the fallback directory or resume paused writes.
+   */
+  private leaveLowDisk(guard: ResolvedDiskGuardConfig, free: number): void {
+    const { minFreeSpace, action } = guard;
+    this.lowDisk = false;
+    if (this.lowDiskTimer) {
+      clearInterval(this.lowDiskTimer);
+      this.lowDiskTimer = null;
+    }
+
+    const dropped = this.lowDiskDropped;
+    this.reportDiskState(
+      `Free space (${free} bytes) is back above diskGuard.minFreeSpace (${minFreeSpace} bytes)` +
+        (dropped > 0 ? `, ${dropped} lines dropped` : ""),
+    );
+    this.emit("disk:recovered", {
+      path: this.options.path,
+      free,
+      threshold: minFreeSpace,
+      action,
+      dropped,
+    });
+
+    if (action === "fallback") {
+      this.switchDirectory();
+    } else if (action === "pause") {
+      // A rotation in progress writes the held lines when it completes
+      if (!this.isRotating) {
+        this.processPendingWrites();
+      }
+      this.sonic.emit("drain");
+    }
+  }
+
+  /**
+   * Switch to or back from the fallback directory (see `logDir`), after any in-flight rotation.
+   */
+  private switchDirectory(): void {
+    const switchFile = async () => {
+      while (this.rotation) {
+        await this.rotation;
+      }
+      await this.startRotation("disk");
+    };
+    // Failures are reported by startRotation
+    switchFile().catch(() => {});
+  }
+
+  /**
+   * Delete the oldest files until free space is back above the threshold ("retention" action).
+   * Runs at most once per check interval.
+   */
+  private runEmergencyRetention(): void {
+    const now = Date.now();
+    if (
+      this.emergencyRetention ||
+      now - this.lastEmergencyRetention < DEFAULT_DISK_GUARD.CHECK_INTERVAL_MS
+    ) {
+      return;
+    }
+    this.lastEmergencyRetention = now;
+
+    this.emergencyRetention = freeDiskSpace(
+      this.options,
+      this.fileSet,
+      this.currentFilePath,
+      this.emit,
+    )
+      .then(() => this.checkDiskSpace())
+      .catch((err) => this.reportError(err, "retention"))
+      .finally(() => {
+        this.emergencyRetention = null;
+      });
+  }
+
+  /**
+   * Count a write error, switching to the fallback destination when they persist.
+   */
+  private handleWriteError(err: Error): void {
+    const config = this.options.fallback;
+    if (!config || this.fallback || this.closing) return;
+
+    this.writeErrors++;
+    if (this.writeErrors < config.errorThreshold) return;
+
+    this.fallback = new FallbackDestination(this.options, config, this.counters);
+    logError(this.options.path, "fallback", err, this.options.meta.error);
+    this.emit("fallback:start", { path: this.options.path, type: config.type, error: err });
+
+    this.fallbackTimer = setInterval(() => this.retryLogDirectory(), config.retryInterval);
+    this.fallbackTimer.unref();
+  }
+
+  /**
+   * Retry the log directory while writing to the fallback destination, switching back if the
+   * active file can be opened. Returns whether it switched back.
+   */
+  private retryLogDirectory(): boolean {
+    try {
+      ensureDirSync(this.options.path);
+      fs.closeSync(fs.openSync(this.currentFilePath, "a"));
+    } catch {
+      return false;
+    }
+    this.stopFallback(true);
+    return true;
+  }
+
+  /**
+   * Stop writing to the fallback destination. When switching back to the log directory,
+   * reopen the active file and replay the ring buffer: SonicBoom writes the lines it kept from
+   * the failed writes first, so lines stay in order.
+   */
+  private stopFallback(switchBack: boolean): void {
+    const fallback = this.fallback;
+    if (!fallback) return;
+
+    if (this.fallbackTimer) {
+      clearInterval(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+    this.fallback = null;
+    this.writeErrors = 0;
+    const lines = fallback.close();
+    if (!switchBack) {
+      // The log directory still fails on close: lines of the ring buffer are lost
+      this.counters.linesDroppedFallback += lines.length;
+      return;
+    }
+
+    this.streamOpening = true;
+    this.sonic.once("ready", () => {
+      this.streamOpening = false;
+    });
+    this.sonicReopen(this.currentFilePath);
+    for (const line of lines) {
+      this.writeLine(line);
     }
+
+    this.emit("fallback:end", {
+      path: this.options.path,
+      type: fallback.type,
+      replayed: lines.length,
+    });
+  }
+
+  /**
+   * Record a disk guard threshold crossing in `.meta/error`.
+   */
+  private reportDiskState(message: string): void {
+    logError(this.options.path, "disk", new Error(message), this.options.meta.error);
+  }
+
+  /**
+   * Log an error to `.meta/error` and emit it on the stream.
+   */
+  private reportError(err: unknown, source: ErrorContext["source"] = "rotation"): void {
+    logError(this.options.path, source, err, this.options.meta.error);
+    this.emit("transport:error", toError(err), { source, path: this.options.path });
   }
 
   /**
@@ -0,0 +1,123 @@
+import type SonicBoom from "sonic-boom";
+import type { EmitEvent, FileStats, ResolvedRoute, ResolvedTransportOptions } from "../types";
+import { LineSplitter, parseLevel, routeMatches } from "../utils/routing";
+import type { StreamCounters } from "../utils/stats";
+import {
+  createFileSetTransport,
+  DrainTracker,
+  type FileSetTransport,
+  flushTransports,
+} from "./partition-router";
+
+/** A level route with its file transport */
+type RouteTarget = {
+  route: ResolvedRoute;
+  transport: FileSetTransport;
+};
+
+/**
+ * Routes log lines to one file transport per level route.
+ * Lines are serialized once by pino; only the `level` field is parsed.
+ */
+export class LevelRouter {
+  private levels: Record<string, number>;
+  private counters: StreamCounters;
+  private targets: RouteTarget[];
+  private lines = new LineSplitter();
+  private drain = new DrainTracker(() => this.stream);
+
+  constructor(options: ResolvedTransportOptions, emit: EmitEvent, counters: StreamCounters) {
+    this.levels = options.levels;
+    this.counters = counters;
+    this.targets = options.routes.map((route) => ({
+      route,
+      transport: createFileSetTransport(route.options, emit, counters),
+    }));
+  }
+
+  /**
+   * Write log lines, each to the first route matching its level.
+   * Lines matching no route are dropped (counted in `linesUnrouted`).
+   * Returns false while a route's stream is blocked: `drain` is emitted on the router's
+   * stream once every route has drained.
+   */
+  write(data: string): boolean {
+    for (const line of this.lines.split(data)) {
+      this.route(line);
+    }
+    return this.drain.ready;
+  }
+
+  /**
+   * Write a log line to the first route matching its level.
+   */
+  private route(line: string): void {
+    const level = parseLevel(line, this.levels);
+
+    for (const { route, transport } of this.targets) {
+      if (routeMatches(route, level)) {
+        this.drain.track(transport, transport.write(line));
+        return;
+      }
+    }
+    this.counters.linesUnrouted++;
+  }
+
+  /**
+   * Rotate or reopen every route's files.
+   */
+  async rotate(reason: "manual" | "reopen" = "manual"): Promise<void> {
+    await Promise.all(this.targets.map(({ transport }) => transport.rotate(reason)));
+  }
+
+  /**
+   * Flush every route's stream.
+   * The callback is called once all streams are flushed, with the first error if any.
+   */
+  flush(cb?: (err?: Error) => unknown): void {
+    flushTransports(
+      this.targets.map(({ transport }) => transport),
+      cb,
+    );
+  }
+
+  /**
+   * Gracefully end every route's stream.
+   * Returns the number of buffered lines written.
+   */
+  async close(): Promise<number> {
+    // A last line written without its newline
+    const rest = this.lines.takeRest();
+    if (rest !== undefined) {
+      this.route(rest);
+    }
+
+    // The router's stream (the first route's) is closed last: pino ends the transport
+    // once it is closed
+    const [first, ...others] = this.targets.map(({ transport }) => transport);
+    const counts = await Promise.all(others.map((transport) => transport.close()));
+    counts.push(await first.close());
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Get the state of every route's open files, in route order.
+   */
+  getStats(): FileStats[] {
+    return this.targets.flatMap(({ transport }) => transport.getStats());
+  }
+
+  /**
+   * Whether the first route's stream is being opened.
+   */
+  get opening(): boolean {
+    return this.targets[0].transport.opening;
+  }
+
+  /**
+   * Get the SonicBoom instance of the first route.
+   */
+  get stream(): SonicBoom {
+    return this.targets[0].transport.stream;
+  }
+}
@@ -0,0 +1,333 @@
+import type SonicBoom from "sonic-boom";
+import type {
+  EmitEvent,
+  FileStats,
+  ResolvedPartitionConfig,
+  ResolvedTransportOptions,
+} from "../types";
+import {
+  createFieldParser,
+  getPartitionOptions,
+  LineSplitter,
+  sanitizePartitionName,
+} from "../utils/routing";
+import type { StreamCounters } from "../utils/stats";
+import { FileTransport } from "./file-transport";
+
+/** A transport writing one file set: a single directory or a partitioned one */
+export type FileSetTransport = FileTransport | PartitionRouter;
+
+/**
+ * Create the transport of a file set, partitioned if configured.
+ */
+export function createFileSetTransport(
+  options: ResolvedTransportOptions,
+  emit: EmitEvent,
+  counters: StreamCounters,
+): FileSetTransport {
+  return options.partition
+    ? new PartitionRouter(options, emit, counters)
+    : new FileTransport(options, emit, counters);
+}
+
+/**
+ * Flush several transports.
+ * The callback is called once all transports are flushed, with the first error if any.
+ */
+export function flushTransports(
+  transports: Iterable<FileSetTransport>,
+  cb?: (err?: Error) => unknown,
+): void {
+  const list = [...transports];
+
+  if (!cb) {
+    for (const transport of list) {
+      transport.flush();
+    }
+    return;
+  }
+
+  let remaining = list.length;
+  let firstError: Error | undefined;
+
+  for (const transport of list) {
+    transport.flush((err) => {
+      firstError ??= err;
+      remaining--;
+      if (remaining === 0) {
+        cb(firstError);
+      }
+    });
+  }
+}
+
+/**
+ * Backpressure of a router over its transports: writes return false while a transport
+ * is blocked, and `drain` is emitted on the router's stream once every blocked transport
+ * has drained (the stream pino waits on is only one of the transports' streams).
+ */
+export class DrainTracker {
+  private getStream: () => SonicBoom;
+  private blocked = new Set<FileSetTransport>();
+  private waiters: (() => void)[] = [];
+
+  constructor(getStream: () => SonicBoom) {
+    this.getStream = getStream;
+  }
+
+  /**
+   * Whether more lines may be written (no transport is blocked).
+   */
+  get ready(): boolean {
+    return this.blocked.size === 0;
+  }
+
+  /**
+   * Record the result of a write to a transport.
+   */
+  track(transport: FileSetTransport, ready: boolean): void {
+    if (ready || this.blocked.has(transport)) return;
+
+    this.blocked.add(transport);
+    transport.onDrain(() => {
+      this.blocked.delete(transport);
+      if (this.blocked.size === 0) {
+        this.release();
+      }
+    });
+  }
+
+  /**
+   * Call back once no transport is blocked.
+   */
+  onDrain(cb: () => void): void {
+    if (this.blocked.size === 0) {
+      process.nextTick(cb);
+    } else {
+      this.waiters.push(cb);
+    }
+  }
+
+  /**
+   * Emit `drain` on the router's stream and call the waiters back.
+   */
+  private release(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    this.getStream().emit("drain");
+    for (const cb of waiters) {
+      cb();
+    }
+  }
+}
+
+/**
+ * Routes log lines to one file transport per value of a JSON field.
+ * Each partition is a sub-directory of the log directory with its own files.
+ * At most `maxOpen` partition streams (besides the default one) are kept open;
+ * the least recently used is closed first.
+ */
+export class PartitionRouter {
+  private options: ResolvedTransportOptions;
+  private emit: EmitEvent;
+  private counters: StreamCounters;
+  private partition: ResolvedPartitionConfig;
+  private parseField: (line: string) => string | undefined;
+  private defaultTransport: FileTransport;
+
+  // Open partition transports, least recently used first
+  private open = new Map<string, FileTransport>();
+  // Partitions closed beyond `maxOpen` whose stream is still ending, with the lines written
+  // to them meanwhile: the partition is reopened once its previous stream is closed, so a file
+  // is never written by two streams
+  private evicted = new Map<string, { closed: Promise<void>; lines: string[] }>();
+  private closing: boolean = false;
+  private lines = new LineSplitter();
+  private drain = new DrainTracker(() => this.stream);
+  private lastName: string | undefined;
+  private lastTransport: FileTransport | undefined;
+
+  constructor(options: ResolvedTransportOptions, emit: EmitEvent, counters: StreamCounters) {
+    this.options = options;
+    this.emit = emit;
+    this.counters = counters;
+    this.partition = options.partition as ResolvedPartitionConfig;
+    this.parseField = createFieldParser(this.partition.field);
+    this.defaultTransport = new FileTransport(
+      getPartitionOptions(options, this.partition.default),
+      emit,
+      counters,
+      options,
+    );
+  }
+
+  /**
+   * Write log lines, each to the partition of its field value.
+   * Lines without the field go to the default partition.
+   * Returns false while a partition's stream is blocked: `drain` is emitted on the router's
+   * stream once every partition has drained.
+   */
+  write(data: string): boolean {
+    for (const line of this.lines.split(data)) {
+      this.route(line);
+    }
+    return this.drain.ready;
+  }
+
+  /**
+   * Write a log line to the partition of its field value.
+   */
+  private route(line: string): void {
+    const value = this.parseField(line);
+    const name = value === undefined ? "" : sanitizePartitionName(value);
+
+    if (name === "" || name === this.partition.default) {
+      this.writeTo(this.defaultTransport, line);
+      return;
+    }
+
+    // Fast path: consecutive lines of the same partition
+    if (name === this.lastName && this.lastTransport) {
+      this.writeTo(this.lastTransport, line);
+      return;
+    }
+
+    const evicted = this.evicted.get(name);
+    if (evicted) {
+      evicted.lines.push(line);
+      return;
+    }
+
+    this.writeTo(this.getTransport(name), line);
+  }
+
+  /**
+   * Write a line to a partition's transport, tracking its backpressure.
+   */
+  private writeTo(transport: FileTransport, line: string): void {
+    this.drain.track(transport, transport.write(line));
+  }
+
+  /**
+   * Get the transport of a partition, opening it if needed.
+   * Marks the partition as most recently used and closes the least recently used
+   * partitions beyond `maxOpen`.
+   */
+  private getTransport(name: string): FileTransport {
+    let transport = this.open.get(name);
+
+    if (transport) {
+      this.open.delete(name);
+    } else {
+      transport = new FileTransport(
+        getPartitionOptions(this.options, name),
+        this.emit,
+        this.counters,
+        this.options,
+      );
+    }
+    this.open.set(name, transport);
+
+    // The default partition is never closed and does not count towards the limit
+    while (this.open.size > this.partition.maxOpen) {
+      const [oldestName, oldest] = this.open.entries().next().value as [string, FileTransport];
+      this.open.delete(oldestName);
+      this.evict(oldestName, oldest);
+    }
+
+    this.lastName = name;
+    this.lastTransport = transport;
+    return transport;
+  }
+
+  /**
+   * Close the stream of a partition beyond `maxOpen`. Lines written to the partition until
+   * the stream is closed are held, then written to the reopened partition.
+   */
+  private evict(name: string, transport: FileTransport): void {
+    const entry = { closed: Promise.resolve(), lines: [] as string[] };
+    const reopen = (): void => {
+      this.evicted.delete(name);
+      if (entry.lines.length === 0 || this.closing) return;
+
+      const reopened = this.getTransport(name);
+      for (const line of entry.lines) {
+        this.writeTo(reopened, line);
+      }
+    };
+    entry.closed = transport.close().then(reopen, reopen);
+    this.evicted.set(name, entry);
+  }
+
+  /**
+   * Call back once every partition's stream has drained (or is closed).
+   */
+  onDrain(cb: () => void): void {
+    this.drain.onDrain(cb);
+  }
+
+  /**
+   * Rotate or reopen every open partition's file.
+   */
+  async rotate(reason: "manual" | "reopen" = "manual"): Promise<void> {
+    const transports = [this.defaultTransport, ...this.open.values()];
+    await Promise.all(transports.map((transport) => transport.rotate(reason)));
+  }
+
+  /**
+   * Flush every open partition's stream.
+   */
+  flush(cb?: (err?: Error) => unknown): void {
+    flushTransports([this.defaultTransport, ...this.open.values()], cb);
+  }
+
+  /**
+   * Gracefully end every open partition's stream.
+   * Returns the number of buffered lines written.
+   */
+  async close(): Promise<number> {
+    // A last line written without its newline
+    const rest = this.lines.takeRest();
+    if (rest !== undefined) {
+      this.route(rest);
+    }
+
+    // Lines held for evicted partitions are written to their reopened stream first
+    while (this.evicted.size > 0) {
+      await Promise.all([...this.evicted.values()].map((entry) => entry.closed));
+    }
+    this.closing = true;
+
+    const transports = [...this.open.values()];
+    this.open.clear();
+    this.lastName = undefined;
+    this.lastTransport = undefined;
+
+    // The router's stream (the default partition's) is closed last: pino ends the transport
+    // once it is closed
+    const counts = await Promise.all(transports.map((transport) => transport.close()));
+    counts.push(await this.defaultTransport.close());
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Get the state of every open partition's file, the default partition first.
+   */
+  getStats(): FileStats[] {
+    return [this.defaultTransport, ...this.open.values()].map((transport) => transport.getStats());
+  }
+
+  /**
+   * Whether the default partition's stream is being opened.
+   */
+  get opening(): boolean {
+    return this.defaultTransport.opening;
+  }
+
+  /**
+   * Get the SonicBoom instance of the default partition.
+   */
+  get stream(): SonicBoom {
+    return this.defaultTransport.stream;
+  }
+}
@@ -1,3 +1,4 @@
+import type SonicBoom from "sonic-boom";
 import type { SonicBoomOpts } from "sonic-boom";
 
 /** Rotation frequency options */
@@ -9,6 +10,70 @@ export type RotationFrequency = "hourly" | "daily";
  */
 export type SonicBoomOptions = Omit<SonicBoomOpts, "dest" | "fd" | "mkdir" | "append">;
 
+/**
+ * Why the active log file changed.
+ * - "period": the rotation period ended
+ * - "size": the file reached `rotation.maxSize`
+ * - "manual": `stream.rotate()` was called
+ * - "reopen": `stream.reopen()` was called or the reopen signal was received
+ * - "external": the file was moved or deleted by another tool
+ * - "disk": the disk guard switched to or back from its fallback directory
+ */
+export type RotationReason = "period" | "size" | "manual" | "reopen" | "external" | "disk";
+
+/** Signals that can trigger a reopen of the active log file */
+export type ReopenSignal = "SIGHUP" | "SIGUSR1" | "SIGUSR2";
+
+/**
+ * Stream returned by the transport: a SonicBoom instance with file control methods
+ * and typed lifecycle events (see `TransportEvents`).
+ */
+export interface TransportStream extends SonicBoom {
+  on<E extends keyof TransportEvents>(
+    event: E,
+    listener: (...args: TransportEvents[E]) => void,
+  ): this;
+  on(event: string | symbol, listener: (...args: never[]) => void): this;
+  once<E extends keyof TransportEvents>(
+    event: E,
+    listener: (...args: TransportEvents[E]) => void,
+  ): this;
+  once(event: string | symbol, listener: (...args: never[]) => void): this;
+  off<E extends keyof TransportEvents>(
+    event: E,
+    listener: (...args: TransportEvents[E]) => void,
+  ): this;
+  off(event: string | symbol, listener: (...args: never[]) => void): this;
+  /**
+   * Switch every file set to a new file, with the rotation lock held.
+   * Resolves once buffered lines are written to the new files.
+   */
+  rotate(): Promise<void>;
+  /**
+   * Reopen the active file of every file set, with the rotation lock held.
+   * Use after an external tool (e.g., logrotate) moved or deleted the files.
+   */
+  reopen(): Promise<void>;
+  /**
+   * Gracefully shut down: stop the schedulers, wait for the in-flight rotation, write
+   * buffered lines, flush and end every stream, and wait for running workers
+   * (terminating them and releasing their locks at the deadline).
+   */
+  close(options?: CloseOptions): Promise<CloseReport>;
+  /**
+   * Start `close()` without waiting for its report, like `Writable.end()`: an optional last
+   * chunk is written first, and the callback is called once the stream is closed.
+   */
+  end(cb?: (err?: Error) => void): this;
+  end(chunk: string | Buffer, cb?: (err?: Error) => void): this;
+  end(chunk: string | Buffer, encoding?: BufferEncoding, cb?: (err?: Error) => void): this;
+  /**
+   * Get runtime statistics: write counters since start, rotations, buffered lines,
+   * the state of every open file and the last archive/retention outcomes.
+   */
+  getStats(): TransportStats;
+}
+
 /** Archive frequency options */
 export type ArchiveFrequency = "hourly" | "daily" | "weekly" | "monthly";
 
@@ -18,16 +83,47 @@ export type DurationUnit = "h" | "d" | "w" | "m" | "y";
 /** Duration format (e.g., "7d", "3m", "1y") */
 export type DurationFormat = `${number}${DurationUnit}`;
 
+/** Size units (binary: 1KB = 1024 bytes) */
+export type SizeUnit = "B" | "KB" | "MB" | "GB" | "TB";
+
+/** Size format (e.g., "500MB", "20GB") */
+export type SizeFormat = `${number}${SizeUnit}`;
+
 /** Parsed duration value */
 export type ParsedDuration = {
   value: number;
   unit: DurationUnit;
 };
 
+/**
+ * Timezone used for period computations.
+ * - "utc": Coordinated Universal Time
+ * - "local": The host's local timezone
+ * - Any IANA timezone name (e.g., "Europe/Paris", "America/New_York")
+ */
+export type Timezone = "utc" | "local" | (string & {});
+
+/** Wall-clock date/time fields in a given timezone (month is 1-based) */
+export type ZonedDateParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+};
+
 // ============================================================================
 // Transport Options (Public API)
 // ============================================================================
 
+/** What happens to lines written during a rotation once the buffer is full */
+export type PendingOverflowPolicy = "block" | "drop-oldest" | "drop-newest" | "spill";
+
+/** What a rotation does when the rotation lock cannot be acquired in time */
+export type RotationLockMode = "best-effort" | "strict";
+
 /**
  * Rotation configuration options.
  */
@@ -47,9 +143,127 @@ export type RotationConfig = {
   frequency?: RotationFrequency;
   /**
    * Whether to log rotation events to `.meta/rotation.log`.
+   * Files moved or deleted by another tool are always logged (reason "external").
    * @default false
    */
   logging?: boolean;
+  /**
+   * Maintain a link to the active log file, updated atomically on every rotation.
+   * - `true`: a `current.log` symlink in the log directory
+   * - string: a custom link name (e.g., "api-current.ndjson")
+   * Falls back to a pointer file containing the active file name where symlinks are not supported.
+   * @default false
+   */
+  currentLink?: boolean | string;
+  /**
+   * Maximum size in bytes of the lines buffered during a rotation (e.g., while waiting for
+   * the rotation lock or a slow disk).
+   * @default undefined (no limit)
+   */
+  maxPendingBytes?: number;
+  /**
+   * What happens to lines written once the rotation buffer reaches `maxPendingBytes`:
+   * - "block": buffer them, but `write()` returns false so the caller applies backpressure
+   *   (`drain` is emitted once the buffer is written)
+   * - "drop-oldest": drop the oldest buffered lines
+   * - "drop-newest": drop the new lines
+   * - "spill": write them to a temporary spill file, replayed after the rotation
+   * Dropped line counts are logged to `.meta/error`.
+   * @default "block"
+   */
+  pendingOverflow?: PendingOverflowPolicy;
+  /**
+   * What a rotation does when another process holds the rotation lock for more than 1s:
+   * - "best-effort": rotate without the lock
+   * - "strict": keep the lines buffered and keep waiting until the lock is released
+   *   (or stale), so two processes never rotate at once
+   * Lock timeouts are logged to `.meta/error` either way.
+   * @default "best-effort"
+   */
+  lockMode?: RotationLockMode;
+};
+
+/** Archive compression formats */
+export type ArchiveCompression = "gzip" | "brotli" | "none";
+
+/**
+ * Archive consolidation policy: merges old fine-grained archives into coarser ones.
+ * Durations are measured from the end of the merged day or month.
+ */
+export type ConsolidationConfig = {
+  /**
+   * Merge hourly archives into one archive per day once the day is older than this duration.
+   * Requires `frequency: "hourly"`.
+   * @example "7d"
+   */
+  daily?: DurationFormat;
+  /**
+   * Merge hourly and daily archives into one archive per month once the month is older
+   * than this duration. Requires `frequency: "hourly"` or `"daily"`.
+   * @example "60d"
+   */
+  monthly?: DurationFormat;
+};
+
+/** Copies archives to another directory (e.g., a mounted NAS path) */
+export type FileSystemSinkConfig = {
+  type: "fs";
+  /** Destination directory */
+  path: string;
+};
+
+/**
+ * Uploads archives to an S3-compatible bucket (AWS S3, MinIO, ...).
+ * Credentials default to the `AWS_ACCESS_KEY_ID`, `AWS_SECRET_ACCESS_KEY`
+ * and `AWS_SESSION_TOKEN` environment variables.
+ */
+export type S3SinkConfig = {
+  type: "s3";
+  bucket: string;
+  /** @default "us-east-1" */
+  region?: string;
+  /**
+   * Endpoint URL of an S3-compatible service (e.g., "http://localhost:9000").
+   * @default AWS S3 endpoint of the region
+   */
+  endpoint?: string;
+  /** Prefix of the object keys (e.g., "logs/api/") */
+  prefix?: string;
+  /**
+   * Address the bucket in the path instead of the host name.
+   * @default true with a custom endpoint, false otherwise
+   */
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+  /**
+   * Timeout in milliseconds of a stalled request (no data sent or received).
+   * The request fails and is retried.
+   * @default 30000
+   */
+  timeout?: number;
+};
+
+/**
+ * Archive sink configuration: where finished archives are copied or uploaded.
+ */
+export type ArchiveSinkConfig = (FileSystemSinkConfig | S3SinkConfig) & {
+  /**
+   * Number of retries of a failed copy or upload (the delay doubles after each retry).
+   * @default 3
+   */
+  retries?: number;
+  /**
+   * Delay in milliseconds before the first retry.
+   * @default 1000
+   */
+  retryDelay?: number;
+  /**
+   * Whether to delete the local archive once its copy is verified.
+   * @default false
+   */
+  deleteLocal?: boolean;
 };
 
 /**
@@ -66,6 +280,17 @@ export type ArchiveConfig = {
    * @default "archives"
    */
   path?: string;
+  /**
+   * Archive filename template, without extension. Placeholders:
+   * - `{period}`: the archived period (`YYYY-MM-DD~HH`, `YYYY-MM-DD` or `YYYY-MM`), required
+   *
+   * The extension of the compression format (and a `-N` suffix if the name is taken)
+   * is appended automatically.
+   *
+   * @example "api-{period}"
+   * @default "{period}-archive"
+   */
+  fileName?: string;
   /**
    * Archive frequency.
    * - "hourly": Archives hourly log files
@@ -75,6 +300,36 @@ export type ArchiveConfig = {
    * @default "monthly"
    */
   frequency?: ArchiveFrequency;
+  /**
+   * Archive compression format.
+   * - "gzip": `.tar.gz`
+   * - "brotli": `.tar.br`, smaller archives at a higher CPU cost
+   * - "none": `.tar`
+   *
+   * Archives of every format are recognized by retention, so the format can be changed
+   * without orphaning existing archives.
+   * @default "gzip"
+   */
+  compression?: ArchiveCompression;
+  /**
+   * Compression level: 0-9 for gzip, 0-11 for brotli (zlib's default if unset).
+   * Ignored without compression.
+   */
+  level?: number;
+  /**
+   * Consolidation of old archives into daily and monthly archives.
+   * Runs daily at `executionHour` in its own worker, and on creation if `runOnCreation`.
+   * @example { daily: "7d", monthly: "60d" }
+   * @default undefined (no consolidation)
+   */
+  consolidation?: ConsolidationConfig;
+  /**
+   * Copy or upload every archive to another location once it is written.
+   * Archives whose copy failed are retried on the next archive run.
+   * @example { type: "s3", bucket: "logs", endpoint: "http://localhost:9000", deleteLocal: true }
+   * @default undefined (archives are only kept locally)
+   */
+  sink?: ArchiveSinkConfig;
   /**
    * Whether to run archiving immediately on transport creation.
    * @default true
@@ -94,12 +349,15 @@ export type ArchiveConfig = {
   logging?: boolean;
 };
 
+/** What retention does with expired files */
+export type RetentionMode = "delete" | "trash";
+
 /**
- * Retention configuration options.
+ * Retention policy of the raw log files or of the archives.
  */
-export type RetentionConfig = {
+export type RetentionPolicy = {
   /**
-   * Retention duration. Deletes logs and archives older than this duration.
+   * Retention duration. Deletes files older than this duration.
    * Format: <number><unit> where unit is:
    * - "h" (hours)
    * - "d" (days)
@@ -108,9 +366,21 @@ export type RetentionConfig = {
    * - "y" (years)
    *
    * Examples: "12h", "7d", "2w", "3m", "1y"
-   * @default undefined (no retention - logs kept indefinitely)
+   * @default undefined (no retention - files kept indefinitely)
    */
   duration?: DurationFormat;
+  /**
+   * Maximum number of files to keep. The oldest are deleted first.
+   * The log file being written is never deleted.
+   * @default undefined (no limit)
+   */
+  maxFiles?: number;
+  /**
+   * Maximum total size of the files (e.g., "20GB").
+   * The oldest files are deleted first. The log file being written is never deleted.
+   * @default undefined (no limit)
+   */
+  maxTotalSize?: SizeFormat;
   /**
    * Hour of the day (0-23) to run the retention cleanup job.
    * Only applies to daily, weekly, monthly, and yearly retention units.
@@ -118,6 +388,30 @@ export type RetentionConfig = {
    * @default 1
    */
   executionHour?: number;
+};
+
+/**
+ * Retention configuration options.
+ * The top-level policy applies to both the raw log files and the archives;
+ * `logs` and `archives` override it field by field.
+ */
+export type RetentionConfig = RetentionPolicy & {
+  /** Retention policy of the raw log files */
+  logs?: RetentionPolicy;
+  /** Retention policy of the archives */
+  archives?: RetentionPolicy;
+  /**
+   * What retention does with expired files:
+   * - "delete": delete them immediately
+   * - "trash": move them to the `.trash/` directory, purged after `gracePeriod`
+   * @default "delete"
+   */
+  mode?: RetentionMode;
+  /**
+   * How long trashed files are kept before being purged (trash mode).
+   * @default "7d"
+   */
+  gracePeriod?: DurationFormat;
   /**
    * Whether to log retention events.
    * @default false
@@ -125,6 +419,131 @@ export type RetentionConfig = {
   logging?: boolean;
 };
 
+/** What the disk guard does while free space is below its threshold */
+export type DiskGuardAction = "retention" | "drop" | "fallback" | "pause";
+
+/**
+ * Low disk space guard options.
+ * Free space of the log volume is checked along with the active file's size.
+ */
+export type DiskGuardConfig = {
+  /** Free space threshold of the log volume (e.g., "1GB") */
+  minFreeSpace: SizeFormat;
+  /**
+   * What to do while free space is below the threshold:
+   * - "retention": delete the oldest trashed files, logs and archives until free space is back
+   *   above the threshold (held files and the active file are kept)
+   * - "drop": drop lines below `minLevel`
+   * - "fallback": write to `fallbackPath` until free space is back
+   * - "pause": buffer lines and apply backpressure (`write()` returns false) until free space
+   *   is back, then emit `drain`
+   */
+  action: DiskGuardAction;
+  /**
+   * Lowest level still written with the "drop" action (name or number).
+   * @default "warn"
+   */
+  minLevel?: string | number;
+  /**
+   * Fallback log directory of the "fallback" action, on another volume.
+   * Routes and partitions write to their sub-directory of it.
+   */
+  fallbackPath?: string;
+};
+
+/** Where lines go while the log directory fails */
+export type FallbackType = "directory" | "stderr" | "buffer";
+
+/**
+ * Fallback destination options, used while writes to the log directory keep failing
+ * (e.g., EACCES, EROFS or ENOSPC on a mis-mounted volume).
+ */
+export type FallbackConfig = (
+  | {
+      /** Write to another directory (routes and partitions use their sub-directory of it) */
+      type: "directory";
+      path: string;
+    }
+  | {
+      /** Write to the process's stderr */
+      type: "stderr";
+    }
+  | {
+      /** Keep the latest lines in memory and replay them once the log directory works again */
+      type: "buffer";
+      /**
+       * Ring buffer size: the oldest lines are dropped beyond it.
+       * @default 10000
+       */
+      maxLines?: number;
+    }
+) & {
+  /**
+   * Consecutive write errors before switching to the fallback.
+   * @default 3
+   */
+  errorThreshold?: number;
+  /**
+   * Interval in milliseconds between retries of the log directory.
+   * @default 5000
+   */
+  retryInterval?: number;
+};
+
+/**
+ * Lock timing options, in milliseconds.
+ * Longer timeouts avoid false stale detections on slow network filesystems; every process
+ * sharing a log directory should use the same values.
+ */
+export type LocksConfig = {
+  /** Rotation lock (held while a process switches log files) */
+  rotation?: {
+    /**
+     * Age after which a rotation lock is considered stale (its process crashed or hung).
+     * @default 10000
+     */
+    staleTimeout?: number;
+    /**
+     * Interval between attempts to acquire the rotation lock.
+     * @default 20
+     */
+    retryInterval?: number;
+    /**
+     * Attempts before a rotation times out (see `rotation.lockMode`).
+     * @default 50
+     */
+    maxRetries?: number;
+  };
+  /** Worker locks (held while an archive, retention or meta worker runs) and their retries */
+  worker?: {
+    /**
+     * Heartbeat age after which a worker lock is considered stale.
+     * @default 20000
+     */
+    staleTimeout?: number;
+    /**
+     * Interval between heartbeats of a running worker. Must be less than `staleTimeout`.
+     * @default 5000
+     */
+    heartbeatInterval?: number;
+    /**
+     * Interval between checks of a worker's lock for staleness, to retry a crashed worker.
+     * @default 10000
+     */
+    checkInterval?: number;
+    /**
+     * Attempts of a worker that crashes or hangs before giving up until the next scheduled run.
+     * @default 3
+     */
+    maxAttempts?: number;
+    /**
+     * Delay before retrying a crashed or hung worker (doubled after each attempt).
+     * @default 1000
+     */
+    retryDelay?: number;
+  };
+};
+
 /**
  * Meta logs configuration options.
  * Controls internal logging for rotation, archive, retention events and errors.
@@ -157,6 +576,69 @@ export type MetaConfig = {
   logging?: boolean;
 };
 
+/**
+ * Field-based partitioning options.
+ * Each distinct value of a JSON field gets its own sub-directory and file stream.
+ */
+export type PartitionConfig = {
+  /**
+   * Top-level JSON field whose value selects the partition (e.g., "tenantId", "service").
+   * The value is sanitized into a directory name (characters other than
+   * letters, digits, ".", "_" and "-" are replaced by "_").
+   */
+  field: string;
+  /**
+   * Maximum number of open partition streams (the default partition is not counted).
+   * When exceeded, the least recently used stream is closed; it is reopened on its next line.
+   * @default 100
+   */
+  maxOpen?: number;
+  /**
+   * Partition (sub-directory) for lines without the field.
+   * @default "default"
+   */
+  default?: string;
+};
+
+/**
+ * Level route configuration.
+ * Lines whose pino `level` falls within [minLevel, maxLevel] are written to the route's sub-directory,
+ * with its own rotation, archive and retention settings (unset settings are inherited).
+ */
+export type RouteConfig = {
+  /**
+   * Sub-directory for this route's files (relative to the log path).
+   */
+  path: string;
+  /**
+   * Minimum level (inclusive), as a number or a level name (e.g., "error").
+   * @default no minimum
+   */
+  minLevel?: number | string;
+  /**
+   * Maximum level (inclusive), as a number or a level name (e.g., "warn").
+   * @default no maximum
+   */
+  maxLevel?: number | string;
+  /**
+   * Log filename template for this route.
+   * @default inherited from the transport options
+   */
+  fileName?: string;
+  /**
+   * Rotation configuration for this route, merged over the transport's rotation options.
+   */
+  rotation?: RotationConfig;
+  /**
+   * Archive configuration for this route, merged over the transport's archive options.
+   */
+  archive?: ArchiveConfig;
+  /**
+   * Retention configuration for this route, merged over the transport's retention options.
+   */
+  retention?: RetentionConfig;
+};
+
 /**
  * Transport options for pino-file-transport.
  *
@@ -182,6 +664,26 @@ export type TransportOptions = {
    * Log directory path (required).
    */
   path: string;
+  /**
+   * Timezone used for every period computation: log file names, overflow names,
+   * archive and retention boundaries, and the scheduled jobs' cron times.
+   * Accepts "utc", "local" or an IANA timezone name (e.g., "Europe/Paris").
+   * @default "local"
+   */
+  timezone?: Timezone;
+  /**
+   * Log filename template. Placeholders:
+   * - `{date}`: the date (`YYYY-MM-DD`), required
+   * - `{hour?}`: `~HH` for hourly rotation, empty for daily rotation,
+   *   `~HH-mm-ss~ms` for overflow files, required
+   *
+   * Archive and retention workers only touch files matching this template,
+   * so several services can share one log directory.
+   *
+   * @example "api-{date}{hour?}.ndjson"
+   * @default "{date}{hour?}.log"
+   */
+  fileName?: string;
   /**
    * Rotation configuration.
    * @default { maxSize: 100, frequency: "daily", logging: false }
@@ -219,6 +721,69 @@ export type TransportOptions = {
    * Note: `dest`, `fd`, `mkdir`, and `append` are managed by the transport.
    */
   sonicBoom?: SonicBoomOptions;
+  /**
+   * Level-based routing. Each line is written to the first route matching its `level`.
+   * Lines matching no route are dropped. All routes share one set of schedulers and workers.
+   *
+   * @example
+   * ```ts
+   * routes: [
+   *   { path: "error", minLevel: "error", retention: { duration: "1y" } },
+   *   { path: "app" },
+   * ]
+   * ```
+   * @default undefined (all lines are written to `path`)
+   */
+  routes?: RouteConfig[];
+  /**
+   * Level names used to resolve string levels, for routes and for lines logged with
+   * `formatters.level` returning labels. Merged over pino's default levels
+   * (trace: 10, debug: 20, info: 30, warn: 40, error: 50, fatal: 60).
+   *
+   * @example { audit: 35 }
+   */
+  levels?: Record<string, number>;
+  /**
+   * Field-based partitioning. Lines are written to `<path>/<field value>/` with the full
+   * rotation, archive and retention behavior in every partition.
+   * With `routes`, every route is partitioned within its own directory.
+   *
+   * @example { field: "tenantId", maxOpen: 50 }
+   * @default undefined (no partitioning)
+   */
+  partition?: PartitionConfig;
+  /**
+   * Reopen the active log files when the process receives this signal,
+   * e.g. to work alongside logrotate's `postrotate` script (`kill -HUP <pid>`).
+   * Signals are only delivered to the main thread: use the transport as a direct stream.
+   *
+   * @default undefined (no signal handling)
+   */
+  reopenOnSignal?: ReopenSignal;
+  /**
+   * Low disk space guard: what to do when free space of the log volume runs low.
+   * Crossing the threshold (both ways) is logged to `.meta/error` and emitted as
+   * `disk:low` and `disk:recovered` events.
+   *
+   * @example { minFreeSpace: "1GB", action: "drop", minLevel: "error" }
+   * @default undefined (no free space check)
+   */
+  diskGuard?: DiskGuardConfig;
+  /**
+   * Fallback destination used while writes to the log directory keep failing.
+   * The log directory is retried periodically; switching is logged to `.meta/error` and
+   * emitted as `fallback:start` and `fallback:end` events.
+   *
+   * @example { type: "buffer", maxLines: 5000 }
+   * @default undefined (write errors are only printed to the console)
+   */
+  fallback?: FallbackConfig;
+  /**
+   * Timings of the rotation and worker locks coordinating processes.
+   *
+   * @example { worker: { staleTimeout: 60000, heartbeatInterval: 15000 } }
+   */
+  locks?: LocksConfig;
 };
 
 // ============================================================================
@@ -230,25 +795,105 @@ export type ResolvedRotationConfig = {
   maxSize: number;
   frequency: RotationFrequency;
   logging: boolean;
+  /** Link name, undefined when disabled */
+  currentLink: string | undefined;
+  maxPendingBytes: number | undefined;
+  pendingOverflow: PendingOverflowPolicy;
+  lockMode: RotationLockMode;
 };
 
 /** Archive config with all defaults applied */
 export type ResolvedArchiveConfig = {
   enabled: boolean;
   path: string;
+  fileName: string;
   frequency: ArchiveFrequency;
+  compression: ArchiveCompression;
+  level: number | undefined;
+  /** Consolidation policy, undefined when disabled */
+  consolidation: ConsolidationConfig | undefined;
+  /** Sink config, undefined when archives are only kept locally */
+  sink: ResolvedArchiveSinkConfig | undefined;
   runOnCreation: boolean;
   executionHour: number;
   logging: boolean;
 };
 
-/** Retention config with all defaults applied */
-export type ResolvedRetentionConfig = {
+/** Archive sink config with all defaults applied */
+export type ResolvedArchiveSinkConfig = (FileSystemSinkConfig | S3SinkConfig) & {
+  retries: number;
+  retryDelay: number;
+  deleteLocal: boolean;
+  /** Transport log directory: archives are stored under their path relative to it */
+  root: string;
+};
+
+/**
+ * Destination of the archives, created from the sink config in the archive worker.
+ */
+export type ArchiveSink = {
+  /**
+   * Copy an archive file to the key (a relative path using "/") and verify the copy.
+   * Resolves with the destination (path or URL).
+   * @throws Error if the copy failed or does not match the file
+   */
+  put: (file: string, key: string, sha256: string) => Promise<string>;
+};
+
+/** Retention policy with all defaults applied */
+export type ResolvedRetentionPolicy = {
   duration?: DurationFormat;
+  maxFiles: number | undefined;
+  /** Maximum total size in bytes */
+  maxTotalSize: number | undefined;
   executionHour: number;
+};
+
+/** Retention config with all defaults applied */
+export type ResolvedRetentionConfig = {
+  logs: ResolvedRetentionPolicy;
+  archives: ResolvedRetentionPolicy;
+  mode: RetentionMode;
+  gracePeriod: DurationFormat;
   logging: boolean;
 };
 
+/** Disk guard config with all defaults applied */
+export type ResolvedDiskGuardConfig = {
+  /** Free space threshold in bytes */
+  minFreeSpace: number;
+  action: DiskGuardAction;
+  minLevel: number;
+  /** Absolute fallback directory, undefined unless the action is "fallback" */
+  fallbackPath: string | undefined;
+  /** Transport log directory: file sets fall back to their path relative to it */
+  root: string;
+};
+
+/** Fallback config with all defaults applied */
+export type ResolvedFallbackConfig = {
+  type: FallbackType;
+  /** Absolute fallback directory, undefined unless the type is "directory" */
+  path: string | undefined;
+  maxLines: number;
+  errorThreshold: number;
+  retryInterval: number;
+  /** Transport log directory: file sets fall back to their path relative to it */
+  root: string;
+};
+
+/** Lock timings with all defaults applied */
+export type ResolvedLocksConfig = {
+  rotation: { staleTimeout: number; retryInterval: number; maxRetries: number };
+  worker: {
+    staleTimeout: number;
+    heartbeatInterval: number;
+    checkInterval: number;
+    maxAttempts: number;
+    retryDelay: number;
+  };
+};
+
 /** Meta config with all defaults applied */
 export type ResolvedMetaConfig = {
   retention: number;
@@ -257,27 +902,430 @@ export type ResolvedMetaConfig = {
   logging: boolean;
 };
 
+/** Partition config with all defaults applied */
+export type ResolvedPartitionConfig = {
+  field: string;
+  maxOpen: number;
+  default: string;
+};
+
+/** Level route with all defaults applied */
+export type ResolvedRoute = {
+  minLevel: number;
+  maxLevel: number;
+  /** Options of the route's file set (path is the route's sub-directory) */
+  options: ResolvedTransportOptions;
+};
+
 /**
  * Transport options with all defaults applied.
  * Used internally after validation.
  */
 export type ResolvedTransportOptions = {
   path: string;
+  timezone: Timezone;
+  fileName: string;
   rotation: ResolvedRotationConfig;
   archive: ResolvedArchiveConfig;
   retention: ResolvedRetentionConfig;
   meta: ResolvedMetaConfig;
   sonicBoom?: SonicBoomOptions;
+  routes: ResolvedRoute[];
+  levels: Record<string, number>;
+  partition?: ResolvedPartitionConfig;
+  reopenOnSignal: ReopenSignal | undefined;
+  /** Disk guard config, undefined when disabled */
+  diskGuard: ResolvedDiskGuardConfig | undefined;
+  /** Fallback config, undefined when disabled */
+  fallback: ResolvedFallbackConfig | undefined;
+  locks: ResolvedLocksConfig;
+};
+
+// ============================================================================
+// Event Types
+// ============================================================================
+
+/** Emitted when a file set switches to another file */
+export type RotateEvent = {
+  /** Previous file path */
+  oldPath: string;
+  /** New file path */
+  newPath: string;
+  reason: RotationReason;
+};
+
+/** Emitted when a period starts being archived */
+export type ArchiveStartEvent = {
+  /** Log directory of the file set */
+  path: string;
+  period: string;
+  /** Log file names being archived */
+  files: string[];
+  /** Archive file name */
+  archive: string;
+};
+
+/** Emitted when a period was archived and its log files deleted */
+export type ArchiveCompleteEvent = ArchiveStartEvent & {
+  /** Size of the archive file */
+  bytes: number;
+};
+
+/** Emitted when archiving a period failed (its log files are kept) */
+export type ArchiveErrorEvent = ArchiveStartEvent & {
+  error: Error;
+};
+
+/** Emitted when archives were merged into a daily or monthly archive */
+export type ArchiveConsolidateEvent = {
+  /** Log directory of the file set */
+  path: string;
+  /** Period of the new archive (`YYYY-MM-DD` or `YYYY-MM`) */
+  period: string;
+  /** Merged archive file names (deleted) */
+  sources: string[];
+  /** New archive file name */
+  archive: string;
+  /** Size of the new archive file */
+  bytes: number;
+};
+
+/** Emitted when an archive was copied to the sink and the copy verified */
+export type ArchiveUploadEvent = {
+  /** Log directory of the file set */
+  path: string;
+  /** Archive file name */
+  archive: string;
+  /** Where the archive went (path or `s3://` URL) */
+  destination: string;
+  /** Whether the local archive was deleted */
+  deletedLocal: boolean;
+};
+
+/** Retention policy that deleted a file ("space": the disk guard's emergency retention) */
+export type RetentionReason = "age" | "count" | "size" | "space";
+
+/** Emitted for every file deleted by retention */
+export type RetentionDeleteEvent = {
+  /** Log directory of the file set */
+  path: string;
+  /** Deleted file name (relative to the log or archive directory) */
+  file: string;
+  type: "log" | "archive";
+  /** Policy that deleted the file: `duration`, `maxFiles`, `maxTotalSize` or the disk guard */
+  reason: RetentionReason;
+  /** Whether the file was moved to the trash instead of deleted */
+  trashed: boolean;
+};
+
+/** Emitted for every trashed file purged after the grace period */
+export type RetentionPurgeEvent = {
+  /** Log directory of the file set */
+  path: string;
+  /** Purged file name (relative to the trash directory) */
+  file: string;
+  type: "log" | "archive";
+};
+
+/** Emitted when the retention worker finished a file set */
+export type RetentionCompleteEvent = {
+  /** Log directory of the file set */
+  path: string;
+  deletedLogs: number;
+  deletedArchives: number;
+  /** Trashed files purged after the grace period */
+  purged: number;
+};
+
+/** Emitted when a worker lock is stale (the worker crashed or hung) and is retried */
+export type LockStaleEvent = {
+  /** Log directory of the file set */
+  path: string;
+  worker: WorkerType;
+  /** Process that held the lock */
+  pid: number;
+  /** Last heartbeat of the lock */
+  heartbeat: string;
+};
+
+/** Emitted when the rotation lock could not be acquired in time */
+export type LockTimeoutEvent = {
+  /** Log directory of the file set */
+  path: string;
+  /** Owner of the lock, null if unknown */
+  owner: RotationLockOwner | null;
+  /** "best-effort": the rotation runs without the lock, "strict": it keeps waiting */
+  mode: RotationLockMode;
+};
+
+/** Emitted when free space of a log volume falls below the disk guard threshold */
+export type DiskLowEvent = {
+  /** Log directory of the file set */
+  path: string;
+  /** Free space in bytes */
+  free: number;
+  /** Threshold in bytes */
+  threshold: number;
+  action: DiskGuardAction;
+};
+
+/** Emitted when free space of a log volume is back above the disk guard threshold */
+export type DiskRecoveredEvent = DiskLowEvent & {
+  /** Lines dropped while free space was low ("drop" action) */
+  dropped: number;
+};
+
+/** Emitted when a file set switches to its fallback destination after persistent write errors */
+export type FallbackStartEvent = {
+  /** Log directory of the file set */
+  path: string;
+  type: FallbackType;
+  /** Last write error */
+  error: Error;
+};
+
+/** Emitted when a file set switches back to its log directory */
+export type FallbackEndEvent = {
+  /** Log directory of the file set */
+  path: string;
+  type: FallbackType;
+  /** Lines replayed from the ring buffer ("buffer" type) */
+  replayed: number;
+};
+
+/** Where a `transport:error` event comes from */
+export type ErrorContext = {
+  source: "rotation" | WorkerType;
+  /** Log directory of the file set */
+  path: string;
+};
+
+/** Events emitted by the transport stream, with their listener arguments */
+export type TransportEvents = {
+  rotate: [event: RotateEvent];
+  "archive:start": [event: ArchiveStartEvent];
+  "archive:complete": [event: ArchiveCompleteEvent];
+  "archive:error": [event: ArchiveErrorEvent];
+  "archive:consolidate": [event: ArchiveConsolidateEvent];
+  "archive:upload": [event: ArchiveUploadEvent];
+  "retention:delete": [event: RetentionDeleteEvent];
+  "retention:purge": [event: RetentionPurgeEvent];
+  "retention:complete": [event: RetentionCompleteEvent];
+  "lock:stale": [event: LockStaleEvent];
+  "lock:timeout": [event: LockTimeoutEvent];
+  "disk:low": [event: DiskLowEvent];
+  "disk:recovered": [event: DiskRecoveredEvent];
+  "fallback:start": [event: FallbackStartEvent];
+  "fallback:end": [event: FallbackEndEvent];
+  "transport:error": [error: Error, context: ErrorContext];
+};
+
+/** Emit a transport event on the stream */
+export type EmitEvent = <E extends keyof TransportEvents>(
+  event: E,
+  ...args: TransportEvents[E]
+) => void;
+
+// ============================================================================
+// Archive Manifest Types
+// ============================================================================
+
+/** A log file bundled in an archive */
+export type ArchivedFile = {
+  name: string;
+  /** Size in bytes */
+  bytes: number;
+  lines: number;
+};
+
+/** Manifest record of an archive */
+export type ArchiveRecord = {
+  /** Archive file name (in the archive directory) */
+  archive: string;
+  period: string;
+  compression: ArchiveCompression;
+  files: ArchivedFile[];
+  /** Total size of the log files */
+  bytes: number;
+  /** Size of the archive file */
+  compressedBytes: number;
+  /** Total line count of the log files */
+  lines: number;
+  /** Earliest `time` value of the log lines (ISO 8601), null if no line has a time */
+  firstTime: string | null;
+  /** Latest `time` value of the log lines (ISO 8601), null if no line has a time */
+  lastTime: string | null;
+  /** SHA-256 of the archive file (hex) */
+  sha256: string;
+  /** When the archive was created (ISO 8601) */
+  createdAt: string;
+  /** When retention, consolidation or the sink (`deleteLocal`) deleted the archive (ISO 8601) */
+  deletedAt?: string;
+  /** Where the sink copied the archive (path or `s3://` URL) */
+  destination?: string;
+  /** Archive this archive was merged into by consolidation */
+  consolidatedInto?: string;
+};
+
+/** Content of the archive manifest (`<archive dir>/index.json`) */
+export type ArchiveManifest = {
+  version: 1;
+  archives: ArchiveRecord[];
+  /**
+   * Periods under legal hold (e.g., "2025", "2025-01", "2025-01-15", "2025-01-15~10").
+   * Logs and archives overlapping them are never deleted or purged by retention.
+   */
+  holds?: string[];
+};
+
+// ============================================================================
+// Stats Types
+// ============================================================================
+
+/** State of an open log file (one per file set, route or open partition) */
+export type FileStats = {
+  /** Log directory */
+  path: string;
+  /** Active log file path */
+  file: string;
+  /** Rotation period of the active file (e.g., "2025-01-15" or "2025-01-15~14") */
+  period: string;
+  /** Whether a rotation is in progress (writes are buffered meanwhile) */
+  rotating: boolean;
+  /** Lines buffered during the current rotation */
+  pendingWrites: number;
+  /** Size in bytes of the lines buffered during the current rotation (spilled lines excluded) */
+  pendingBytes: number;
+  /** Highest number of lines buffered during a rotation */
+  pendingWritesHighWaterMark: number;
+  /** Current adaptive interval between disk size checks */
+  nextCheckIntervalMs: number;
+  /** Whether free space is below the disk guard threshold */
+  lowDisk: boolean;
+  /** Fallback destination in use, null while writing to the log directory */
+  fallback: FallbackType | null;
+};
+
+/** Outcome of the last archive run of a file set */
+export type ArchiveOutcome = {
+  status: "complete" | "error";
+  /** When the outcome was reported (ISO 8601) */
+  time: string;
+  /** Log directory of the file set */
+  path: string;
+  /** Archived period (absent if the worker failed before archiving a period) */
+  period?: string;
+  /** Archive file name */
+  archive?: string;
+  /** Size of the archive file */
+  bytes?: number;
+  /** Error message */
+  error?: string;
+};
+
+/** Outcome of the last retention run of a file set */
+export type RetentionOutcome = {
+  status: "complete" | "error";
+  /** When the outcome was reported (ISO 8601) */
+  time: string;
+  /** Log directory of the file set */
+  path: string;
+  deletedLogs?: number;
+  deletedArchives?: number;
+  /** Error message */
+  error?: string;
+};
+
+/** Runtime statistics returned by `stream.getStats()` */
+export type TransportStats = {
+  /** Bytes written since the transport started */
+  bytesWritten: number;
+  /** Lines written since the transport started */
+  linesWritten: number;
+  /** Lines dropped by SonicBoom because its buffer reached `maxLength` */
+  linesDropped: number;
+  /** Lines dropped by the disk guard ("drop" action) */
+  linesDroppedLowDisk: number;
+  /** Lines dropped by the fallback ring buffer when full */
+  linesDroppedFallback: number;
+  /** Lines dropped because the rotation buffer reached `rotation.maxPendingBytes` */
+  linesDroppedPending: number;
+  /** Lines dropped because no level route matched their level */
+  linesUnrouted: number;
+  /** Rotations since the transport started, by reason */
+  rotations: Record<RotationReason, number>;
+  /** Lines currently buffered during rotations */
+  pendingWrites: number;
+  /** Highest number of lines buffered during a rotation of a file */
+  pendingWritesHighWaterMark: number;
+  /** Open log files */
+  files: FileStats[];
+  lastArchive: ArchiveOutcome | null;
+  lastRetention: RetentionOutcome | null;
+};
+
+// ============================================================================
+// Shutdown Types
+// ============================================================================
+
+/** Background worker types */
+export type WorkerType = "archive" | "consolidation" | "retention" | "meta";
+
+/** Options of `stream.close()` */
+export type CloseOptions = {
+  /**
+   * Maximum time in milliseconds to wait for the in-flight rotation, the stream flush
+   * and running workers. Workers still running at the deadline are terminated.
+   * @default 5000
+   */
+  timeout?: number;
+};
+
+/** A background worker terminated by `stream.close()` */
+export type InterruptedWorker = {
+  type: WorkerType;
+  /** Log directories of the file sets the worker was processing (their locks were released) */
+  paths: string[];
+};
+
+/** Outcome of `stream.close()` */
+export type CloseReport = {
+  /** Lines buffered during a rotation when close started, written before the stream ended */
+  linesFlushed: number;
+  /** Workers terminated at the deadline */
+  interruptedWorkers: InterruptedWorker[];
+  /** Whether the deadline was reached before everything completed */
+  timedOut: boolean;
 };
 
 // ============================================================================
 // Lock Types
 // ============================================================================
 
+/** Owner file of the rotation lock (and of the other directory locks) */
+export type RotationLockOwner = {
+  /** Process ID of the owner */
+  pid: number;
+  /** Host of the owner process (its PID is only checked on the same host) */
+  hostname: string;
+  /** When the lock was acquired */
+  acquiredAt: string;
+};
+
+/** Work passed to a worker thread: a file set and the token of its worker lock */
+export type WorkerJob = {
+  options: ResolvedTransportOptions;
+  lockToken: string;
+};
+
 /** Worker lock file content */
 export type WorkerLockData = {
   /** Process ID of the worker */
   pid: number;
+  /** Host of the worker process (its PID is only checked on the same host) */
+  hostname?: string;
+  /** Unique ID of this acquisition, used to confirm ownership */
+  token?: string;
   /** When the work started */
   startedAt: string;
   /** Last heartbeat timestamp */
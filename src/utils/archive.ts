@@ -0,0 +1,135 @@
+import path from "node:path";
+import { type BrotliOptions, constants as zlib } from "node:zlib";
+import { t as listTar, c as tar } from "tar";
+import { ARCHIVE_COMPRESSIONS } from "../config";
+import type { ArchiveCompression, ResolvedArchiveConfig } from "../types";
+import { fileExists } from "./file";
+import { getArchiveFilename } from "./parsing";
+
+/** Options of tar's create function */
+export type TarOptions = Parameters<typeof tar>[0];
+
+/** Size and modification time of a file when it was added to an archive */
+export type FileSnapshot = {
+  size: number;
+  mtimeMs: number;
+};
+
+/**
+ * Check whether an archive of the period with the given counter exists in any format.
+ */
+async function isArchiveNameTaken(
+  archivePath: string,
+  period: string,
+  template: string,
+  counter: number,
+): Promise<boolean> {
+  for (const compression of ARCHIVE_COMPRESSIONS) {
+    const fileName = getArchiveFilename(period, template, counter, compression);
+    if (await fileExists(path.join(archivePath, fileName))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Get an archive filename of the period that is not taken in any compression format.
+ */
+export async function getUniqueArchiveFilename(
+  archivePath: string,
+  period: string,
+  archive: ResolvedArchiveConfig,
+): Promise<string> {
+  let counter = 0;
+  while (await isArchiveNameTaken(archivePath, period, archive.fileName, counter)) {
+    counter++;
+  }
+  return getArchiveFilename(period, archive.fileName, counter, archive.compression);
+}
+
+/**
+ * Get the tar compression options of the configured format and level.
+ */
+export function getCompressionOptions(archive: ResolvedArchiveConfig): TarOptions {
+  switch (archive.compression) {
+    case "gzip":
+      return { gzip: archive.level === undefined ? true : { level: archive.level } };
+    case "brotli": {
+      if (archive.level === undefined) {
+        return { brotli: true };
+      }
+      // tar hands the options to zlib's BrotliCompress, where the level is the quality param
+      const brotli: BrotliOptions = { params: { [zlib.BROTLI_PARAM_QUALITY]: archive.level } };
+      return { brotli: brotli as TarOptions["brotli"] };
+    }
+    case "none":
+      return {};
+  }
+}
+
+/**
+ * Create an archive of files (relative to `dir`) with the configured compression.
+ * Returns the snapshot of each file as it was added: bytes appended later are not archived.
+ */
+export async function createArchive(
+  archiveFile: string,
+  dir: string,
+  files: string[],
+  archive: ResolvedArchiveConfig,
+): Promise<Map<string, FileSnapshot>> {
+  const snapshots = new Map<string, FileSnapshot>();
+  await tar(
+    {
+      ...getCompressionOptions(archive),
+      file: archiveFile,
+      cwd: dir,
+      onWriteEntry: (entry) => {
+        if (entry.stat) {
+          snapshots.set(entry.path, { size: entry.stat.size, mtimeMs: entry.stat.mtimeMs });
+        }
+      },
+    },
+    files,
+  );
+  return snapshots;
+}
+
+/**
+ * Verify an archive by reading it entirely: every entry must be readable and the entries
+ * must match the file snapshots taken when the archive was created, by name and byte size.
+ * @throws Error if the archive is truncated or corrupted, or an entry does not match
+ */
+export async function verifyArchive(
+  archiveFile: string,
+  snapshots: Map<string, FileSnapshot>,
+  compression: ArchiveCompression,
+): Promise<void> {
+  const entries = new Map<string, number>();
+  await listTar({
+    file: archiveFile,
+    // Brotli has no magic bytes: it is only detected from the extension
+    brotli: compression === "brotli",
+    strict: true,
+    onReadEntry: (entry) => {
+      entries.set(entry.path, entry.size);
+    },
+  });
+
+  if (entries.size !== snapshots.size) {
+    throw new Error(
+      `Archive verification failed: ${entries.size} entries for ${snapshots.size} log files`,
+    );
+  }
+
+  for (const [file, { size }] of snapshots) {
+    const entrySize = entries.get(file);
+    if (entrySize !== size) {
+      throw new Error(
+        entrySize === undefined
+          ? `Archive verification failed: ${file} is missing`
+          : `Archive verification failed: ${file} has ${entrySize} bytes, expected ${size}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import fs from "node:fs";
+import fsPromises from "node:fs/promises";
+import path from "node:path";
+import { TRASH_DIR } from "../config";
+import { releaseWorkerLock, startHeartbeat, tryAcquireWorkerLock } from "../locks/worker";
+import type { EmitEvent, ResolvedTransportOptions } from "../types";
+import { toError } from "./events";
+import { fileExists } from "./file";
+import { isHeld, readLegalHolds } from "./hold";
+import { readManifest, updateManifest } from "./manifest";
+import { logError, logRetention } from "./meta-log";
+import { listArchiveFiles, listLogFiles, parseTrashBatch, type RetentionFile } from "./retention";
+
+/**
+ * Get the free space of the volume holding a directory, in bytes (available to this user).
+ * Returns null if it cannot be read (e.g., the directory does not exist).
+ */
+export function getFreeSpace(dir: string): number | null {
+  try {
+    const { bavail, bsize } = fs.statfsSync(dir);
+    return bavail * bsize;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Emergency retention of the disk guard: delete files until free space of the log volume is back
+ * above `diskGuard.minFreeSpace`, oldest first within each step:
+ * 1. trashed files
+ * 2. archives
+ * 3. log files that already have an archive
+ * 4. as a last resort, log files not archived yet (each one is recorded in the retention meta log)
+ * Held files, the newest log file and `activeFile` are kept.
+ * Runs under the retention worker lock of the file set (`fileSet`, the partitioned file set for
+ * a partition): does nothing while a retention worker runs.
+ * Returns the number of deleted files.
+ * @throws Error if a legal hold is invalid (nothing is deleted)
+ */
+export async function freeDiskSpace(
+  options: ResolvedTransportOptions,
+  fileSet: ResolvedTransportOptions,
+  activeFile: string,
+  emit: EmitEvent,
+): Promise<number> {
+  const { path: logDir, archive, retention, diskGuard } = options;
+  if (!diskGuard) {
+    return 0;
+  }
+  const lock = await tryAcquireWorkerLock(
+    fileSet.path,
+    "retention",
+    fileSet.fileName,
+    options.locks.worker.staleTimeout,
+  );
+  if (!lock) {
+    return 0;
+  }
+
+  // Stop deleting if the lock is lost (taken over by a retention worker)
+  let lost = false;
+  const heartbeatInterval = startHeartbeat(
+    fileSet.path,
+    "retention",
+    fileSet.fileName,
+    lock.token,
+    options.locks.worker.heartbeatInterval,
+    () => {
+      lost = true;
+    },
+  );
+
+  try {
+    const archivePath = path.join(logDir, archive.path);
+    const trashPath = path.join(logDir, TRASH_DIR);
+    const holds = await readLegalHolds(logDir, archivePath);
+
+    // Trashed files go first, oldest batch first
+    const trashed: { entry: RetentionFile; dir: string; type: "log" | "archive" }[] = [];
+    const batches = (await fileExists(trashPath)) ? await fsPromises.readdir(trashPath) : [];
+    for (const batch of batches.filter((name) => parseTrashBatch(name)).sort()) {
+      const batchDir = path.join(trashPath, batch);
+      const archiveDir = path.join(batchDir, archive.path);
+      for (const entry of await listLogFiles(options, batchDir)) {
+        trashed.push({ entry, dir: batchDir, type: "log" });
+      }
+      for (const entry of await listArchiveFiles(options, archiveDir)) {
+        trashed.push({ entry, dir: archiveDir, type: "archive" });
+      }
+    }
+
+    // Then archives, oldest first
+    const archives = (await listArchiveFiles(options, archivePath)).map((entry) => ({
+      entry,
+      dir: archivePath,
+      type: "archive" as const,
+    }));
+
+    // Then log files, oldest first, those with an archive first: the newest log file may be
+    // written by another process
+    const archivedLogs = await getArchivedLogNames(archivePath);
+    const logs = (await listLogFiles(options, logDir))
+      .slice(0, -1)
+      .filter((entry) => path.join(logDir, entry.file) !== activeFile)
+      .map((entry) => ({ entry, dir: logDir, type: "log" as const }));
+    const files = [
+      ...archives,
+      ...logs.filter(({ entry }) => archivedLogs.has(entry.file)),
+      ...logs.filter(({ entry }) => !archivedLogs.has(entry.file)),
+    ];
+
+    let deleted = 0;
+    const deletedArchives: string[] = [];
+
+    for (const { entry, dir, type } of [...trashed, ...files]) {
+      const free = getFreeSpace(logDir);
+      if (lost || free === null || free >= diskGuard.minFreeSpace) break;
+      if (isHeld(holds, entry.range)) continue;
+
+      const isTrashed = dir.startsWith(trashPath + path.sep);
+      const file = isTrashed ? path.relative(trashPath, path.join(dir, entry.file)) : entry.file;
+      try {
+        await fsPromises.unlink(path.join(dir, entry.file));
+      } catch (err) {
+        logRetention(logDir, `Failed to delete ${type} file ${file}: ${err}`);
+        logError(logDir, "retention", err, options.meta.error);
+        emit("transport:error", toError(err), { source: "retention", path: logDir });
+        continue;
+      }
+
+      deleted++;
+      if (isTrashed) {
+        emit("retention:purge", { path: logDir, file, type });
+      } else {
+        if (type === "archive") deletedArchives.push(entry.file);
+        emit("retention:delete", { path: logDir, file, type, reason: "space", trashed: false });
+      }
+      if (type === "log" && !isTrashed && !archivedLogs.has(entry.file)) {
+        // Lines lost before being archived: always recorded
+        logRetention(logDir, `Deleted unarchived log file: ${file} (space)`);
+      } else if (retention.logging) {
+        logRetention(logDir, `Deleted ${type} file: ${file} (space)`);
+      }
+    }
+
+    // Remove the emptied trash batches
+    for (const batch of batches) {
+      for (const dir of [path.join(trashPath, batch, archive.path), path.join(trashPath, batch)]) {
+        await fsPromises.rmdir(dir).catch(() => {});
+      }
+    }
+
+    // Keep the records of deleted archives in the manifest, for auditing
+    if (deletedArchives.length > 0) {
+      const deletedAt = new Date().toISOString();
+      await updateManifest(logDir, archivePath, (manifest) => {
+        for (const record of manifest.archives) {
+          if (!record.deletedAt && deletedArchives.includes(record.archive)) {
+            record.deletedAt = deletedAt;
+          }
+        }
+      });
+    }
+
+    return deleted;
+  } finally {
+    clearInterval(heartbeatInterval);
+    await releaseWorkerLock(fileSet.path, "retention", fileSet.fileName, lock.token);
+  }
+}
+
+/**
+ * Get the names of the log files contained in the archives of an archive directory
+ * (archives deleted since are ignored). Empty if the manifest cannot be read.
+ */
+async function getArchivedLogNames(archivePath: string): Promise<Set<string>> {
+  const names = new Set<string>();
+  try {
+    for (const record of (await readManifest(archivePath)).archives) {
+      if (record.deletedAt) continue;
+      for (const file of record.files) {
+        names.add(file.name);
+      }
+    }
+  } catch {
+    // Without a manifest, every log file counts as unarchived
+  }
+  return names;
+}
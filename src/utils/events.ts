@@ -0,0 +1,63 @@
+import { isMainThread, parentPort } from "node:worker_threads";
+import type { EmitEvent, TransportEvents, WorkerType } from "../types";
+import { logError } from "./meta-log";
+
+/** Message sent by a worker thread to report a transport event */
+type EventMessage = {
+  event: keyof TransportEvents;
+  args: unknown[];
+};
+
+/**
+ * Report a transport event from a worker thread to the thread that spawned it.
+ * Does nothing when called outside a worker thread (e.g., when a worker function is run directly).
+ * Only call from the archive, retention and meta workers.
+ */
+export function postEvent<E extends keyof TransportEvents>(
+  event: E,
+  ...args: TransportEvents[E]
+): void {
+  parentPort?.postMessage({ event, args } satisfies EventMessage);
+}
+
+/**
+ * Report a worker error as a `transport:error` event (see `postEvent`).
+ */
+export function postError(source: WorkerType, logDir: string, err: unknown): void {
+  postEvent("transport:error", toError(err), { source, path: logDir });
+}
+
+/**
+ * Abort a worker thread that lost its lock: the error is logged to `.meta/error` and reported,
+ * then the thread exits, so it stops processing files another holder now owns.
+ * Only reports the error when called outside a worker thread.
+ */
+export function abortWorker(
+  source: WorkerType,
+  logDir: string,
+  err: unknown,
+  metaError: boolean,
+): void {
+  logError(logDir, source, err, metaError);
+  postError(source, logDir, err);
+  if (!isMainThread) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Normalize a thrown value to an Error.
+ */
+export function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+/**
+ * Emit the event carried by a worker message, ignoring other messages.
+ */
+export function emitEventMessage(message: unknown, emit: EmitEvent): void {
+  const { event, args } = (message ?? {}) as Partial<EventMessage>;
+  if (typeof event === "string" && Array.isArray(args)) {
+    (emit as (event: string, ...args: unknown[]) => void)(event, ...args);
+  }
+}
@@ -96,6 +96,37 @@ export function ensureDirSync(dirPath: string): void {
   }
 }
 
+/**
+ * Flush a file's content to disk (async)
+ */
+export async function syncFile(filePath: string): Promise<void> {
+  const handle = await fsPromises.open(filePath, "r+");
+  try {
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Flush a directory to disk, so the files renamed into it survive a crash (async).
+ * Skipped where directories cannot be synced (Windows, some file systems).
+ */
+export async function syncDir(dirPath: string): Promise<void> {
+  if (process.platform === "win32") return;
+  const handle = await fsPromises.open(dirPath, "r");
+  try {
+    await handle.sync();
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code !== "EINVAL" && code !== "ENOTSUP") {
+      throw err;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
 /**
  * Get file size in bytes (sync)
  */
@@ -107,6 +138,35 @@ export function getFileSizeSync(filePath: string): number {
   }
 }
 
+/** Counter making temporary link names unique within a process */
+let linkCounter = 0;
+
+/**
+ * Atomically point a link at a file of the same directory (sync).
+ * Writes a relative symlink, or a pointer file containing the file name where
+ * symlinks are not supported, under a temporary name and renames it over the link.
+ */
+export function updateCurrentLinkSync(
+  dir: string,
+  linkName: string,
+  targetFile: string,
+): "symlink" | "pointer" {
+  const linkPath = path.join(dir, linkName);
+  const tempPath = path.join(dir, `.${linkName}.${process.pid}-${linkCounter++}.tmp`);
+
+  try {
+    fs.symlinkSync(targetFile, tempPath);
+    fs.renameSync(tempPath, linkPath);
+    return "symlink";
+  } catch {
+    fs.rmSync(tempPath, { force: true });
+  }
+
+  fs.writeFileSync(tempPath, `${targetFile}\n`, "utf-8");
+  fs.renameSync(tempPath, linkPath);
+  return "pointer";
+}
+
 /**
  * Read JSON file (async)
  */
@@ -0,0 +1,72 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { HOLD_FILE } from "../config";
+import { readManifest } from "./manifest";
+
+/** Wall-clock interval of a period, in ms (the period's parts read as UTC) */
+export type PeriodRange = { start: number; end: number };
+
+/**
+ * Get the wall-clock interval of a period: "YYYY", "YYYY-MM", "YYYY-MM-DD" or "YYYY-MM-DD~HH".
+ * A day period spans a week when `weekly` is set (weekly archives are named after their Monday).
+ * Returns null if the period is invalid.
+ */
+export function getPeriodRange(period: string, weekly: boolean = false): PeriodRange | null {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:~(\d{2}))?)?)?$/.exec(period);
+  if (!match) return null;
+
+  const [year, month, day, hour] = match.slice(1).map((part) => (part ? parseInt(part, 10) : 0));
+  if ((match[2] && (month < 1 || month > 12)) || (match[3] && (day < 1 || day > 31)) || hour > 23) {
+    return null;
+  }
+
+  const start = Date.UTC(year, Math.max(month - 1, 0), Math.max(day, 1), hour);
+  let end: number;
+  if (match[4]) {
+    end = Date.UTC(year, month - 1, day, hour + 1);
+  } else if (match[3]) {
+    end = Date.UTC(year, month - 1, day + (weekly ? 7 : 1));
+  } else if (match[2]) {
+    end = Date.UTC(year, month, 1);
+  } else {
+    end = Date.UTC(year + 1, 0, 1);
+  }
+  return { start, end };
+}
+
+/**
+ * Read the legal holds of a log directory: the periods of its `.hold` file (one per line,
+ * `#` starts a comment) and of the `holds` list of its archive manifest.
+ * @throws Error if a held period is invalid or the manifest is unreadable, so nothing is deleted
+ */
+export async function readLegalHolds(logDir: string, archivePath: string): Promise<PeriodRange[]> {
+  let content = "";
+  try {
+    content = await fs.readFile(path.join(logDir, HOLD_FILE), "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+
+  const periods = content
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter(Boolean);
+  periods.push(...((await readManifest(archivePath)).holds ?? []));
+
+  return periods.map((period) => {
+    const range = getPeriodRange(period);
+    if (!range) {
+      throw new Error(
+        `Invalid legal hold period: "${period}". Expected YYYY, YYYY-MM, YYYY-MM-DD or YYYY-MM-DD~HH`,
+      );
+    }
+    return range;
+  });
+}
+
+/**
+ * Check whether a period range overlaps a legal hold.
+ */
+export function isHeld(holds: PeriodRange[], range: PeriodRange): boolean {
+  return holds.some((hold) => hold.start < range.end && range.start < hold.end);
+}
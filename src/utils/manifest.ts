@@ -0,0 +1,146 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import { ARCHIVE_MANIFEST_FILE } from "../config";
+import { withManifestLock } from "../locks/manifest";
+import type { ArchiveCompression, ArchivedFile, ArchiveManifest, ArchiveRecord } from "../types";
+import type { FileSnapshot } from "./archive";
+import { createFieldParser } from "./routing";
+
+/** Extracts the `time` field of a log line */
+const parseTime = createFieldParser("time");
+
+/**
+ * Get the manifest path of an archive directory.
+ */
+export function getManifestPath(archivePath: string): string {
+  return path.join(archivePath, ARCHIVE_MANIFEST_FILE);
+}
+
+/**
+ * Read the manifest of an archive directory (empty if it does not exist yet).
+ * @throws Error if the manifest is not valid JSON, so it is never overwritten
+ */
+export async function readManifest(archivePath: string): Promise<ArchiveManifest> {
+  let content: string;
+  try {
+    content = await fs.readFile(getManifestPath(archivePath), "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return { version: 1, archives: [] };
+    }
+    throw err;
+  }
+  return JSON.parse(content) as ArchiveManifest;
+}
+
+/**
+ * Update the manifest of an archive directory with the manifest lock held.
+ * The manifest is written to a temp file and renamed, so readers never see a partial file.
+ */
+export async function updateManifest(
+  logDir: string,
+  archivePath: string,
+  update: (manifest: ArchiveManifest) => void,
+): Promise<void> {
+  await withManifestLock(logDir, async () => {
+    const manifest = await readManifest(archivePath);
+    update(manifest);
+
+    const manifestPath = getManifestPath(archivePath);
+    const tempPath = path.join(archivePath, `.${ARCHIVE_MANIFEST_FILE}.${process.pid}.tmp`);
+    await fs.writeFile(tempPath, `${JSON.stringify(manifest, null, 2)}\n`, "utf-8");
+    await fs.rename(tempPath, manifestPath);
+  });
+}
+
+/**
+ * Build the manifest record of an archive from its file and the log files it contains.
+ * Only the archived bytes of each log file (its snapshot) are scanned.
+ */
+export async function createArchiveRecord(
+  archiveFile: string,
+  logDir: string,
+  details: {
+    archive: string;
+    period: string;
+    compression: ArchiveCompression;
+    files: string[];
+    snapshots: Map<string, FileSnapshot>;
+  },
+): Promise<ArchiveRecord> {
+  const files: ArchivedFile[] = [];
+  let firstTime = Infinity;
+  let lastTime = -Infinity;
+
+  for (const name of details.files) {
+    const size = details.snapshots.get(name)?.size ?? 0;
+    const scan = await scanLogFile(path.join(logDir, name), size);
+    files.push({ name, bytes: scan.bytes, lines: scan.lines });
+    firstTime = Math.min(firstTime, scan.firstTime);
+    lastTime = Math.max(lastTime, scan.lastTime);
+  }
+
+  const { size } = await fs.stat(archiveFile);
+
+  return {
+    archive: details.archive,
+    period: details.period,
+    compression: details.compression,
+    files,
+    bytes: files.reduce((sum, file) => sum + file.bytes, 0),
+    compressedBytes: size,
+    lines: files.reduce((sum, file) => sum + file.lines, 0),
+    firstTime: Number.isFinite(firstTime) ? new Date(firstTime).toISOString() : null,
+    lastTime: Number.isFinite(lastTime) ? new Date(lastTime).toISOString() : null,
+    sha256: await hashFile(archiveFile),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Count the lines of the first `size` bytes of a log file and find their earliest and latest
+ * `time` values (epoch ms).
+ * Supports epoch times (pino's default) and date strings (e.g., `pino.stdTimeFunctions.isoTime`).
+ */
+async function scanLogFile(
+  filePath: string,
+  size: number,
+): Promise<{ bytes: number; lines: number; firstTime: number; lastTime: number }> {
+  let lines = 0;
+  let firstTime = Infinity;
+  let lastTime = -Infinity;
+  if (size === 0) {
+    return { bytes: 0, lines, firstTime, lastTime };
+  }
+
+  const input = createReadStream(filePath, { end: size - 1 });
+  const reader = createInterface({ input, crlfDelay: Infinity });
+  for await (const line of reader) {
+    if (line === "") continue;
+    lines++;
+
+    const value = parseTime(line);
+    if (value === undefined) continue;
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (Number.isNaN(time)) continue;
+
+    firstTime = Math.min(firstTime, time);
+    lastTime = Math.max(lastTime, time);
+  }
+
+  return { bytes: size, lines, firstTime, lastTime };
+}
+
+/**
+ * Get the hash of a file (hex), SHA-256 by default.
+ */
+export async function hashFile(filePath: string, algorithm: string = "sha256"): Promise<string> {
+  const hash = createHash(algorithm);
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
@@ -1,5 +1,197 @@
-import type { ArchiveFrequency, DurationFormat, DurationUnit, ParsedDuration } from "../types";
-import { getMondayOfWeek } from "./time";
+import { createHash } from "node:crypto";
+import { DEFAULT_OPTIONS } from "../config";
+import type {
+  ArchiveCompression,
+  ArchiveFrequency,
+  DurationFormat,
+  DurationUnit,
+  ParsedDuration,
+  SizeFormat,
+  SizeUnit,
+  Timezone,
+} from "../types";
+import { formatDateParts, fromZonedParts, getMondayOfWeek, getZonedParts } from "./time";
+
+/** Placeholders supported in log filename templates */
+export const LOG_TEMPLATE_TOKENS = {
+  DATE: "{date}",
+  TIME: "{hour?}",
+} as const;
+
+/** Placeholders supported in archive filename templates */
+export const ARCHIVE_TEMPLATE_TOKENS = {
+  PERIOD: "{period}",
+} as const;
+
+/** Archive file extension of each compression format */
+export const ARCHIVE_EXTENSIONS: Record<ArchiveCompression, string> = {
+  gzip: ".tar.gz",
+  brotli: ".tar.br",
+  none: ".tar",
+};
+
+/** Regex sources for the values substituted into templates */
+const DATE_SOURCE = "\\d{4}-\\d{2}-\\d{2}";
+const TIME_SOURCE = "(?:~\\d{2}(?:-\\d{2}-\\d{2}(?:~\\d+)?)?)?";
+const PERIOD_SOURCE = "\\d{4}-\\d{2}(?:-\\d{2}(?:~\\d{2})?)?";
+
+/** Compiled template regexes, keyed by template */
+const logTemplateCache = new Map<string, RegExp>();
+const archiveTemplateCache = new Map<string, RegExp>();
+
+/**
+ * Escape a string for literal use in a regex.
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build an anchored regex source from a template.
+ * Literal parts are escaped, tokens are replaced by the given regex sources.
+ */
+function templateToRegexSource(template: string, tokens: Record<string, string>): string {
+  const tokenPattern = new RegExp(Object.keys(tokens).map(escapeRegex).join("|"), "g");
+  let source = "";
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(tokenPattern)) {
+    source += escapeRegex(template.slice(lastIndex, match.index)) + tokens[match[0]];
+    lastIndex = match.index + match[0].length;
+  }
+
+  return source + escapeRegex(template.slice(lastIndex));
+}
+
+/**
+ * Get the regex matching log filenames generated from a template.
+ * Captures the `date` (YYYY-MM-DD) and `time` (~HH, ~HH-mm-ss or ~HH-mm-ss~ms) groups.
+ */
+function getLogTemplateRegex(template: string): RegExp {
+  let regex = logTemplateCache.get(template);
+  if (!regex) {
+    const source = templateToRegexSource(template, {
+      [LOG_TEMPLATE_TOKENS.DATE]: `(?<date>${DATE_SOURCE})`,
+      [LOG_TEMPLATE_TOKENS.TIME]: `(?<time>${TIME_SOURCE})`,
+    });
+    regex = new RegExp(`^${source}$`);
+    logTemplateCache.set(template, regex);
+  }
+  return regex;
+}
+
+/**
+ * Get the regex matching archive filenames generated from a template.
+ * Captures the `period` group and the optional `-N` `counter` suffix,
+ * and accepts the extension of every compression format.
+ */
+function getArchiveTemplateRegex(template: string): RegExp {
+  let regex = archiveTemplateCache.get(template);
+  if (!regex) {
+    const source = templateToRegexSource(template, {
+      [ARCHIVE_TEMPLATE_TOKENS.PERIOD]: `(?<period>${PERIOD_SOURCE})`,
+    });
+    const extensions = Object.values(ARCHIVE_EXTENSIONS).map(escapeRegex).join("|");
+    regex = new RegExp(`^${source}(?:-(?<counter>\\d+))?(?:${extensions})$`);
+    archiveTemplateCache.set(template, regex);
+  }
+  return regex;
+}
+
+/**
+ * Count the occurrences of a token in a template.
+ */
+function countToken(template: string, token: string): number {
+  return template.split(token).length - 1;
+}
+
+/**
+ * Validate a log filename template.
+ * Returns an error message, or null if the template is valid.
+ */
+export function validateLogTemplate(template: string): string | null {
+  if (/[\\/]/.test(template)) {
+    return "must not contain path separators";
+  }
+  if (countToken(template, LOG_TEMPLATE_TOKENS.DATE) !== 1) {
+    return `must contain "${LOG_TEMPLATE_TOKENS.DATE}" exactly once`;
+  }
+  if (countToken(template, LOG_TEMPLATE_TOKENS.TIME) !== 1) {
+    return `must contain "${LOG_TEMPLATE_TOKENS.TIME}" exactly once (used for hourly and overflow files)`;
+  }
+  return null;
+}
+
+/**
+ * Validate an archive filename template.
+ * Returns an error message, or null if the template is valid.
+ */
+export function validateArchiveTemplate(template: string): string | null {
+  if (/[\\/]/.test(template)) {
+    return "must not contain path separators";
+  }
+  if (countToken(template, ARCHIVE_TEMPLATE_TOKENS.PERIOD) !== 1) {
+    return `must contain "${ARCHIVE_TEMPLATE_TOKENS.PERIOD}" exactly once`;
+  }
+  return null;
+}
+
+/**
+ * Render a log filename template.
+ * `time` is the time segment: empty (daily), `~HH` (hourly) or `~HH-mm-ss~ms` (overflow).
+ */
+export function formatLogFilename(template: string, date: string, time: string): string {
+  return template
+    .replace(LOG_TEMPLATE_TOKENS.DATE, () => date)
+    .replace(LOG_TEMPLATE_TOKENS.TIME, () => time);
+}
+
+/**
+ * Match a filename against a log filename template.
+ * Returns the date and time segment, or null if the file was not generated from the template.
+ */
+export function matchLogFilename(
+  filename: string,
+  template: string = DEFAULT_OPTIONS.fileName,
+): { date: string; time: string } | null {
+  const groups = getLogTemplateRegex(template).exec(filename)?.groups;
+  if (!groups) return null;
+  return { date: groups.date, time: groups.time };
+}
+
+/**
+ * Check whether a filename was generated from a log filename template.
+ */
+export function isLogFilename(
+  filename: string,
+  template: string = DEFAULT_OPTIONS.fileName,
+): boolean {
+  return getLogTemplateRegex(template).test(filename);
+}
+
+/**
+ * Check whether a filename was generated from an archive filename template.
+ */
+export function isArchiveFilename(
+  filename: string,
+  template: string = DEFAULT_OPTIONS.archive.fileName,
+): boolean {
+  return getArchiveTemplateRegex(template).test(filename);
+}
+
+/**
+ * Match a filename against an archive filename template.
+ * Returns the period (`YYYY-MM-DD~HH`, `YYYY-MM-DD` or `YYYY-MM`) and counter (0 without suffix),
+ * or null if the file was not generated from the template.
+ */
+export function matchArchiveFilename(
+  filename: string,
+  template: string = DEFAULT_OPTIONS.archive.fileName,
+): { period: string; counter: number } | null {
+  const groups = getArchiveTemplateRegex(template).exec(filename)?.groups;
+  if (!groups) return null;
+  return { period: groups.period, counter: groups.counter ? parseInt(groups.counter, 10) : 0 };
+}
 
 /**
  * Parse a duration string (e.g., "7d", "3m", "1y") into its components.
@@ -18,43 +210,92 @@ export function parseDuration(duration: DurationFormat): ParsedDuration {
   };
 }
 
+/** Bytes of each size unit */
+const SIZE_UNITS: Record<SizeUnit, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+};
+
+/**
+ * Parse a size string (e.g., "500MB", "20GB") into bytes.
+ * @throws Error if the size string is invalid
+ */
+export function parseSize(size: SizeFormat): number {
+  const match = size.match(/^(\d+(?:\.\d+)?)(B|KB|MB|GB|TB)$/);
+  if (!match) {
+    throw new Error(
+      `Invalid size format: "${size}". Expected format: <number><unit> with unit B, KB, MB, GB or TB (e.g., "500MB", "20GB")`,
+    );
+  }
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[match[2] as SizeUnit]);
+}
+
+/**
+ * Get the log file path for a period (YYYY-MM-DD or YYYY-MM-DD~HH).
+ */
+export function getLogPath(
+  logDir: string,
+  period: string,
+  template: string = DEFAULT_OPTIONS.fileName,
+): string {
+  return `${logDir}/${formatLogFilename(template, period.slice(0, 10), period.slice(10))}`;
+}
+
 /**
- * Get the log file path for a period.
+ * Get the lock name suffix of a filename template: empty for the default template,
+ * a short hash of the template otherwise.
+ * Transports using a custom filename template get their own locks, so several services
+ * sharing one log directory don't block each other.
  */
-export function getLogPath(logDir: string, period: string): string {
-  return `${logDir}/${period}.log`;
+export function getLockScope(template: string = DEFAULT_OPTIONS.fileName): string {
+  if (template === DEFAULT_OPTIONS.fileName) {
+    return "";
+  }
+  return `-${createHash("sha1").update(template).digest("hex").slice(0, 8)}`;
 }
 
 /**
  * Get the archive filename based on period.
+ * A counter > 0 adds a `-N` suffix to avoid overwriting an existing archive.
  */
-export function getArchiveFilename(period: string): string {
-  return `${period}-archive.tar.gz`;
+export function getArchiveFilename(
+  period: string,
+  template: string = DEFAULT_OPTIONS.archive.fileName,
+  counter: number = 0,
+  compression: ArchiveCompression = DEFAULT_OPTIONS.archive.compression,
+): string {
+  const baseName = template.replace(ARCHIVE_TEMPLATE_TOKENS.PERIOD, () => period);
+  const suffix = counter > 0 ? `-${counter}` : "";
+  return `${baseName}${suffix}${ARCHIVE_EXTENSIONS[compression]}`;
 }
 
 /**
  * Extract the period from a log filename based on archive frequency.
  * Supports daily (YYYY-MM-DD.log), hourly (YYYY-MM-DD~HH.log),
- * and overflow files (YYYY-MM-DD~HH-mm-ss.log).
+ * and overflow files (YYYY-MM-DD~HH-mm-ss.log), or their equivalents for a custom template.
  */
-export function getFilePeriod(filename: string, frequency: ArchiveFrequency): string | null {
-  const baseName = filename.replace(/\.log$/, "");
-
-  // Try to parse the date from the filename
-  const dateMatch = baseName.match(/^(\d{4}-\d{2}-\d{2})/);
-  if (!dateMatch) return null;
+export function getFilePeriod(
+  filename: string,
+  frequency: ArchiveFrequency,
+  template: string = DEFAULT_OPTIONS.fileName,
+): string | null {
+  const match = matchLogFilename(filename, template);
+  if (!match) return null;
 
-  const dateStr = dateMatch[1];
+  const dateStr = match.date;
   const date = new Date(dateStr);
   if (Number.isNaN(date.getTime())) return null;
 
   // Extract hour if present
-  const hourMatch = baseName.match(/^(\d{4}-\d{2}-\d{2})~(\d{2})/);
+  const hour = match.time.slice(1, 3);
 
   switch (frequency) {
     case "hourly":
-      if (hourMatch) {
-        return `${dateStr}~${hourMatch[2]}`;
+      if (hour) {
+        return `${dateStr}~${hour}`;
       }
       return `${dateStr}~00`;
 
@@ -62,7 +303,8 @@ export function getFilePeriod(filename: string, frequency: ArchiveFrequency): st
       return dateStr;
 
     case "weekly":
-      return getMondayOfWeek(date);
+      // Date-only strings parse as UTC midnight, so compute the Monday in UTC
+      return getMondayOfWeek(date, "utc");
 
     case "monthly":
       return dateStr.slice(0, 7);
@@ -71,64 +313,68 @@ export function getFilePeriod(filename: string, frequency: ArchiveFrequency): st
 
 /**
  * Parse a log filename to extract its date/time period.
+ * The filename's wall-clock time is interpreted in the given timezone.
  * Supports: YYYY-MM-DD.log, YYYY-MM-DD~HH.log, YYYY-MM-DD~HH-mm-ss*.log
  */
-export function parseLogFilename(filename: string): Date | null {
-  const baseName = filename.replace(/\.log$/, "");
+export function parseLogFilename(
+  filename: string,
+  timezone: Timezone = "local",
+  template: string = DEFAULT_OPTIONS.fileName,
+): Date | null {
+  const match = matchLogFilename(filename, template);
+  if (!match) return null;
 
-  // Try hourly/overflow format: YYYY-MM-DD~HH or YYYY-MM-DD~HH-mm-ss
-  const hourlyMatch = baseName.match(/^(\d{4})-(\d{2})-(\d{2})~(\d{2})/);
-  if (hourlyMatch) {
-    const [, year, month, day, hour] = hourlyMatch;
-    return new Date(
-      parseInt(year, 10),
-      parseInt(month, 10) - 1,
-      parseInt(day, 10),
-      parseInt(hour, 10),
-    );
-  }
+  const [year, month, day] = match.date.split("-").map((part) => parseInt(part, 10));
+  // Hourly/overflow files carry the hour right after the "~"
+  const hour = match.time ? parseInt(match.time.slice(1, 3), 10) : 0;
 
-  // Try daily format: YYYY-MM-DD
-  const dailyMatch = baseName.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (dailyMatch) {
-    const [, year, month, day] = dailyMatch;
-    return new Date(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10));
-  }
-
-  return null;
+  return fromZonedParts({ year, month, day, hour }, timezone);
 }
 
 /**
  * Parse an archive filename to extract its period.
+ * The period's wall-clock time is interpreted in the given timezone.
  * Supports: YYYY-MM-DD~HH-archive.tar.gz, YYYY-MM-DD-archive.tar.gz, YYYY-MM-archive.tar.gz
+ * (and the `.tar.br` and `.tar` extensions)
  */
-export function parseArchiveFilename(filename: string): Date | null {
-  const baseName = filename.replace(/-archive(-\d+)?\.tar\.gz$/, "");
+export function parseArchiveFilename(
+  filename: string,
+  timezone: Timezone = "local",
+  template: string = DEFAULT_OPTIONS.archive.fileName,
+): Date | null {
+  const period = matchArchiveFilename(filename, template)?.period;
+  if (!period) return null;
 
   // Hourly archive: YYYY-MM-DD~HH
-  const hourlyMatch = baseName.match(/^(\d{4})-(\d{2})-(\d{2})~(\d{2})$/);
+  const hourlyMatch = period.match(/^(\d{4})-(\d{2})-(\d{2})~(\d{2})$/);
   if (hourlyMatch) {
     const [, year, month, day, hour] = hourlyMatch;
-    return new Date(
-      parseInt(year, 10),
-      parseInt(month, 10) - 1,
-      parseInt(day, 10),
-      parseInt(hour, 10),
+    return fromZonedParts(
+      {
+        year: parseInt(year, 10),
+        month: parseInt(month, 10),
+        day: parseInt(day, 10),
+        hour: parseInt(hour, 10),
+      },
+      timezone,
     );
   }
 
   // Daily/Weekly archive: YYYY-MM-DD
-  const dailyMatch = baseName.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const dailyMatch = period.match(/^(\d{4})-(\d{2})-(\d{2})$/);
   if (dailyMatch) {
     const [, year, month, day] = dailyMatch;
-    return new Date(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10));
+    return fromZonedParts(
+      { year: parseInt(year, 10), month: parseInt(month, 10), day: parseInt(day, 10) },
+      timezone,
+    );
   }
 
   // Monthly archive: YYYY-MM
-  const monthlyMatch = baseName.match(/^(\d{4})-(\d{2})$/);
+  const monthlyMatch = period.match(/^(\d{4})-(\d{2})$/);
   if (monthlyMatch) {
     const [, year, month] = monthlyMatch;
-    return new Date(parseInt(year, 10), parseInt(month, 10) - 1, 1);
+    return fromZonedParts({ year: parseInt(year, 10), month: parseInt(month, 10) }, timezone);
   }
 
   return null;
@@ -138,25 +384,36 @@ export function parseArchiveFilename(filename: string): Date | null {
  * Get regex pattern to match overflow files for a period.
  * Overflow files have format: YYYY-MM-DD~HH-mm-ss*.log
  */
-export function getOverflowPattern(period: string, frequency: "hourly" | "daily"): RegExp {
-  if (frequency === "hourly") {
-    const [date, hour] = period.split("~");
-    return new RegExp(`^${date}~${hour}-\\d{2}-\\d{2}.*\\.log$`);
-  }
-  // Daily: match any overflow file for the date
-  return new RegExp(`^${period}~\\d{2}-\\d{2}-\\d{2}.*\\.log$`);
+export function getOverflowPattern(
+  period: string,
+  frequency: "hourly" | "daily",
+  template: string = DEFAULT_OPTIONS.fileName,
+): RegExp {
+  const date = period.slice(0, 10);
+  // Hourly: only overflow files of the period's hour. Daily: any overflow file for the date
+  const hour = frequency === "hourly" ? escapeRegex(period.slice(11, 13)) : "\\d{2}";
+
+  const source = templateToRegexSource(template, {
+    [LOG_TEMPLATE_TOKENS.DATE]: escapeRegex(date),
+    [LOG_TEMPLATE_TOKENS.TIME]: `~${hour}-\\d{2}-\\d{2}(?:~\\d+)?`,
+  });
+  return new RegExp(`^${source}$`);
 }
 
 /**
- * Generate a unique overflow filename.
+ * Generate a unique overflow filename, using the wall clock of the given timezone.
  */
-export function generateOverflowFilename(logDir: string): string {
-  const now = new Date();
-  const date = now.toISOString().slice(0, 10);
-  const hh = String(now.getHours()).padStart(2, "0");
-  const mm = String(now.getMinutes()).padStart(2, "0");
-  const ss = String(now.getSeconds()).padStart(2, "0");
-  const ms = String(now.getMilliseconds()).padStart(3, "0");
+export function generateOverflowFilename(
+  logDir: string,
+  timezone: Timezone = "local",
+  template: string = DEFAULT_OPTIONS.fileName,
+): string {
+  const parts = getZonedParts(new Date(), timezone);
+  const date = formatDateParts(parts);
+  const hh = String(parts.hour).padStart(2, "0");
+  const mm = String(parts.minute).padStart(2, "0");
+  const ss = String(parts.second).padStart(2, "0");
+  const ms = String(parts.millisecond).padStart(3, "0");
 
-  return `${logDir}/${date}~${hh}-${mm}-${ss}~${ms}.log`;
+  return `${logDir}/${formatLogFilename(template, date, `~${hh}-${mm}-${ss}~${ms}`)}`;
 }
@@ -0,0 +1,198 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  ResolvedRetentionConfig,
+  ResolvedRetentionPolicy,
+  ResolvedTransportOptions,
+  RetentionReason,
+  Timezone,
+} from "../types";
+import { fileExists } from "./file";
+import { getPeriodRange, type PeriodRange } from "./hold";
+import {
+  matchArchiveFilename,
+  matchLogFilename,
+  parseArchiveFilename,
+  parseDuration,
+  parseLogFilename,
+} from "./parsing";
+import { getCutoffDate } from "./time";
+
+/** A log file or archive considered by retention */
+export type RetentionEntry = {
+  file: string;
+  /** Start of the file's period */
+  date: Date;
+  /** Size in bytes */
+  size: number;
+};
+
+/** Log file or archive found by retention, with its period for legal holds */
+export type RetentionFile = RetentionEntry & { range: PeriodRange };
+
+/** Limits of a retention policy */
+export type RetentionLimits = {
+  /** Entries older than this date are deleted */
+  cutoff?: Date;
+  maxFiles?: number;
+  /** Maximum total size in bytes */
+  maxTotalSize?: number;
+};
+
+/**
+ * Whether a retention policy deletes anything (by age, count or size).
+ */
+export function isRetentionPolicyActive(policy: ResolvedRetentionPolicy): boolean {
+  return (
+    policy.duration !== undefined ||
+    policy.maxFiles !== undefined ||
+    policy.maxTotalSize !== undefined
+  );
+}
+
+/**
+ * Whether a retention config deletes any log file or archive.
+ */
+export function hasRetentionPolicy(retention: ResolvedRetentionConfig): boolean {
+  return isRetentionPolicyActive(retention.logs) || isRetentionPolicyActive(retention.archives);
+}
+
+/**
+ * Get the limits of a retention policy at a given time.
+ */
+export function getRetentionLimits(
+  policy: ResolvedRetentionPolicy,
+  timezone: Timezone,
+  now: Date,
+): RetentionLimits {
+  const limits: RetentionLimits = {
+    maxFiles: policy.maxFiles,
+    maxTotalSize: policy.maxTotalSize,
+  };
+  if (policy.duration) {
+    const { value, unit } = parseDuration(policy.duration);
+    limits.cutoff = getCutoffDate(now, value, unit, timezone);
+  }
+  return limits;
+}
+
+/**
+ * Select the entries to delete, with the limit each one exceeds.
+ * Entries are sorted oldest first: expired entries are selected first, then the oldest entries
+ * until the count and total size fit the limits. `protectedEntries` (e.g., the file being
+ * written) count towards the limits but are never selected.
+ */
+export function selectExpiredEntries(
+  entries: RetentionEntry[],
+  limits: RetentionLimits,
+  protectedEntries: RetentionEntry[] = [],
+): { entry: RetentionEntry; reason: RetentionReason }[] {
+  const all = [...entries, ...protectedEntries];
+  let count = all.length;
+  let totalSize = all.reduce((sum, entry) => sum + entry.size, 0);
+
+  const selected: { entry: RetentionEntry; reason: RetentionReason }[] = [];
+  for (const entry of entries) {
+    let reason: RetentionReason | undefined;
+    if (limits.cutoff && entry.date < limits.cutoff) {
+      reason = "age";
+    } else if (limits.maxFiles !== undefined && count > limits.maxFiles) {
+      reason = "count";
+    } else if (limits.maxTotalSize !== undefined && totalSize > limits.maxTotalSize) {
+      reason = "size";
+    }
+    if (!reason) continue;
+
+    selected.push({ entry, reason });
+    count--;
+    totalSize -= entry.size;
+  }
+  return selected;
+}
+
+/**
+ * Format the trash directory name of a retention run (its ISO time, file name safe).
+ */
+export function formatTrashBatch(date: Date): string {
+  return date.toISOString().replace(/:/g, "-");
+}
+
+/**
+ * Parse the time of a trash directory name, or null if it is not one.
+ */
+export function parseTrashBatch(name: string): Date | null {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2}\.\d{3})Z$/.exec(name);
+  if (!match) return null;
+  return new Date(`${match[1]}T${match[2]}:${match[3]}:${match[4]}Z`);
+}
+
+/**
+ * List the log files of a directory with their size, oldest first.
+ */
+export async function listLogFiles(
+  options: ResolvedTransportOptions,
+  dir: string,
+): Promise<RetentionFile[]> {
+  const { timezone, fileName, rotation } = options;
+
+  const logs: (RetentionFile & { key: string })[] = [];
+  for (const file of await fs.readdir(dir)) {
+    const match = matchLogFilename(file, fileName);
+    const date = parseLogFilename(file, timezone, fileName);
+    if (!match || !date) continue;
+
+    // Hourly files cover their hour, other files (daily or overflow) their day
+    const range = getPeriodRange(
+      rotation.frequency === "hourly" && match.time
+        ? `${match.date}~${match.time.slice(1, 3)}`
+        : match.date,
+    );
+    const size = await getEntrySize(path.join(dir, file));
+    if (!range || size === null) continue;
+
+    // Date then time segment: a period's file sorts before its overflow files
+    logs.push({ file, date, size, range, key: `${match.date}${match.time}` });
+  }
+
+  return logs.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * List the archives of a directory with their size, oldest first.
+ */
+export async function listArchiveFiles(
+  options: ResolvedTransportOptions,
+  dir: string,
+): Promise<RetentionFile[]> {
+  const { timezone, archive } = options;
+  if (!(await fileExists(dir))) {
+    return [];
+  }
+
+  const archives: (RetentionFile & { period: string; counter: number })[] = [];
+  for (const file of await fs.readdir(dir)) {
+    const match = matchArchiveFilename(file, archive.fileName);
+    const date = parseArchiveFilename(file, timezone, archive.fileName);
+    if (!match || !date) continue;
+
+    // Weekly archives are named after the Monday of their week
+    const range = getPeriodRange(match.period, archive.frequency === "weekly");
+    const size = await getEntrySize(path.join(dir, file));
+    if (!range || size === null) continue;
+
+    archives.push({ file, date, size, range, ...match });
+  }
+
+  return archives.sort((a, b) => a.period.localeCompare(b.period) || a.counter - b.counter);
+}
+
+/**
+ * Get the size of a file, or null if it was deleted meanwhile.
+ */
+async function getEntrySize(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch {
+    return null;
+  }
+}
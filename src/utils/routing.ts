@@ -0,0 +1,287 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ResolvedRoute, ResolvedTransportOptions } from "../types";
+
+const CHAR_SPACE = 32;
+const CHAR_QUOTE = 34;
+const CHAR_BACKSLASH = 92;
+const CHAR_COLON = 58;
+const CHAR_OPEN_BRACKET = 91;
+const CHAR_CLOSE_BRACKET = 93;
+const CHAR_OPEN_BRACE = 123;
+const CHAR_CLOSE_BRACE = 125;
+
+/** Parser of the top-level `level` field */
+const parseLevelField = createFieldParser("level");
+
+/** Numeric level values */
+const NUMERIC_LEVEL = /^\d+$/;
+
+/**
+ * Extract the level of a pino JSON line without parsing the whole line.
+ * Only the top-level `level` field is read (see `createFieldParser`), so nested objects and
+ * strings containing `"level":` are ignored.
+ * Supports numeric levels and level labels (resolved through the level map).
+ * Returns undefined if the line has no level or an unknown label.
+ */
+export function parseLevel(line: string, levels: Record<string, number>): number | undefined {
+  const value = parseLevelField(line);
+  if (value === undefined) return undefined;
+  if (Object.hasOwn(levels, value)) return levels[value];
+  return NUMERIC_LEVEL.test(value) ? Number(value) : undefined;
+}
+
+/**
+ * Resolve a level name or number to its numeric value.
+ * Returns undefined for unknown level names.
+ */
+export function resolveLevel(
+  level: number | string,
+  levels: Record<string, number>,
+): number | undefined {
+  if (typeof level === "number") return level;
+  return Object.hasOwn(levels, level) ? levels[level] : undefined;
+}
+
+/**
+ * Check whether a level falls within a route's bounds.
+ * Lines without a known level only match routes without bounds.
+ */
+export function routeMatches(route: ResolvedRoute, level: number | undefined): boolean {
+  if (level === undefined) {
+    return route.minLevel === -Infinity && route.maxLevel === Infinity;
+  }
+  return level >= route.minLevel && level <= route.maxLevel;
+}
+
+/**
+ * Splits written chunks into lines.
+ * A chunk may hold several lines (`pino.transport()` batches them) and end with an incomplete
+ * line, which is kept until a later chunk completes it.
+ */
+export class LineSplitter {
+  private partial: string = "";
+
+  /**
+   * Get the complete lines of a chunk, each with its newline (empty lines are skipped).
+   */
+  split(chunk: string): string[] {
+    const data = this.partial + chunk;
+    const end = data.lastIndexOf("\n");
+    if (end === -1) {
+      this.partial = data;
+      return [];
+    }
+    this.partial = data.slice(end + 1);
+
+    // Fast path: a single line
+    if (data.indexOf("\n") === end) {
+      return end === 0 ? [] : [data.slice(0, end + 1)];
+    }
+    const lines: string[] = [];
+    for (const line of data.slice(0, end).split("\n")) {
+      if (line !== "") {
+        lines.push(`${line}\n`);
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Take the incomplete last line, if any (when the stream ends).
+   */
+  takeRest(): string | undefined {
+    const rest = this.partial;
+    this.partial = "";
+    return rest === "" ? undefined : rest;
+  }
+}
+
+/**
+ * Get the file sets managed by a transport.
+ * Each level route is a file set with its own directory and settings;
+ * without routes, the transport itself is the only file set.
+ */
+export function getFileSets(options: ResolvedTransportOptions): ResolvedTransportOptions[] {
+  if (options.routes.length === 0) {
+    return [options];
+  }
+  return options.routes.map((route) => route.options);
+}
+
+/**
+ * Group file sets by a key (e.g., their cron schedule), preserving order.
+ * A file set with several keys joins each of their groups.
+ */
+export function groupFileSets(
+  sets: ResolvedTransportOptions[],
+  getKey: (set: ResolvedTransportOptions) => string | string[],
+): Map<string, ResolvedTransportOptions[]> {
+  const groups = new Map<string, ResolvedTransportOptions[]>();
+  for (const set of sets) {
+    for (const key of new Set(([] as string[]).concat(getKey(set)))) {
+      const group = groups.get(key);
+      if (group) {
+        group.push(set);
+      } else {
+        groups.set(key, [set]);
+      }
+    }
+  }
+  return groups;
+}
+
+/**
+ * Create a parser extracting a top-level field of a pino JSON line without parsing the whole line.
+ * Only keys of the top-level object match: the line is scanned tracking the object depth and
+ * skipping strings, so nested fields and string values containing the key are ignored.
+ * String, number and boolean values are returned as strings; missing, null or invalid values
+ * as undefined.
+ */
+export function createFieldParser(field: string): (line: string) => string | undefined {
+  const key = JSON.stringify(field);
+
+  return (line: string): string | undefined => {
+    // Most lines without the field are rejected without scanning
+    if (!line.includes(key)) return undefined;
+
+    let depth = 0;
+    for (let i = 0; i < line.length; i++) {
+      const c = line.charCodeAt(i);
+      if (c === CHAR_QUOTE) {
+        const end = findStringEnd(line, i);
+        if (end === -1) return undefined;
+
+        // A string of the top-level object followed by ":" is one of its keys
+        if (depth === 1 && end - i + 1 === key.length && line.startsWith(key, i)) {
+          let colon = end + 1;
+          while (line.charCodeAt(colon) === CHAR_SPACE) colon++;
+          if (line.charCodeAt(colon) === CHAR_COLON) {
+            return readFieldValue(line, colon + 1);
+          }
+        }
+        i = end;
+      } else if (c === CHAR_OPEN_BRACE || c === CHAR_OPEN_BRACKET) {
+        depth++;
+      } else if (c === CHAR_CLOSE_BRACE || c === CHAR_CLOSE_BRACKET) {
+        depth--;
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Find the closing quote of a JSON string starting at `start`, skipping escaped characters.
+ * Returns -1 if the string is not closed.
+ */
+function findStringEnd(line: string, start: number): number {
+  for (let i = start + 1; i < line.length; i++) {
+    const c = line.charCodeAt(i);
+    if (c === CHAR_BACKSLASH) {
+      i++;
+    } else if (c === CHAR_QUOTE) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Read the value of a field starting at `start` (after the colon), as a string.
+ * Returns undefined for null, objects, arrays and invalid strings.
+ */
+function readFieldValue(line: string, start: number): string | undefined {
+  while (line.charCodeAt(start) === CHAR_SPACE) start++;
+
+  // String value: unescaped only when needed
+  if (line.charCodeAt(start) === CHAR_QUOTE) {
+    const end = findStringEnd(line, start);
+    if (end === -1) return undefined;
+    const raw = line.slice(start + 1, end);
+    if (!raw.includes("\\")) return raw;
+    try {
+      return JSON.parse(`"${raw}"`);
+    } catch {
+      // Invalid escape sequence: the line goes to the default partition
+      return undefined;
+    }
+  }
+
+  // Number/boolean value: read up to the next delimiter
+  let end = start;
+  while (end < line.length && !",}\n ".includes(line[end])) end++;
+  const raw = line.slice(start, end);
+  return raw && raw !== "null" && !"{[".includes(raw[0]) ? raw : undefined;
+}
+
+/** Field values used as partition names as is */
+const SAFE_PARTITION_NAME = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+/** Characters kept as is in partition names (other bytes are percent-encoded) */
+const SAFE_PARTITION_CHAR = /[A-Za-z0-9._-]/;
+
+/** Maximum length of a partition name */
+const MAX_PARTITION_NAME = 128;
+
+/**
+ * Turn a field value into a safe partition directory name, distinct for distinct values.
+ * The UTF-8 bytes of characters other than letters, digits, ".", "_" and "-" are
+ * percent-encoded (e.g., "a/b" becomes "a%2Fb"), and so are leading dots, so partitions never
+ * clash with `.meta` or `.locks`. A name longer than 128 characters is cut and ends with "~" and
+ * a hash of the value ("~" is always encoded otherwise).
+ */
+export function sanitizePartitionName(value: string): string {
+  if (value.length <= MAX_PARTITION_NAME && SAFE_PARTITION_NAME.test(value)) {
+    return value;
+  }
+
+  let name = "";
+  let leading = true;
+  for (const byte of Buffer.from(value, "utf-8")) {
+    const char = String.fromCharCode(byte);
+    leading &&= char === ".";
+    name +=
+      byte < 128 && SAFE_PARTITION_CHAR.test(char) && !leading
+        ? char
+        : `%${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+  }
+
+  if (name.length > MAX_PARTITION_NAME) {
+    const hash = createHash("sha1").update(value).digest("hex").slice(0, 8);
+    name = `${name.slice(0, MAX_PARTITION_NAME - hash.length - 1)}~${hash}`;
+  }
+  return name;
+}
+
+/**
+ * Get the file sets of a (possibly partitioned) log directory.
+ * Partitioned transports have one file set per partition sub-directory, including
+ * partitions whose stream is currently closed. Optionally includes the root directory itself.
+ */
+export async function getPartitionSets(
+  options: ResolvedTransportOptions,
+  includeRoot: boolean = false,
+): Promise<ResolvedTransportOptions[]> {
+  if (!options.partition) {
+    return [options];
+  }
+
+  const entries = await fs.readdir(options.path, { withFileTypes: true });
+  const partitions = entries
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => getPartitionOptions(options, entry.name));
+
+  return includeRoot ? [options, ...partitions] : partitions;
+}
+
+/**
+ * Get the options of one partition of a partitioned file set.
+ */
+export function getPartitionOptions(
+  options: ResolvedTransportOptions,
+  partition: string,
+): ResolvedTransportOptions {
+  return { ...options, path: path.join(options.path, partition), partition: undefined };
+}
@@ -0,0 +1,126 @@
+import type {
+  ArchiveOutcome,
+  FileStats,
+  RetentionOutcome,
+  RotationReason,
+  TransportEvents,
+  TransportStats,
+} from "../types";
+
+/**
+ * Write counters shared by every file transport of a stream.
+ * Shared so that counts survive partition streams being closed.
+ */
+export type StreamCounters = {
+  bytesWritten: number;
+  linesWritten: number;
+  linesDropped: number;
+  linesDroppedLowDisk: number;
+  linesDroppedFallback: number;
+  linesDroppedPending: number;
+  linesUnrouted: number;
+  rotations: Record<RotationReason, number>;
+  pendingWritesHighWaterMark: number;
+};
+
+/** Last archive and retention outcomes, recorded from transport events */
+export type WorkerOutcomes = {
+  lastArchive: ArchiveOutcome | null;
+  lastRetention: RetentionOutcome | null;
+};
+
+/**
+ * Create zeroed stream counters.
+ */
+export function createStreamCounters(): StreamCounters {
+  return {
+    bytesWritten: 0,
+    linesWritten: 0,
+    linesDropped: 0,
+    linesDroppedLowDisk: 0,
+    linesDroppedFallback: 0,
+    linesDroppedPending: 0,
+    linesUnrouted: 0,
+    rotations: { period: 0, size: 0, manual: 0, reopen: 0, external: 0, disk: 0 },
+    pendingWritesHighWaterMark: 0,
+  };
+}
+
+/**
+ * Record the archive or retention outcome carried by a transport event.
+ * Other events are ignored.
+ */
+export function recordWorkerOutcome(
+  outcomes: WorkerOutcomes,
+  event: keyof TransportEvents,
+  args: unknown[],
+): void {
+  const time = new Date().toISOString();
+
+  switch (event) {
+    case "archive:complete": {
+      const [{ path, period, archive, bytes }] = args as TransportEvents["archive:complete"];
+      outcomes.lastArchive = { status: "complete", time, path, period, archive, bytes };
+      break;
+    }
+    case "archive:error": {
+      const [{ path, period, archive, error }] = args as TransportEvents["archive:error"];
+      outcomes.lastArchive = { status: "error", time, path, period, archive, error: error.message };
+      break;
+    }
+    case "retention:complete": {
+      const [{ path, deletedLogs, deletedArchives }] =
+        args as TransportEvents["retention:complete"];
+      outcomes.lastRetention = { status: "complete", time, path, deletedLogs, deletedArchives };
+      break;
+    }
+    case "transport:error": {
+      const [error, context] = args as TransportEvents["transport:error"];
+      if (context.source === "archive") {
+        // The failure of a period was already recorded by archive:error
+        const last = outcomes.lastArchive;
+        if (last?.path !== context.path || last.error !== error.message) {
+          outcomes.lastArchive = {
+            status: "error",
+            time,
+            path: context.path,
+            error: error.message,
+          };
+        }
+      } else if (context.source === "retention") {
+        outcomes.lastRetention = {
+          status: "error",
+          time,
+          path: context.path,
+          error: error.message,
+        };
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Build the stats of a stream from its counters, open files and worker outcomes.
+ */
+export function buildStats(
+  counters: StreamCounters,
+  files: FileStats[],
+  outcomes: WorkerOutcomes,
+): TransportStats {
+  return {
+    bytesWritten: counters.bytesWritten,
+    linesWritten: counters.linesWritten,
+    linesDropped: counters.linesDropped,
+    linesDroppedLowDisk: counters.linesDroppedLowDisk,
+    linesDroppedFallback: counters.linesDroppedFallback,
+    linesDroppedPending: counters.linesDroppedPending,
+    linesUnrouted: counters.linesUnrouted,
+    rotations: { ...counters.rotations },
+    pendingWrites: files.reduce((sum, file) => sum + file.pendingWrites, 0),
+    pendingWritesHighWaterMark: counters.pendingWritesHighWaterMark,
+    files,
+    lastArchive: outcomes.lastArchive && { ...outcomes.lastArchive },
+    lastRetention: outcomes.lastRetention && { ...outcomes.lastRetention },
+  };
+}
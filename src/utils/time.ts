@@ -1,20 +1,185 @@
-import type { ArchiveFrequency, DurationUnit, RotationFrequency } from "../types";
+import type {
+  ArchiveFrequency,
+  DurationUnit,
+  RotationFrequency,
+  Timezone,
+  ZonedDateParts,
+} from "../types";
+
+/** Cached Intl formatters, keyed by IANA timezone name */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get (or create) a formatter that outputs numeric wall-clock fields for a timezone.
+ */
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a timezone is supported ("utc", "local" or a valid IANA name).
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (timezone === "utc" || timezone === "local") return true;
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock date/time fields of a date in the given timezone.
+ */
+export function getZonedParts(date: Date, timezone: Timezone): ZonedDateParts {
+  if (timezone === "local") {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds(),
+    };
+  }
+
+  if (timezone === "utc") {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      millisecond: date.getUTCMilliseconds(),
+    };
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Get the offset (in ms) between the timezone's wall clock and UTC at a given instant.
+ */
+function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, p.millisecond);
+  return wallClock - date.getTime();
+}
+
+/**
+ * Build a Date from wall-clock fields expressed in the given timezone.
+ * Out-of-range fields are normalized (e.g. day 0 is the last day of the previous month).
+ */
+export function fromZonedParts(parts: Partial<ZonedDateParts>, timezone: Timezone): Date {
+  const {
+    year = 1970,
+    month = 1,
+    day = 1,
+    hour = 0,
+    minute = 0,
+    second = 0,
+    millisecond = 0,
+  } = parts;
+
+  if (timezone === "local") {
+    return new Date(year, month - 1, day, hour, minute, second, millisecond);
+  }
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  if (timezone === "utc") {
+    return new Date(wallClock);
+  }
+
+  // Resolve the offset at the guessed instant, then re-check it in case we crossed a DST change
+  const offset = getTimezoneOffsetMs(new Date(wallClock), timezone);
+  const guess = wallClock - offset;
+  const correctedOffset = getTimezoneOffsetMs(new Date(guess), timezone);
+  return new Date(correctedOffset === offset ? guess : wallClock - correctedOffset);
+}
+
+/**
+ * Get the timezone to pass to node-cron (undefined means the host's local timezone).
+ */
+export function getCronTimezone(timezone: Timezone): string | undefined {
+  if (timezone === "local") return undefined;
+  if (timezone === "utc") return "UTC";
+  return timezone;
+}
+
+/**
+ * Format a date as YYYY-MM-DD from its zoned parts.
+ */
+export function formatDateParts(parts: ZonedDateParts): string {
+  const year = String(parts.year).padStart(4, "0");
+  const month = String(parts.month).padStart(2, "0");
+  const day = String(parts.day).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/** Last computed rotation period (see getCurrentRotationPeriod) */
+let rotationPeriodCache: {
+  second: number;
+  frequency: RotationFrequency;
+  timezone: Timezone;
+  period: string;
+} = { second: -1, frequency: "daily", timezone: "local", period: "" };
 
 /**
  * Get the current period string based on rotation frequency.
  * - Daily: YYYY-MM-DD
  * - Hourly: YYYY-MM-DD~HH
  */
-export function getCurrentRotationPeriod(frequency: RotationFrequency): string {
-  const now = new Date();
-  const date = now.toISOString().slice(0, 10); // YYYY-MM-DD
-
-  if (frequency === "hourly") {
-    const hour = String(now.getHours()).padStart(2, "0");
-    return `${date}~${hour}`;
+export function getCurrentRotationPeriod(
+  frequency: RotationFrequency,
+  timezone: Timezone = "local",
+  now: Date = new Date(),
+): string {
+  // Called on every write: period boundaries always fall on a whole second,
+  // so the result can be reused for the rest of the second
+  const second = Math.floor(now.getTime() / 1000);
+  const cached = rotationPeriodCache;
+  if (cached.second === second && cached.frequency === frequency && cached.timezone === timezone) {
+    return cached.period;
   }
 
-  return date;
+  const parts = getZonedParts(now, timezone);
+  const date = formatDateParts(parts);
+  const period = frequency === "hourly" ? `${date}~${String(parts.hour).padStart(2, "0")}` : date;
+
+  rotationPeriodCache = { second, frequency, timezone, period };
+  return period;
 }
 
 /**
@@ -24,10 +189,14 @@ export function getCurrentRotationPeriod(frequency: RotationFrequency): string {
  * - Weekly: YYYY-MM-DD (Monday of the week)
  * - Monthly: YYYY-MM
  */
-export function getCurrentArchivePeriod(frequency: ArchiveFrequency): string {
-  const now = new Date();
-  const dateStr = now.toISOString().slice(0, 10);
-  const hour = String(now.getHours()).padStart(2, "0");
+export function getCurrentArchivePeriod(
+  frequency: ArchiveFrequency,
+  timezone: Timezone = "local",
+  now: Date = new Date(),
+): string {
+  const parts = getZonedParts(now, timezone);
+  const dateStr = formatDateParts(parts);
+  const hour = String(parts.hour).padStart(2, "0");
 
   switch (frequency) {
     case "hourly":
@@ -35,7 +204,7 @@ export function getCurrentArchivePeriod(frequency: ArchiveFrequency): string {
     case "daily":
       return dateStr;
     case "weekly":
-      return getMondayOfWeek(now);
+      return getMondayOfWeek(now, timezone);
     case "monthly":
       return dateStr.slice(0, 7);
   }
@@ -45,39 +214,48 @@ export function getCurrentArchivePeriod(frequency: ArchiveFrequency): string {
  * Get the Monday of the week for a given date.
  * Used for weekly archive grouping.
  */
-export function getMondayOfWeek(date: Date): string {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-  d.setDate(diff);
+export function getMondayOfWeek(date: Date, timezone: Timezone = "local"): string {
+  const { year, month, day } = getZonedParts(date, timezone);
+  // Do the calendar arithmetic in UTC so it is independent of the host timezone
+  const d = new Date(Date.UTC(year, month - 1, day));
+  const weekday = d.getUTCDay();
+  d.setUTCDate(d.getUTCDate() - (weekday === 0 ? 6 : weekday - 1));
   return d.toISOString().slice(0, 10);
 }
 
 /**
  * Calculate the cutoff date based on duration value and unit.
+ * Hours are elapsed time; calendar units (days, weeks, months, years) are applied to the
+ * wall clock of the timezone.
  */
-export function getCutoffDate(now: Date, value: number, unit: DurationUnit): Date {
-  const cutoff = new Date(now);
+export function getCutoffDate(
+  now: Date,
+  value: number,
+  unit: DurationUnit,
+  timezone: Timezone = "local",
+): Date {
+  if (unit === "h") {
+    return new Date(now.getTime() - value * 60 * 60 * 1000);
+  }
+
+  const parts = getZonedParts(now, timezone);
 
   switch (unit) {
-    case "h":
-      cutoff.setHours(cutoff.getHours() - value);
-      break;
     case "d":
-      cutoff.setDate(cutoff.getDate() - value);
+      parts.day -= value;
       break;
     case "w":
-      cutoff.setDate(cutoff.getDate() - value * 7);
+      parts.day -= value * 7;
       break;
     case "m":
-      cutoff.setMonth(cutoff.getMonth() - value);
+      parts.month -= value;
       break;
     case "y":
-      cutoff.setFullYear(cutoff.getFullYear() - value);
+      parts.year -= value;
       break;
   }
 
-  return cutoff;
+  return fromZonedParts(parts, timezone);
 }
 
 /**
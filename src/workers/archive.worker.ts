@@ -1,23 +1,82 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { workerData } from "node:worker_threads";
-import { c as tar } from "tar";
 import { releaseWorkerLock, startHeartbeat } from "../locks/worker";
-import type { ResolvedTransportOptions } from "../types";
-import { ensureDir, fileExists } from "../utils/file";
+import { createArchiveSink, putArchive } from "../sinks/sink";
+import type {
+  ArchiveRecord,
+  ResolvedArchiveSinkConfig,
+  ResolvedTransportOptions,
+  WorkerJob,
+} from "../types";
+import {
+  createArchive,
+  type FileSnapshot,
+  getUniqueArchiveFilename,
+  verifyArchive,
+} from "../utils/archive";
+import { abortWorker, postError, postEvent, toError } from "../utils/events";
+import { ensureDir, fileExists, syncDir, syncFile } from "../utils/file";
+import { createArchiveRecord, readManifest, updateManifest } from "../utils/manifest";
 import { logArchive, logError } from "../utils/meta-log";
-import { getArchiveFilename, getFilePeriod } from "../utils/parsing";
+import { getFilePeriod, isArchiveFilename, isLogFilename } from "../utils/parsing";
+import { getPartitionSets } from "../utils/routing";
 import { getCurrentArchivePeriod } from "../utils/time";
 
+/** Suffix of archives being written (hidden files: `.<archive name>.tmp`) */
+const TEMP_ARCHIVE_SUFFIX = ".tmp";
+
 /**
- * Archive worker - compresses old log files into tar.gz archives.
+ * Archive worker - bundles old log files into (compressed) tar archives.
  * Updates heartbeat while running for crash detection.
  */
-export async function runArchiveWorker(options: ResolvedTransportOptions): Promise<void> {
-  const { path: logDir, archive } = options;
+export async function runArchiveWorker(
+  options: ResolvedTransportOptions,
+  lockToken?: string,
+): Promise<void> {
+  const { path: logDir } = options;
 
-  // Start heartbeat
-  const heartbeatInterval = startHeartbeat(logDir, "archive");
+  // Start heartbeat (a worker run directly holds no lock)
+  const heartbeatInterval = lockToken
+    ? startHeartbeat(
+        logDir,
+        "archive",
+        options.fileName,
+        lockToken,
+        options.locks.worker.heartbeatInterval,
+        () => {
+          const err = new Error(`Lost the archive lock of ${logDir}, stopping the worker`);
+          abortWorker("archive", logDir, err, options.meta.error);
+        },
+      )
+    : undefined;
+
+  try {
+    // Partitioned transports archive every partition directory
+    for (const set of await getPartitionSets(options)) {
+      await archiveFileSet(set);
+      if (set.archive.sink) {
+        await copyArchivesToSink(set);
+      }
+    }
+  } catch (err) {
+    logArchive(logDir, `Archive worker error: ${err}`);
+    logError(logDir, "archive", err, options.meta.error);
+    postError("archive", logDir, err);
+  } finally {
+    // Stop heartbeat and release lock
+    clearInterval(heartbeatInterval);
+    if (lockToken) {
+      await releaseWorkerLock(logDir, "archive", options.fileName, lockToken);
+    }
+  }
+}
+
+/**
+ * Archive the completed periods of one file set (a log directory).
+ */
+async function archiveFileSet(options: ResolvedTransportOptions): Promise<void> {
+  const { path: logDir, archive } = options;
 
   try {
     if (archive.logging) {
@@ -25,7 +84,7 @@ export async function runArchiveWorker(options: ResolvedTransportOptions): Promi
     }
 
     // Get log files
-    const files = (await fs.readdir(logDir)).filter((f) => f.endsWith(".log"));
+    const files = (await fs.readdir(logDir)).filter((f) => isLogFilename(f, options.fileName));
     if (files.length === 0) {
       if (archive.logging) {
         logArchive(logDir, "No log files to archive");
@@ -34,12 +93,12 @@ export async function runArchiveWorker(options: ResolvedTransportOptions): Promi
     }
 
     // Get current period (to skip incomplete period)
-    const currentPeriod = getCurrentArchivePeriod(archive.frequency);
+    const currentPeriod = getCurrentArchivePeriod(archive.frequency, options.timezone);
 
     // Group files by period
     const filesByPeriod: Record<string, string[]> = {};
     for (const file of files) {
-      const period = getFilePeriod(file, archive.frequency);
+      const period = getFilePeriod(file, archive.frequency, options.fileName);
       if (!period) continue;
       if (period === currentPeriod) continue; // Skip current period
 
@@ -61,6 +120,9 @@ export async function runArchiveWorker(options: ResolvedTransportOptions): Promi
     const archivePath = path.join(logDir, archive.path);
     await ensureDir(archivePath);
 
+    // Temp archives left by a worker that died mid-archive (the lock is held: no other writer)
+    await removeTempArchives(archivePath, archive.fileName);
+
     if (archive.logging) {
       logArchive(logDir, `Found ${periodCount} period(s) to archive`);
     }
@@ -70,16 +132,10 @@ export async function runArchiveWorker(options: ResolvedTransportOptions): Promi
       const periodFiles = filesByPeriod[period];
       if (periodFiles.length === 0) continue;
 
-      // Generate unique archive filename
-      let archiveFileName = getArchiveFilename(period);
-      let archiveFullPath = path.join(archivePath, archiveFileName);
-      let counter = 1;
-
-      while (await fileExists(archiveFullPath)) {
-        archiveFileName = `${period}-archive-${counter}.tar.gz`;
-        archiveFullPath = path.join(archivePath, archiveFileName);
-        counter++;
-      }
+      // Generate unique archive filename (across compression formats)
+      const archiveFileName = await getUniqueArchiveFilename(archivePath, period, archive);
+      const archiveFullPath = path.join(archivePath, archiveFileName);
+      const tempPath = path.join(archivePath, `.${archiveFileName}${TEMP_ARCHIVE_SUFFIX}`);
 
       if (archive.logging) {
         logArchive(
@@ -88,11 +144,56 @@ export async function runArchiveWorker(options: ResolvedTransportOptions): Promi
         );
       }
 
-      // Create tar.gz archive
-      await tar({ gzip: true, file: archiveFullPath, cwd: logDir }, periodFiles);
+      const event = { path: logDir, period, files: periodFiles, archive: archiveFileName };
+      postEvent("archive:start", event);
+
+      let record: ArchiveRecord;
+      let snapshots: Map<string, FileSnapshot>;
+      try {
+        // Create the archive under a temp name, so a crash never leaves a truncated archive
+        snapshots = await createArchive(tempPath, logDir, periodFiles, archive);
 
-      // Delete original log files
-      await Promise.all(periodFiles.map((f) => fs.unlink(path.join(logDir, f))));
+        // Check the archive against the archived log files before anything is deleted
+        await verifyArchive(tempPath, snapshots, archive.compression);
+        record = await createArchiveRecord(tempPath, logDir, {
+          ...event,
+          compression: archive.compression,
+          snapshots,
+        });
+        // Flush the archive before it replaces the log files
+        await syncFile(tempPath);
+        await fs.rename(tempPath, archiveFullPath);
+      } catch (err) {
+        // The original log files are kept and archived again on the next run
+        await fs.rm(tempPath, { force: true });
+        postEvent("archive:error", { ...event, error: toError(err) });
+        throw err;
+      }
+
+      // Make the rename durable before the log files are deleted (they are archived again on failure)
+      await syncDir(archivePath);
+
+      // Record the archive in the manifest (the archive is valid even if this fails)
+      try {
+        await updateManifest(logDir, archivePath, (manifest) => {
+          manifest.archives.push(record);
+        });
+      } catch (err) {
+        logArchive(logDir, `Failed to update archive manifest: ${err}`);
+        logError(logDir, "archive", err, options.meta.error);
+        postError("archive", logDir, err);
+      }
+
+      // Delete original log files, except those written since they were archived
+      const kept = await deleteArchivedFiles(logDir, snapshots);
+      if (kept.length > 0 && archive.logging) {
+        logArchive(
+          logDir,
+          `Kept ${kept.join(", ")}: written after archiving, archived again on the next run`,
+        );
+      }
+
+      postEvent("archive:complete", { ...event, bytes: record.compressedBytes });
 
       if (archive.logging) {
         logArchive(logDir, `Archived ${periodFiles.length} files to ${archiveFileName}`);
@@ -105,14 +206,121 @@ export async function runArchiveWorker(options: ResolvedTransportOptions): Promi
   } catch (err) {
     logArchive(logDir, `Archive worker error: ${err}`);
     logError(logDir, "archive", err, options.meta.error);
-  } finally {
-    // Stop heartbeat and release lock
-    clearInterval(heartbeatInterval);
-    await releaseWorkerLock(logDir, "archive");
+    postError("archive", logDir, err);
+  }
+}
+
+/**
+ * Delete archived log files, keeping those whose size or modification time changed since they
+ * were added to the archive (their new lines are not archived yet).
+ * Returns the names of the kept files.
+ */
+async function deleteArchivedFiles(
+  logDir: string,
+  snapshots: Map<string, FileSnapshot>,
+): Promise<string[]> {
+  const kept: string[] = [];
+  await Promise.all(
+    [...snapshots].map(async ([file, snapshot]) => {
+      const filePath = path.join(logDir, file);
+      const { size, mtimeMs } = await fs.stat(filePath);
+      if (size !== snapshot.size || mtimeMs !== snapshot.mtimeMs) {
+        kept.push(file);
+        return;
+      }
+      await fs.unlink(filePath);
+    }),
+  );
+  return kept;
+}
+
+/**
+ * Copy the archives missing from the sink (new ones and earlier failures) and record
+ * their destination in the manifest. Stops at the first failure: the remaining archives
+ * are kept locally and retried on the next run.
+ */
+async function copyArchivesToSink(options: ResolvedTransportOptions): Promise<void> {
+  const { path: logDir, archive } = options;
+  const sinkConfig = archive.sink as ResolvedArchiveSinkConfig;
+  const archivePath = path.join(logDir, archive.path);
+
+  try {
+    if (!(await fileExists(archivePath))) return;
+
+    const pending = (await readManifest(archivePath)).archives.filter(
+      (record) => !record.destination && !record.deletedAt,
+    );
+    if (pending.length === 0) return;
+
+    const sink = createArchiveSink(sinkConfig);
+    for (const record of pending) {
+      const archiveFile = path.join(archivePath, record.archive);
+      if (!(await fileExists(archiveFile))) continue;
+
+      let destination: string;
+      try {
+        destination = await putArchive(sink, sinkConfig, archiveFile, record.sha256);
+      } catch (err) {
+        logArchive(logDir, `Failed to copy ${record.archive} to the archive sink: ${err}`);
+        logError(logDir, "archive", err, options.meta.error);
+        postError("archive", logDir, err);
+        return;
+      }
+
+      // Record the copy before deleting the local archive: a failed update keeps the archive,
+      // which is copied again on the next run
+      await updateManifest(logDir, archivePath, (manifest) => {
+        const copied = manifest.archives.find(
+          (r) => r.archive === record.archive && r.sha256 === record.sha256 && !r.deletedAt,
+        );
+        if (copied) {
+          copied.destination = destination;
+          if (sinkConfig.deleteLocal) {
+            copied.deletedAt = new Date().toISOString();
+          }
+        }
+      });
+
+      if (sinkConfig.deleteLocal) {
+        await fs.rm(archiveFile, { force: true });
+      }
+
+      postEvent("archive:upload", {
+        path: logDir,
+        archive: record.archive,
+        destination,
+        deletedLocal: sinkConfig.deleteLocal,
+      });
+
+      if (archive.logging) {
+        logArchive(logDir, `Copied ${record.archive} to ${destination}`);
+      }
+    }
+  } catch (err) {
+    logArchive(logDir, `Archive sink error: ${err}`);
+    logError(logDir, "archive", err, options.meta.error);
+    postError("archive", logDir, err);
+  }
+}
+
+/**
+ * Remove the temp archives generated from a template left in the archive directory.
+ */
+async function removeTempArchives(archivePath: string, template: string): Promise<void> {
+  for (const file of await fs.readdir(archivePath)) {
+    if (
+      file.startsWith(".") &&
+      file.endsWith(TEMP_ARCHIVE_SUFFIX) &&
+      isArchiveFilename(file.slice(1, -TEMP_ARCHIVE_SUFFIX.length), template)
+    ) {
+      await fs.rm(path.join(archivePath, file), { force: true });
+    }
   }
 }
 
 // Run if this is the worker entry point
+// The scheduler passes every file set this worker should process, with its lock token
 if (workerData) {
-  runArchiveWorker(workerData as ResolvedTransportOptions);
+  const jobs = workerData as WorkerJob[];
+  Promise.all(jobs.map(({ options, lockToken }) => runArchiveWorker(options, lockToken)));
 }
@@ -0,0 +1,364 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { workerData } from "node:worker_threads";
+import { x as extractTar, t as listTar } from "tar";
+import { releaseWorkerLock, startHeartbeat } from "../locks/worker";
+import type {
+  ArchiveRecord,
+  ConsolidationConfig,
+  DurationFormat,
+  ResolvedTransportOptions,
+  Timezone,
+  WorkerJob,
+} from "../types";
+import { createArchive, getUniqueArchiveFilename, verifyArchive } from "../utils/archive";
+import { abortWorker, postError, postEvent } from "../utils/events";
+import { ensureDir, fileExists, syncDir, syncFile } from "../utils/file";
+import { createArchiveRecord, hashFile, readManifest, updateManifest } from "../utils/manifest";
+import { logArchive, logError } from "../utils/meta-log";
+import {
+  ARCHIVE_EXTENSIONS,
+  isArchiveFilename,
+  matchArchiveFilename,
+  parseDuration,
+} from "../utils/parsing";
+import { getPartitionSets } from "../utils/routing";
+import { getCurrentArchivePeriod, getCutoffDate } from "../utils/time";
+
+/** Work directory of the worker in the archive directory (hidden, removed after each period) */
+const WORK_DIR = ".consolidation.tmp";
+
+/**
+ * Consolidation worker - merges old hourly archives into daily archives,
+ * and old hourly and daily archives into monthly archives.
+ * Updates heartbeat while running for crash detection.
+ */
+export async function runConsolidationWorker(
+  options: ResolvedTransportOptions,
+  lockToken?: string,
+): Promise<void> {
+  const { path: logDir } = options;
+
+  // Start heartbeat (a worker run directly holds no lock)
+  const heartbeatInterval = lockToken
+    ? startHeartbeat(
+        logDir,
+        "consolidation",
+        options.fileName,
+        lockToken,
+        options.locks.worker.heartbeatInterval,
+        () => {
+          const err = new Error(`Lost the consolidation lock of ${logDir}, stopping the worker`);
+          abortWorker("consolidation", logDir, err, options.meta.error);
+        },
+      )
+    : undefined;
+
+  try {
+    // Partitioned transports consolidate every partition directory
+    for (const set of await getPartitionSets(options)) {
+      await consolidateFileSet(set);
+    }
+  } catch (err) {
+    logArchive(logDir, `Consolidation worker error: ${err}`);
+    logError(logDir, "consolidation", err, options.meta.error);
+    postError("consolidation", logDir, err);
+  } finally {
+    // Stop heartbeat and release lock
+    clearInterval(heartbeatInterval);
+    if (lockToken) {
+      await releaseWorkerLock(logDir, "consolidation", options.fileName, lockToken);
+    }
+  }
+}
+
+/**
+ * Consolidate the old archives of one file set (a log directory).
+ */
+async function consolidateFileSet(options: ResolvedTransportOptions): Promise<void> {
+  const { path: logDir, archive } = options;
+  const archivePath = path.join(logDir, archive.path);
+
+  try {
+    if (archive.logging) {
+      logArchive(logDir, "Running consolidation worker");
+    }
+
+    if (!(await fileExists(archivePath))) {
+      if (archive.logging) {
+        logArchive(logDir, "No archives to consolidate");
+      }
+      return;
+    }
+
+    // Work directory left by a worker that died mid-consolidation (the lock is held: no other writer)
+    const workDir = path.join(archivePath, WORK_DIR);
+    await fs.rm(workDir, { recursive: true, force: true });
+
+    const files = (await fs.readdir(archivePath)).filter((f) =>
+      isArchiveFilename(f, archive.fileName),
+    );
+
+    // Sources of a consolidation that died before deleting them
+    const merged = await getMergedArchives(archivePath, files);
+    if (merged.length > 0) {
+      await Promise.all(merged.map((f) => fs.rm(path.join(archivePath, f), { force: true })));
+      if (archive.logging) {
+        logArchive(logDir, `Deleted ${merged.length} already consolidated archive(s)`);
+      }
+    }
+
+    const groups = groupArchivesByPeriod(
+      files.filter((f) => !merged.includes(f)),
+      options,
+    );
+    if (groups.size === 0) {
+      if (archive.logging) {
+        logArchive(logDir, "No archives to consolidate");
+      }
+      return;
+    }
+
+    if (archive.logging) {
+      logArchive(logDir, `Found ${groups.size} period(s) to consolidate`);
+    }
+
+    for (const period of [...groups.keys()].sort()) {
+      await consolidatePeriod(options, period, groups.get(period) as string[]);
+    }
+
+    if (archive.logging) {
+      logArchive(logDir, "Consolidation complete");
+    }
+  } catch (err) {
+    logArchive(logDir, `Consolidation worker error: ${err}`);
+    logError(logDir, "consolidation", err, options.meta.error);
+    postError("consolidation", logDir, err);
+  }
+}
+
+/**
+ * Merge the archives of a day or month into one archive.
+ * The sources are deleted once the new archive is verified and in place.
+ */
+async function consolidatePeriod(
+  options: ResolvedTransportOptions,
+  period: string,
+  sources: string[],
+): Promise<void> {
+  const { path: logDir, archive } = options;
+  const archivePath = path.join(logDir, archive.path);
+  const workDir = path.join(archivePath, WORK_DIR);
+  const filesDir = path.join(workDir, "files");
+
+  // Generate unique archive filename (across compression formats)
+  const archiveFileName = await getUniqueArchiveFilename(archivePath, period, archive);
+  const tempPath = path.join(workDir, archiveFileName);
+
+  if (archive.logging) {
+    logArchive(
+      logDir,
+      `Consolidating ${sources.length} archives for ${period} → ${archiveFileName}`,
+    );
+  }
+
+  let record: ArchiveRecord;
+  try {
+    await ensureDir(filesDir);
+    const entries = await extractArchives(archivePath, sources, workDir, filesDir);
+
+    // Repack and check the new archive against the extracted files before anything is deleted
+    const snapshots = await createArchive(tempPath, filesDir, entries, archive);
+    await verifyArchive(tempPath, snapshots, archive.compression);
+    record = await createArchiveRecord(tempPath, filesDir, {
+      archive: archiveFileName,
+      period,
+      compression: archive.compression,
+      files: entries,
+      snapshots,
+    });
+    // Flush the new archive, and its rename, before the source archives are deleted
+    await syncFile(tempPath);
+    await fs.rename(tempPath, path.join(archivePath, archiveFileName));
+    await syncDir(archivePath);
+  } finally {
+    // The source archives are kept on failure and consolidated again on the next run
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+
+  // Record the new archive and its merged sources in the manifest (non-fatal)
+  try {
+    await updateManifest(logDir, archivePath, (manifest) => {
+      const deletedAt = new Date().toISOString();
+      for (const source of manifest.archives) {
+        if (!source.deletedAt && sources.includes(source.archive)) {
+          source.deletedAt = deletedAt;
+          source.consolidatedInto = archiveFileName;
+        }
+      }
+      manifest.archives.push(record);
+    });
+  } catch (err) {
+    logArchive(logDir, `Failed to update archive manifest: ${err}`);
+    logError(logDir, "consolidation", err, options.meta.error);
+    postError("consolidation", logDir, err);
+  }
+
+  // Delete the source archives (retention may have deleted some meanwhile)
+  await Promise.all(sources.map((f) => fs.rm(path.join(archivePath, f), { force: true })));
+
+  postEvent("archive:consolidate", {
+    path: logDir,
+    period,
+    sources,
+    archive: archiveFileName,
+    bytes: record.compressedBytes,
+  });
+
+  if (archive.logging) {
+    logArchive(logDir, `Consolidated ${sources.length} archives to ${archiveFileName}`);
+  }
+}
+
+/**
+ * Extract the entries of the source archives into one directory.
+ * Entries whose name is already taken by a previous source are stored under
+ * `<source archive>/<entry>`, so no file is lost.
+ * Returns the entry paths, relative to the directory.
+ */
+async function extractArchives(
+  archivePath: string,
+  sources: string[],
+  workDir: string,
+  filesDir: string,
+): Promise<string[]> {
+  const entries: string[] = [];
+  const sourceDir = path.join(workDir, "source");
+
+  for (const source of sources) {
+    const file = path.join(archivePath, source);
+    // Brotli has no magic bytes: it is only detected from the extension
+    const brotli = source.endsWith(ARCHIVE_EXTENSIONS.brotli);
+
+    const names: string[] = [];
+    await listTar({
+      file,
+      brotli,
+      strict: true,
+      onReadEntry: (entry) => {
+        if (entry.type !== "Directory") {
+          names.push(entry.path);
+        }
+      },
+    });
+
+    await ensureDir(sourceDir);
+    await extractTar({ file, brotli, strict: true, cwd: sourceDir });
+
+    for (const name of names) {
+      const entry = entries.includes(name) ? `${source}/${name}` : name;
+      const target = path.join(filesDir, entry);
+      await ensureDir(path.dirname(target));
+      await fs.rename(path.join(sourceDir, name), target);
+      entries.push(entry);
+    }
+
+    await fs.rm(sourceDir, { recursive: true, force: true });
+  }
+
+  return entries;
+}
+
+/**
+ * Group the archives old enough to be consolidated by the period they are merged into.
+ * Archives old enough for the monthly tier skip the daily tier.
+ */
+function groupArchivesByPeriod(
+  files: string[],
+  options: ResolvedTransportOptions,
+): Map<string, string[]> {
+  const { archive, timezone } = options;
+  const { daily, monthly } = archive.consolidation as ConsolidationConfig;
+  const now = new Date();
+
+  // Days and months before these periods are old enough
+  const dailyCutoff = daily && getCutoffPeriod("daily", daily, timezone, now);
+  const monthlyCutoff = monthly && getCutoffPeriod("monthly", monthly, timezone, now);
+
+  // Oldest first: an entry name taken twice keeps its name in the first archive
+  const archives = files
+    .map((file) => ({ file, ...matchArchiveFilename(file, archive.fileName) }))
+    .filter((match): match is { file: string; period: string; counter: number } => !!match.period)
+    .sort((a, b) => a.period.localeCompare(b.period) || a.counter - b.counter);
+
+  const groups = new Map<string, string[]>();
+  for (const { file, period } of archives) {
+    const day = period.slice(0, 10);
+    const month = period.slice(0, 7);
+    let target: string | undefined;
+
+    // Hourly (YYYY-MM-DD~HH) and daily (YYYY-MM-DD) archives merge into monthly archives
+    if (monthlyCutoff && period !== month && month < monthlyCutoff) {
+      target = month;
+    } else if (dailyCutoff && period !== day && day < dailyCutoff) {
+      // Hourly archives merge into daily archives
+      target = day;
+    }
+    if (!target) continue;
+
+    const group = groups.get(target) ?? [];
+    group.push(file);
+    groups.set(target, group);
+  }
+
+  return groups;
+}
+
+/**
+ * Get the period of the cutoff date of a consolidation tier.
+ */
+function getCutoffPeriod(
+  frequency: "daily" | "monthly",
+  duration: DurationFormat,
+  timezone: Timezone,
+  now: Date,
+): string {
+  const { value, unit } = parseDuration(duration);
+  return getCurrentArchivePeriod(frequency, timezone, getCutoffDate(now, value, unit, timezone));
+}
+
+/**
+ * Get the archives the manifest records as consolidated into an existing archive.
+ * The checksum guards against a newer archive that reused the name.
+ */
+async function getMergedArchives(archivePath: string, files: string[]): Promise<string[]> {
+  let records: ArchiveRecord[];
+  try {
+    records = (await readManifest(archivePath)).archives;
+  } catch {
+    // Unreadable manifest: nothing is known to be merged
+    return [];
+  }
+
+  const merged: string[] = [];
+  for (const record of records) {
+    const { archive: file, consolidatedInto } = record;
+    if (
+      consolidatedInto &&
+      files.includes(file) &&
+      !merged.includes(file) &&
+      files.includes(consolidatedInto) &&
+      (await hashFile(path.join(archivePath, file))) === record.sha256
+    ) {
+      merged.push(file);
+    }
+  }
+  return merged;
+}
+
+// Run if this is the worker entry point
+// The scheduler passes every file set this worker should process, with its lock token
+if (workerData) {
+  const jobs = workerData as WorkerJob[];
+  Promise.all(jobs.map(({ options, lockToken }) => runConsolidationWorker(options, lockToken)));
+}
@@ -3,9 +3,11 @@ import path from "node:path";
 import { workerData } from "node:worker_threads";
 import { META_DIR, META_SUBDIRS } from "../config";
 import { releaseWorkerLock, startHeartbeat } from "../locks/worker";
-import type { ResolvedTransportOptions } from "../types";
+import type { ResolvedTransportOptions, WorkerJob } from "../types";
+import { abortWorker, postError } from "../utils/events";
 import { fileExists } from "../utils/file";
 import { logError, logMeta } from "../utils/meta-log";
+import { getPartitionSets } from "../utils/routing";
 import { getCutoffDate } from "../utils/time";
 
 /**
@@ -24,11 +26,50 @@ function parseMetaLogDate(filename: string): Date | null {
  * Meta cleanup worker - deletes old meta log files.
  * Updates heartbeat while running for crash detection.
  */
-export async function runMetaWorker(options: ResolvedTransportOptions): Promise<void> {
-  const { path: logDir, meta } = options;
+export async function runMetaWorker(
+  options: ResolvedTransportOptions,
+  lockToken?: string,
+): Promise<void> {
+  const { path: logDir } = options;
+
+  // Start heartbeat (a worker run directly holds no lock)
+  const heartbeatInterval = lockToken
+    ? startHeartbeat(
+        logDir,
+        "meta",
+        options.fileName,
+        lockToken,
+        options.locks.worker.heartbeatInterval,
+        () => {
+          const err = new Error(`Lost the meta lock of ${logDir}, stopping the worker`);
+          abortWorker("meta", logDir, err, options.meta.error);
+        },
+      )
+    : undefined;
 
-  // Start heartbeat
-  const heartbeatInterval = startHeartbeat(logDir, "meta");
+  try {
+    // Partitioned transports also have meta logs in every partition directory
+    for (const set of await getPartitionSets(options, true)) {
+      await cleanupMetaLogs(set);
+    }
+  } catch (err) {
+    logMeta(logDir, `Meta cleanup worker error: ${err}`);
+    logError(logDir, "meta", err, options.meta.error);
+    postError("meta", logDir, err);
+  } finally {
+    // Stop heartbeat and release lock
+    clearInterval(heartbeatInterval);
+    if (lockToken) {
+      await releaseWorkerLock(logDir, "meta", options.fileName, lockToken);
+    }
+  }
+}
+
+/**
+ * Delete the expired meta logs of one log directory.
+ */
+async function cleanupMetaLogs(options: ResolvedTransportOptions): Promise<void> {
+  const { path: logDir, meta } = options;
 
   try {
     const metaDir = path.join(logDir, META_DIR);
@@ -80,12 +121,14 @@ export async function runMetaWorker(options: ResolvedTransportOptions): Promise<
             } catch (err) {
               logMeta(logDir, `Failed to delete meta log ${subdir}/${file}: ${err}`);
               logError(logDir, "meta", err, meta.error);
+              postError("meta", logDir, err);
             }
           }
         }
       } catch (err) {
         logMeta(logDir, `Failed to read meta subdirectory ${subdir}: ${err}`);
         logError(logDir, "meta", err, meta.error);
+        postError("meta", logDir, err);
       }
     }
 
@@ -99,14 +142,13 @@ export async function runMetaWorker(options: ResolvedTransportOptions): Promise<
   } catch (err) {
     logMeta(logDir, `Meta cleanup worker error: ${err}`);
     logError(logDir, "meta", err, meta.error);
-  } finally {
-    // Stop heartbeat and release lock
-    clearInterval(heartbeatInterval);
-    await releaseWorkerLock(logDir, "meta");
+    postError("meta", logDir, err);
   }
 }
 
 // Run if this is the worker entry point
+// The scheduler passes every file set this worker should process, with its lock token
 if (workerData) {
-  runMetaWorker(workerData as ResolvedTransportOptions);
+  const jobs = workerData as WorkerJob[];
+  Promise.all(jobs.map(({ options, lockToken }) => runMetaWorker(options, lockToken)));
 }
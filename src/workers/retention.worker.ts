@@ -1,95 +1,208 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { workerData } from "node:worker_threads";
+import { TRASH_DIR } from "../config";
 import { releaseWorkerLock, startHeartbeat } from "../locks/worker";
-import type { ResolvedTransportOptions } from "../types";
-import { fileExists } from "../utils/file";
+import type {
+  ResolvedRetentionPolicy,
+  ResolvedTransportOptions,
+  Timezone,
+  WorkerJob,
+} from "../types";
+import { abortWorker, postError, postEvent } from "../utils/events";
+import { ensureDir, fileExists } from "../utils/file";
+import { isHeld, type PeriodRange, readLegalHolds } from "../utils/hold";
+import { updateManifest } from "../utils/manifest";
 import { logError, logRetention } from "../utils/meta-log";
-import { parseArchiveFilename, parseDuration, parseLogFilename } from "../utils/parsing";
+import { parseDuration } from "../utils/parsing";
+import {
+  formatTrashBatch,
+  getRetentionLimits,
+  hasRetentionPolicy,
+  isRetentionPolicyActive,
+  listArchiveFiles,
+  listLogFiles,
+  parseTrashBatch,
+  selectExpiredEntries,
+} from "../utils/retention";
+import { getPartitionSets } from "../utils/routing";
 import { getCutoffDate } from "../utils/time";
 
 /**
- * Retention worker - deletes old log files and archives.
+ * Retention worker - deletes or trashes old log files and archives by age, count and size.
  * Updates heartbeat while running for crash detection.
  */
-export async function runRetentionWorker(options: ResolvedTransportOptions): Promise<void> {
-  const { path: logDir, archive, retention } = options;
+export async function runRetentionWorker(
+  options: ResolvedTransportOptions,
+  lockToken?: string,
+): Promise<void> {
+  const { path: logDir, retention } = options;
 
-  // No duration configured - nothing to do
-  if (!retention.duration) {
+  // No retention policy configured - nothing to do
+  if (!hasRetentionPolicy(retention)) {
     return;
   }
 
-  // Start heartbeat
-  const heartbeatInterval = startHeartbeat(logDir, "retention");
+  // Start heartbeat (a worker run directly holds no lock)
+  const heartbeatInterval = lockToken
+    ? startHeartbeat(
+        logDir,
+        "retention",
+        options.fileName,
+        lockToken,
+        options.locks.worker.heartbeatInterval,
+        () => {
+          const err = new Error(`Lost the retention lock of ${logDir}, stopping the worker`);
+          abortWorker("retention", logDir, err, options.meta.error);
+        },
+      )
+    : undefined;
+
+  try {
+    // Partitioned transports apply retention to every partition directory
+    for (const set of await getPartitionSets(options)) {
+      await applyRetention(set);
+    }
+  } catch (err) {
+    logRetention(logDir, `Retention worker error: ${err}`);
+    logError(logDir, "retention", err, options.meta.error);
+    postError("retention", logDir, err);
+  } finally {
+    // Stop heartbeat and release lock
+    clearInterval(heartbeatInterval);
+    if (lockToken) {
+      await releaseWorkerLock(logDir, "retention", options.fileName, lockToken);
+    }
+  }
+}
+
+/**
+ * Delete the expired logs and archives of one file set (a log directory), or move them to the
+ * trash, then purge the trashed files whose grace period is over.
+ * The log files and the archives each have their own retention policy. Files overlapping
+ * a legal hold are never deleted.
+ */
+async function applyRetention(options: ResolvedTransportOptions): Promise<void> {
+  const { path: logDir, timezone, archive, retention } = options;
 
   try {
-    const { value, unit } = parseDuration(retention.duration);
     const now = new Date();
-    const cutoffDate = getCutoffDate(now, value, unit);
+    const archivePath = path.join(logDir, archive.path);
+    const trashed = retention.mode === "trash";
+    // Files trashed by this run share a directory named after the run time
+    const trashBatch = path.join(logDir, TRASH_DIR, formatTrashBatch(now));
+
+    // An invalid hold stops retention for the directory: nothing is deleted
+    const holds = await readLegalHolds(logDir, archivePath);
 
     if (retention.logging) {
       logRetention(
         logDir,
-        `Running retention worker (duration: ${retention.duration}) - deleting files older than ${cutoffDate.toISOString()}`,
+        `Running retention worker (mode: ${retention.mode}, ` +
+          `logs: ${describePolicy(retention.logs, timezone, now)}; ` +
+          `archives: ${describePolicy(retention.archives, timezone, now)})`,
       );
     }
 
+    // Process log files: the newest one is being written and held files are kept,
+    // they count towards the limits but are never deleted
+    const logFiles = isRetentionPolicyActive(retention.logs)
+      ? await listLogFiles(options, logDir)
+      : [];
+    const activeLog = logFiles.pop();
+    const heldLogs = logFiles.filter((entry) => isHeld(holds, entry.range));
     let deletedLogs = 0;
-    let deletedArchives = 0;
-
-    // Process log files
-    const logFiles = (await fs.readdir(logDir)).filter((f) => f.endsWith(".log"));
-
-    for (const file of logFiles) {
-      const fileDate = parseLogFilename(file);
-      if (!fileDate) continue;
-
-      if (fileDate < cutoffDate) {
-        const filePath = path.join(logDir, file);
-        try {
-          await fs.unlink(filePath);
-          deletedLogs++;
-          if (retention.logging) {
-            logRetention(logDir, `Deleted log file: ${file}`);
-          }
-        } catch (err) {
-          logRetention(logDir, `Failed to delete log file ${file}: ${err}`);
-          logError(logDir, "retention", err, options.meta.error);
+
+    for (const { entry, reason } of selectExpiredEntries(
+      logFiles.filter((entry) => !heldLogs.includes(entry)),
+      getRetentionLimits(retention.logs, timezone, now),
+      activeLog ? [...heldLogs, activeLog] : heldLogs,
+    )) {
+      try {
+        await removeFile(
+          path.join(logDir, entry.file),
+          trashed ? path.join(trashBatch, entry.file) : undefined,
+        );
+        deletedLogs++;
+        postEvent("retention:delete", {
+          path: logDir,
+          file: entry.file,
+          type: "log",
+          reason,
+          trashed,
+        });
+        if (retention.logging) {
+          logRetention(
+            logDir,
+            `${trashed ? "Trashed" : "Deleted"} log file: ${entry.file} (${reason})`,
+          );
         }
+      } catch (err) {
+        logRetention(logDir, `Failed to delete log file ${entry.file}: ${err}`);
+        logError(logDir, "retention", err, options.meta.error);
+        postError("retention", logDir, err);
       }
     }
 
     // Process archive files
-    const archivePath = path.join(logDir, archive.path);
-    if (await fileExists(archivePath)) {
-      const archiveFiles = (await fs.readdir(archivePath)).filter((f) => f.endsWith(".tar.gz"));
-
-      for (const file of archiveFiles) {
-        const fileDate = parseArchiveFilename(file);
-        if (!fileDate) continue;
-
-        if (fileDate < cutoffDate) {
-          const filePath = path.join(archivePath, file);
-          try {
-            await fs.unlink(filePath);
-            deletedArchives++;
-            if (retention.logging) {
-              logRetention(logDir, `Deleted archive file: ${file}`);
-            }
-          } catch (err) {
-            logRetention(logDir, `Failed to delete archive file ${file}: ${err}`);
-            logError(logDir, "retention", err, options.meta.error);
-          }
+    const archiveFiles = isRetentionPolicyActive(retention.archives)
+      ? await listArchiveFiles(options, archivePath)
+      : [];
+    const heldArchives = archiveFiles.filter((entry) => isHeld(holds, entry.range));
+    const deletedArchives: string[] = [];
+
+    for (const { entry, reason } of selectExpiredEntries(
+      archiveFiles.filter((entry) => !heldArchives.includes(entry)),
+      getRetentionLimits(retention.archives, timezone, now),
+      heldArchives,
+    )) {
+      try {
+        await removeFile(
+          path.join(archivePath, entry.file),
+          trashed ? path.join(trashBatch, archive.path, entry.file) : undefined,
+        );
+        deletedArchives.push(entry.file);
+        postEvent("retention:delete", {
+          path: logDir,
+          file: entry.file,
+          type: "archive",
+          reason,
+          trashed,
+        });
+        if (retention.logging) {
+          logRetention(
+            logDir,
+            `${trashed ? "Trashed" : "Deleted"} archive file: ${entry.file} (${reason})`,
+          );
         }
+      } catch (err) {
+        logRetention(logDir, `Failed to delete archive file ${entry.file}: ${err}`);
+        logError(logDir, "retention", err, options.meta.error);
+        postError("retention", logDir, err);
       }
     }
 
+    // Keep the records of deleted archives in the manifest, for auditing
+    if (deletedArchives.length > 0) {
+      await markArchivesDeleted(options, archivePath, deletedArchives);
+    }
+
+    // Files trashed in an earlier run (or mode) are purged whatever the current mode
+    const purged = await purgeTrash(options, holds, now);
+
+    postEvent("retention:complete", {
+      path: logDir,
+      deletedLogs,
+      deletedArchives: deletedArchives.length,
+      purged,
+    });
+
     if (retention.logging) {
-      if (deletedLogs > 0 || deletedArchives > 0) {
+      if (deletedLogs > 0 || deletedArchives.length > 0 || purged > 0) {
         logRetention(
           logDir,
-          `Retention complete: deleted ${deletedLogs} logs, ${deletedArchives} archives`,
+          `Retention complete: ${trashed ? "trashed" : "deleted"} ${deletedLogs} logs, ` +
+            `${deletedArchives.length} archives, purged ${purged} trashed files`,
         );
       } else {
         logRetention(logDir, "Retention complete: no files to delete");
@@ -98,14 +211,137 @@ export async function runRetentionWorker(options: ResolvedTransportOptions): Pro
   } catch (err) {
     logRetention(logDir, `Retention worker error: ${err}`);
     logError(logDir, "retention", err, options.meta.error);
-  } finally {
-    // Stop heartbeat and release lock
-    clearInterval(heartbeatInterval);
-    await releaseWorkerLock(logDir, "retention");
+    postError("retention", logDir, err);
+  }
+}
+
+/**
+ * Delete a file, or move it to the trash if a trash path is given.
+ */
+async function removeFile(filePath: string, trashPath: string | undefined): Promise<void> {
+  if (!trashPath) {
+    await fs.unlink(filePath);
+    return;
+  }
+  await ensureDir(path.dirname(trashPath));
+  await fs.rename(filePath, trashPath);
+}
+
+/**
+ * Purge the trashed files whose grace period is over, except the held ones.
+ * Returns the number of purged files.
+ */
+async function purgeTrash(
+  options: ResolvedTransportOptions,
+  holds: PeriodRange[],
+  now: Date,
+): Promise<number> {
+  const { path: logDir, timezone, archive, retention } = options;
+  const trashPath = path.join(logDir, TRASH_DIR);
+  if (!(await fileExists(trashPath))) {
+    return 0;
+  }
+
+  const { value, unit } = parseDuration(retention.gracePeriod);
+  const cutoffDate = getCutoffDate(now, value, unit, timezone);
+  let purged = 0;
+
+  for (const batch of await fs.readdir(trashPath)) {
+    const trashedAt = parseTrashBatch(batch);
+    if (!trashedAt || trashedAt >= cutoffDate) continue;
+
+    const batchDir = path.join(trashPath, batch);
+    const archiveDir = path.join(batchDir, archive.path);
+    const files = [
+      ...(await listLogFiles(options, batchDir)).map((entry) => ({
+        entry,
+        dir: batchDir,
+        type: "log" as const,
+      })),
+      ...(await listArchiveFiles(options, archiveDir)).map((entry) => ({
+        entry,
+        dir: archiveDir,
+        type: "archive" as const,
+      })),
+    ];
+
+    for (const { entry, dir, type } of files) {
+      if (isHeld(holds, entry.range)) continue;
+
+      const file = path.relative(trashPath, path.join(dir, entry.file));
+      try {
+        await fs.unlink(path.join(dir, entry.file));
+        purged++;
+        postEvent("retention:purge", { path: logDir, file, type });
+        if (retention.logging) {
+          logRetention(logDir, `Purged trashed file: ${file}`);
+        }
+      } catch (err) {
+        logRetention(logDir, `Failed to purge trashed file ${file}: ${err}`);
+        logError(logDir, "retention", err, options.meta.error);
+        postError("retention", logDir, err);
+      }
+    }
+
+    // Remove the batch once empty (held files keep it)
+    for (const dir of [archiveDir, batchDir]) {
+      await fs.rmdir(dir).catch(() => {});
+    }
+  }
+
+  return purged;
+}
+
+/**
+ * Describe a retention policy for the meta log.
+ */
+function describePolicy(policy: ResolvedRetentionPolicy, timezone: Timezone, now: Date): string {
+  const limits = getRetentionLimits(policy, timezone, now);
+  const parts: string[] = [];
+  if (limits.cutoff) {
+    parts.push(
+      `duration: ${policy.duration} - deleting files older than ${limits.cutoff.toISOString()}`,
+    );
+  }
+  if (limits.maxFiles !== undefined) {
+    parts.push(`maxFiles: ${limits.maxFiles}`);
+  }
+  if (limits.maxTotalSize !== undefined) {
+    parts.push(`maxTotalSize: ${limits.maxTotalSize} bytes`);
+  }
+  return parts.join(", ") || "none";
+}
+
+/**
+ * Mark deleted archives in the archive manifest.
+ * Failures are logged: the archives are deleted either way.
+ */
+async function markArchivesDeleted(
+  options: ResolvedTransportOptions,
+  archivePath: string,
+  files: string[],
+): Promise<void> {
+  const { path: logDir } = options;
+  const deletedAt = new Date().toISOString();
+
+  try {
+    await updateManifest(logDir, archivePath, (manifest) => {
+      for (const record of manifest.archives) {
+        if (!record.deletedAt && files.includes(record.archive)) {
+          record.deletedAt = deletedAt;
+        }
+      }
+    });
+  } catch (err) {
+    logRetention(logDir, `Failed to update archive manifest: ${err}`);
+    logError(logDir, "retention", err, options.meta.error);
+    postError("retention", logDir, err);
   }
 }
 
 // Run if this is the worker entry point
+// The scheduler passes every file set this worker should process, with its lock token
 if (workerData) {
-  runRetentionWorker(workerData as ResolvedTransportOptions);
+  const jobs = workerData as WorkerJob[];
+  Promise.all(jobs.map(({ options, lockToken }) => runRetentionWorker(options, lockToken)));
 }
@@ -1,7 +1,14 @@
 /** biome-ignore-all assist/source/organizeImports: who cares about imports order here */
 import fs from "node:fs/promises";
+import nodeFs from "node:fs";
+import os from "node:os";
 import path from "node:path";
-import { describe, expect, it } from "bun:test";
+import http from "node:http";
+import zlib from "node:zlib";
+import { createHash } from "node:crypto";
+import { spawn } from "node:child_process";
+import * as tar from "tar";
+import { describe, expect, it, spyOn } from "bun:test";
 import pino from "pino";
 import SonicBoom from "sonic-boom";
 import {
@@ -10,10 +17,13 @@ import {
 } from "../src/utils/file";
 import {
   parseDuration,
+  parseSize,
   parseLogFilename,
   parseArchiveFilename,
   getFilePeriod,
   getArchiveFilename,
+  getOverflowPattern,
+  generateOverflowFilename,
 } from "../src/utils/parsing";
 import {
   frequencyToHours,
@@ -22,13 +32,41 @@ import {
   getMondayOfWeek,
   getCurrentArchivePeriod,
   getCurrentRotationPeriod,
+  fromZonedParts,
+  getZonedParts,
 } from "../src/utils/time";
 import { fileURLToPath } from "node:url";
 import createTransport, { type TransportOptions } from "../src";
+import { createArchive, verifyArchive } from "../src/utils/archive";
 import { runArchiveWorker } from "../src/workers/archive.worker";
+import { runConsolidationWorker } from "../src/workers/consolidation.worker";
 import { runRetentionWorker } from "../src/workers/retention.worker";
-import type { ResolvedTransportOptions } from "../src/types";
-import { DEFAULT_OPTIONS } from "../src/config";
+import { selectExpiredEntries } from "../src/utils/retention";
+import { getPeriodRange, isHeld, type PeriodRange } from "../src/utils/hold";
+import type {
+  ArchiveCompleteEvent,
+  ArchiveConsolidateEvent,
+  ArchiveRecord,
+  ArchiveStartEvent,
+  EmitEvent,
+  ResolvedTransportOptions,
+  RotateEvent,
+} from "../src/types";
+import { DEFAULT_LEVELS, DEFAULT_OPTIONS, LOCK_PATHS, LOCK_SETTINGS } from "../src/config";
+import { tryAcquireDirectoryLock } from "../src/locks/directory";
+import { getManifestLockPath, withManifestLock } from "../src/locks/manifest";
+import { createFieldParser, parseLevel, sanitizePartitionName } from "../src/utils/routing";
+import {
+  checkStaleLock,
+  getWorkerLockPath,
+  readWorkerLock,
+  releaseWorkerLock,
+  tryAcquireWorkerLock,
+  updateWorkerHeartbeat,
+} from "../src/locks/worker";
+import { emitEventMessage } from "../src/utils/events";
+import * as fileModule from "../src/utils/file";
+import * as workerPathModule from "../src/utils/worker-path";
 
 // Get absolute path to dist for pino.transport()
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -37,7 +75,8 @@ const TRANSPORT_TARGET = path.resolve(__dirname, "../dist/index.js");
 const TEST_LOG_BASE_DIR = "./logs/test";
 const TEST_ARCHIVE_DIR = "archives";
 
-const todayDate = new Date().toISOString().slice(0, 10);
+// The transport uses the host's local timezone by default
+const todayDate = getCurrentRotationPeriod("daily");
 const currentHour = String(new Date().getHours()).padStart(2, "0");
 const todayFile = `${todayDate}.log`;
 const hourlyFile = `${todayDate}~${currentHour}.log`;
@@ -47,6 +86,10 @@ const getTestLogDir = (testNum: string) => path.join(TEST_LOG_BASE_DIR, `test-${
 const getTodayFilePath = (testNum: string) => path.join(getTestLogDir(testNum), todayFile);
 const getHourlyFilePath = (testNum: string) => path.join(getTestLogDir(testNum), hourlyFile);
 
+// Helper to list an archive directory without its manifest
+const readArchiveDir = async (dir: string) =>
+  (await fs.readdir(dir)).filter((f) => f !== "index.json");
+
 // Helper to create options
 const createOptions = (testNum: string, options: Partial<TransportOptions> = {}): TransportOptions => ({
   path: getTestLogDir(testNum),
@@ -57,21 +100,29 @@ const createOptions = (testNum: string, options: Partial<TransportOptions> = {})
 });
 
 // Helper to create resolved options for worker tests
-const createResolvedOptions = (testNum: string, options: Partial<TransportOptions> = {}): ResolvedTransportOptions => ({
-  path: getTestLogDir(testNum),
-  rotation: {
-    ...DEFAULT_OPTIONS.rotation,
-    ...options.rotation,
-  },
-  archive: {
-    ...DEFAULT_OPTIONS.archive,
-    ...options.archive,
-  },
-  retention: {
-    ...DEFAULT_OPTIONS.retention,
-    ...options.retention,
-  },
-});
+// (top-level retention fields apply to the logs and archives policies, sizes are in bytes)
+const createResolvedOptions = (testNum: string, options: Partial<TransportOptions> = {}): ResolvedTransportOptions => {
+  const { logs, archives, mode, gracePeriod, logging, ...policy } = options.retention ?? {};
+  return {
+    ...DEFAULT_OPTIONS,
+    path: getTestLogDir(testNum),
+    rotation: {
+      ...DEFAULT_OPTIONS.rotation,
+      ...options.rotation,
+    },
+    archive: {
+      ...DEFAULT_OPTIONS.archive,
+      ...options.archive,
+    },
+    retention: {
+      logs: { ...DEFAULT_OPTIONS.retention.logs, ...policy, ...logs },
+      archives: { ...DEFAULT_OPTIONS.retention.archives, ...policy, ...archives },
+      mode: mode ?? DEFAULT_OPTIONS.retention.mode,
+      gracePeriod: gracePeriod ?? DEFAULT_OPTIONS.retention.gracePeriod,
+      logging: logging ?? DEFAULT_OPTIONS.retention.logging,
+    },
+  };
+};
 
 // Cleanup test directory before tests
 try {
@@ -136,6 +187,12 @@ describe("Pino File Transport - Direct API", () => {
       createTransport({});
     }).toThrow(/'path' option is required/);
   });
+
+  it("19 - should throw error for an invalid timezone", () => {
+    expect(() => {
+      createTransport({ ...createOptions("19"), timezone: "Mars/Olympus_Mons" });
+    }).toThrow(/Invalid 'timezone' option/);
+  });
 });
 
 describe("Pino File Transport - With pino.transport()", () => {
@@ -314,6 +371,36 @@ describe("Pino File Transport - With pino.transport()", () => {
 
     stream.end();
   });
+
+  it("107 - should keep writing after a worker error, which is not an `error` event", async () => {
+    const logDir = getTestLogDir("107");
+    await fs.mkdir(logDir, { recursive: true });
+    // An invalid legal hold fails the retention run started on creation
+    await fs.writeFile(path.join(logDir, ".hold"), "not-a-period\n");
+
+    const transport = pino.transport({
+      target: TRANSPORT_TARGET,
+      options: createOptions("107", { retention: { duration: "7d" } }),
+    });
+    const logger = pino(transport);
+    logger.info("before the retention run");
+
+    const errorDir = path.join(logDir, ".meta", "error");
+    const start = Date.now();
+    while (!(await fileExists(errorDir)) && Date.now() - start < 5_000) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    logger.info("after the retention run");
+    const closed = new Promise((resolve) => transport.once("close", resolve));
+    transport.end();
+    await closed;
+
+    const content = await fs.readFile(getTodayFilePath("107"), "utf-8");
+    expect(content).toContain("before the retention run");
+    expect(content).toContain("after the retention run");
+    const errorLog = await fs.readFile(path.join(errorDir, (await fs.readdir(errorDir))[0]), "utf-8");
+    expect(errorLog).toContain("not-a-period");
+  });
 });
 
 describe("Archive Worker", () => {
@@ -593,7 +680,7 @@ describe("Archive + Retention Integration", () => {
     expect(filesAfterArchive).not.toContain(recentFile);
 
     // Archive folder should exist with archives
-    const archivesAfterArchive = await fs.readdir(archivePath);
+    const archivesAfterArchive = await readArchiveDir(archivePath);
     expect(archivesAfterArchive.length).toBe(3);
 
     // Verify all expected archives were created
@@ -604,7 +691,7 @@ describe("Archive + Retention Integration", () => {
     // Step 2: Run retention worker - should delete archives older than 14 days
     await runRetentionWorker(resolvedOptions);
 
-    const archivesAfterRetention = await fs.readdir(archivePath);
+    const archivesAfterRetention = await readArchiveDir(archivePath);
 
     // Very old archive (20 days) should be deleted
     expect(archivesAfterRetention.some((f) => f.startsWith(veryOldDateStr))).toBe(false);
@@ -619,223 +706,3300 @@ describe("Archive + Retention Integration", () => {
   });
 });
 
-describe("Duration Utility Functions", () => {
-  it("should parse duration strings correctly", () => {
-    expect(parseDuration("12h")).toEqual({ value: 12, unit: "h" });
-    expect(parseDuration("7d")).toEqual({ value: 7, unit: "d" });
-    expect(parseDuration("2w")).toEqual({ value: 2, unit: "w" });
-    expect(parseDuration("3m")).toEqual({ value: 3, unit: "m" });
-    expect(parseDuration("1y")).toEqual({ value: 1, unit: "y" });
-  });
+describe("Filename Templates", () => {
+  it("20 - should write logs using a custom filename template", async () => {
+    const logDir = getTestLogDir("20");
+    const stream = createTransport({ ...createOptions("20"), fileName: "api-{date}{hour?}.ndjson" });
 
-  it("should throw error for invalid duration format", () => {
-    //@ts-expect-error - Invalid format
-    expect(() => parseDuration("invalid")).toThrow(/Invalid duration format/);
-    //@ts-expect-error - Invalid format
-    expect(() => parseDuration("7")).toThrow(/Invalid duration format/);
-    //@ts-expect-error - Invalid format
-    expect(() => parseDuration("d7")).toThrow(/Invalid duration format/);
-    //@ts-expect-error - Invalid format
-    expect(() => parseDuration("")).toThrow(/Invalid duration format/);
-  });
+    const logger = pino(stream);
+    logger.info("Custom template log line");
 
-  it("should convert duration to hours correctly", () => {
-    expect(durationToHours(1, "h")).toBe(1);
-    expect(durationToHours(24, "h")).toBe(24);
-    expect(durationToHours(1, "d")).toBe(24);
-    expect(durationToHours(7, "d")).toBe(168);
-    expect(durationToHours(1, "w")).toBe(168);
-    expect(durationToHours(1, "m")).toBe(744);
-    expect(durationToHours(1, "y")).toBe(8784);
-  });
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 300));
 
-  it("should convert frequency to hours correctly", () => {
-    expect(frequencyToHours("hourly")).toBe(1);
-    expect(frequencyToHours("daily")).toBe(24);
-    expect(frequencyToHours("weekly")).toBe(168);
-    expect(frequencyToHours("monthly")).toBe(744);
-  });
-});
+    const content = await fs.readFile(path.join(logDir, `api-${todayDate}.ndjson`), "utf-8");
+    expect(content).toContain("Custom template log line");
 
-describe("Archive Utility Functions", () => {
-  it("should get Monday of week correctly", () => {
-    expect(getMondayOfWeek(new Date(2024, 11, 4))).toBe("2024-12-02");
-    expect(getMondayOfWeek(new Date(2024, 11, 8))).toBe("2024-12-02");
-    expect(getMondayOfWeek(new Date(2024, 11, 2))).toBe("2024-12-02");
-    expect(getMondayOfWeek(new Date(2024, 11, 7))).toBe("2024-12-02");
+    stream.end();
   });
 
-  it("should generate archive filename correctly", () => {
-    expect(getArchiveFilename("2024-12")).toBe("2024-12-archive.tar.gz");
-    expect(getArchiveFilename("2024-12-03")).toBe("2024-12-03-archive.tar.gz");
-    expect(getArchiveFilename("2024-12-03~10")).toBe("2024-12-03~10-archive.tar.gz");
-  });
+  it("21 - should only archive files matching the filename template", async () => {
+    const logDir = getTestLogDir("21");
+    await fs.mkdir(logDir, { recursive: true });
 
-  it("should extract file period for monthly frequency", () => {
-    expect(getFilePeriod("2024-12-03.log", "monthly")).toBe("2024-12");
-    expect(getFilePeriod("2024-12-03~10.log", "monthly")).toBe("2024-12");
-    expect(getFilePeriod("2024-12-03~10-30-45.log", "monthly")).toBe("2024-12");
-  });
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    const yesterdayStr = yesterday.toISOString().slice(0, 10);
+    const apiFile = `api-${yesterdayStr}.ndjson`;
+    const otherFile = `${yesterdayStr}.log`;
+    await fs.writeFile(path.join(logDir, apiFile), `{"msg":"api log"}\n`);
+    await fs.writeFile(path.join(logDir, otherFile), `{"msg":"other service log"}\n`);
+
+    await runArchiveWorker({
+      ...createResolvedOptions("21", {
+        archive: { frequency: "daily", path: TEST_ARCHIVE_DIR, enabled: true },
+      }),
+      fileName: "api-{date}{hour?}.ndjson",
+      archive: {
+        ...DEFAULT_OPTIONS.archive,
+        fileName: "api-{period}",
+        frequency: "daily",
+        path: TEST_ARCHIVE_DIR,
+      },
+    });
 
-  it("should extract file period for daily frequency", () => {
-    expect(getFilePeriod("2024-12-03.log", "daily")).toBe("2024-12-03");
-    expect(getFilePeriod("2024-12-03~10.log", "daily")).toBe("2024-12-03");
-    expect(getFilePeriod("2024-12-03~10-30-45.log", "daily")).toBe("2024-12-03");
-  });
+    const files = await fs.readdir(logDir);
+    expect(files).not.toContain(apiFile);
+    expect(files).toContain(otherFile);
 
-  it("should extract file period for hourly frequency", () => {
-    expect(getFilePeriod("2024-12-03~10.log", "hourly")).toBe("2024-12-03~10");
-    expect(getFilePeriod("2024-12-03~10-30-45.log", "hourly")).toBe("2024-12-03~10");
-    expect(getFilePeriod("2024-12-03.log", "hourly")).toBe("2024-12-03~00");
+    const archiveFiles = await readArchiveDir(path.join(logDir, TEST_ARCHIVE_DIR));
+    expect(archiveFiles).toEqual([`api-${yesterdayStr}.tar.gz`]);
   });
 
-  it("should extract file period for weekly frequency", () => {
-    expect(getFilePeriod("2024-12-04.log", "weekly")).toBe("2024-12-02");
-    expect(getFilePeriod("2024-12-04~10.log", "weekly")).toBe("2024-12-02");
+  it("22 - should throw error for a template without required placeholders", () => {
+    expect(() => {
+      createTransport({ ...createOptions("22"), fileName: "app.log" });
+    }).toThrow(/Invalid 'fileName' template/);
+    expect(() => {
+      createTransport({ ...createOptions("22"), archive: { fileName: "archive" } });
+    }).toThrow(/Invalid 'archive.fileName' template/);
   });
 
-  it("should return null for invalid filenames", () => {
-    expect(getFilePeriod("invalid.log", "monthly")).toBeNull();
-    expect(getFilePeriod("not-a-date.log", "daily")).toBeNull();
+  it("should parse filenames generated from a custom template", () => {
+    const template = "api-{date}{hour?}.ndjson";
+    expect(getFilePeriod("api-2024-12-03~10.ndjson", "hourly", template)).toBe("2024-12-03~10");
+    expect(getFilePeriod("api-2024-12-03~10-30-45~123.ndjson", "daily", template)).toBe(
+      "2024-12-03",
+    );
+    expect(getFilePeriod("2024-12-03.log", "daily", template)).toBeNull();
+    expect(parseLogFilename("api-2024-12-03~14.ndjson", "local", template)?.getHours()).toBe(14);
+    expect(parseLogFilename("web-2024-12-03.ndjson", "local", template)).toBeNull();
   });
 
-  it("should get current archive period for each frequency", () => {
-    expect(getCurrentArchivePeriod("hourly")).toMatch(/^\d{4}-\d{2}-\d{2}~\d{2}$/);
-    expect(getCurrentArchivePeriod("daily")).toMatch(/^\d{4}-\d{2}-\d{2}$/);
-    expect(getCurrentArchivePeriod("weekly")).toMatch(/^\d{4}-\d{2}-\d{2}$/);
-    expect(getCurrentArchivePeriod("monthly")).toMatch(/^\d{4}-\d{2}$/);
+  it("should match overflow files generated from a custom template", () => {
+    const template = "api-{date}{hour?}.ndjson";
+    const pattern = getOverflowPattern("2024-12-03~10", "hourly", template);
+    expect(pattern.test("api-2024-12-03~10-30-45~123.ndjson")).toBe(true);
+    expect(pattern.test("api-2024-12-03~11-30-45~123.ndjson")).toBe(false);
+    expect(pattern.test("2024-12-03~10-30-45~123.log")).toBe(false);
+
+    const overflowPath = generateOverflowFilename("logs", "utc", template);
+    expect(path.basename(overflowPath)).toMatch(/^api-\d{4}-\d{2}-\d{2}~\d{2}-\d{2}-\d{2}~\d{3}\.ndjson$/);
   });
 
-  it("should get current rotation period", () => {
-    expect(getCurrentRotationPeriod("daily")).toMatch(/^\d{4}-\d{2}-\d{2}$/);
-    expect(getCurrentRotationPeriod("hourly")).toMatch(/^\d{4}-\d{2}-\d{2}~\d{2}$/);
+  it("should generate and parse archive filenames from a custom template", () => {
+    expect(getArchiveFilename("2024-12", "api-{period}")).toBe("api-2024-12.tar.gz");
+    expect(getArchiveFilename("2024-12", "api-{period}", 2)).toBe("api-2024-12-2.tar.gz");
+    expect(parseArchiveFilename("api-2024-12-2.tar.gz", "local", "api-{period}")?.getMonth()).toBe(
+      11,
+    );
+    expect(parseArchiveFilename("2024-12-archive.tar.gz", "local", "api-{period}")).toBeNull();
   });
 });
 
-describe("Filename Parsing Utility Functions", () => {
-  it("should parse daily log filenames", () => {
-    const result = parseLogFilename("2024-12-03.log");
-    expect(result).not.toBeNull();
-    expect(result?.getFullYear()).toBe(2024);
-    expect(result?.getMonth()).toBe(11);
-    expect(result?.getDate()).toBe(3);
-  });
+describe("Level Routing", () => {
+  it("23 - should route lines to separate directories by level", async () => {
+    const logDir = getTestLogDir("23");
+    const stream = createTransport({
+      ...createOptions("23"),
+      routes: [
+        { path: "error", minLevel: "error" },
+        { path: "app" },
+      ],
+    });
 
-  it("should parse hourly log filenames", () => {
-    const result = parseLogFilename("2024-12-03~14.log");
-    expect(result).not.toBeNull();
-    expect(result?.getFullYear()).toBe(2024);
-    expect(result?.getMonth()).toBe(11);
-    expect(result?.getDate()).toBe(3);
-    expect(result?.getHours()).toBe(14);
-  });
+    const logger = pino(stream);
+    logger.info("Routed info line");
+    logger.error("Routed error line");
+    logger.fatal("Routed fatal line");
 
-  it("should parse overflow log filenames", () => {
-    const result = parseLogFilename("2024-12-03~14-30-45.log");
-    expect(result).not.toBeNull();
-    expect(result?.getFullYear()).toBe(2024);
-    expect(result?.getMonth()).toBe(11);
-    expect(result?.getDate()).toBe(3);
-    expect(result?.getHours()).toBe(14);
-  });
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 300));
 
-  it("should return null for invalid log filenames", () => {
-    expect(parseLogFilename("invalid.log")).toBeNull();
-    expect(parseLogFilename("not-a-date.log")).toBeNull();
-  });
+    const errorContent = await fs.readFile(path.join(logDir, "error", todayFile), "utf-8");
+    expect(errorContent).toContain("Routed error line");
+    expect(errorContent).toContain("Routed fatal line");
+    expect(errorContent).not.toContain("Routed info line");
 
-  it("should parse monthly archive filenames", () => {
-    const result = parseArchiveFilename("2024-12-archive.tar.gz");
-    expect(result).not.toBeNull();
-    expect(result?.getFullYear()).toBe(2024);
-    expect(result?.getMonth()).toBe(11);
-    expect(result?.getDate()).toBe(1);
-  });
+    const appContent = await fs.readFile(path.join(logDir, "app", todayFile), "utf-8");
+    expect(appContent).toContain("Routed info line");
+    expect(appContent).not.toContain("Routed error line");
 
-  it("should parse daily archive filenames", () => {
-    const result = parseArchiveFilename("2024-12-03-archive.tar.gz");
-    expect(result).not.toBeNull();
-    expect(result?.getFullYear()).toBe(2024);
-    expect(result?.getMonth()).toBe(11);
-    expect(result?.getDate()).toBe(3);
+    stream.end();
   });
 
-  it("should parse hourly archive filenames", () => {
-    const result = parseArchiveFilename("2024-12-03~14-archive.tar.gz");
-    expect(result).not.toBeNull();
-    expect(result?.getFullYear()).toBe(2024);
-    expect(result?.getMonth()).toBe(11);
-    expect(result?.getDate()).toBe(3);
-    expect(result?.getHours()).toBe(14);
-  });
+  it("24 - should route label levels using a custom level map", async () => {
+    const logDir = getTestLogDir("24");
+    const stream = createTransport({
+      ...createOptions("24"),
+      levels: { audit: 35 },
+      routes: [
+        { path: "audit", minLevel: "audit", maxLevel: "audit" },
+        { path: "app", maxLevel: "warn" },
+      ],
+    });
 
-  it("should parse archive filenames with counter suffix", () => {
-    const result = parseArchiveFilename("2024-12-archive-1.tar.gz");
-    expect(result).not.toBeNull();
-    expect(result?.getFullYear()).toBe(2024);
-    expect(result?.getMonth()).toBe(11);
-  });
+    const logger = pino(
+      {
+        customLevels: { audit: 35 },
+        formatters: { level: (label) => ({ level: label }) },
+      },
+      stream,
+    );
+    logger.audit("Audit line");
+    logger.warn("Warn line");
 
-  it("should return null for invalid archive filenames", () => {
-    expect(parseArchiveFilename("invalid-archive.tar.gz")).toBeNull();
-    expect(parseArchiveFilename("not-a-date.tar.gz")).toBeNull();
-  });
-});
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 300));
 
-describe("Cutoff Date Utility Function", () => {
-  const baseDate = new Date(2024, 11, 15, 12, 0, 0);
+    const auditContent = await fs.readFile(path.join(logDir, "audit", todayFile), "utf-8");
+    expect(auditContent).toContain("Audit line");
+    expect(auditContent).not.toContain("Warn line");
 
-  it("should calculate cutoff for hours", () => {
-    const cutoff = getCutoffDate(baseDate, 6, "h");
-    expect(cutoff.getHours()).toBe(6);
-    expect(cutoff.getDate()).toBe(15);
-  });
+    const appContent = await fs.readFile(path.join(logDir, "app", todayFile), "utf-8");
+    expect(appContent).toContain("Warn line");
 
-  it("should calculate cutoff for days", () => {
-    const cutoff = getCutoffDate(baseDate, 10, "d");
-    expect(cutoff.getDate()).toBe(5);
-    expect(cutoff.getMonth()).toBe(11);
+    stream.end();
   });
 
-  it("should calculate cutoff for weeks", () => {
-    const cutoff = getCutoffDate(baseDate, 2, "w");
-    expect(cutoff.getDate()).toBe(1);
-    expect(cutoff.getMonth()).toBe(11);
+  it("103 - should route each line of a multi-line chunk by its own level", async () => {
+    const logDir = getTestLogDir("103");
+    const stream = createTransport({
+      ...createOptions("103"),
+      routes: [
+        { path: "app", maxLevel: "warn" },
+        { path: "error", minLevel: "error" },
+      ],
+    });
+
+    // pino.transport() writes batches of lines, possibly cut in the middle of a line
+    stream.write('{"level":30,"msg":"info-1"}\n{"level":50,"msg":"error-1"}\n{"level":30,"msg":"info-2"}\n{"level":');
+    stream.write('50,"msg":"error-2"}\n{"level":60,"msg":"fatal-1"}\n');
+    await stream.close();
+
+    const appContent = await fs.readFile(path.join(logDir, "app", todayFile), "utf-8");
+    const errorContent = await fs.readFile(path.join(logDir, "error", todayFile), "utf-8");
+    expect(appContent.match(/"msg":"[^"]+"/g)).toEqual(['"msg":"info-1"', '"msg":"info-2"']);
+    expect(errorContent.match(/"msg":"[^"]+"/g)).toEqual([
+      '"msg":"error-1"',
+      '"msg":"error-2"',
+      '"msg":"fatal-1"',
+    ]);
   });
 
-  it("should calculate cutoff for months", () => {
-    const cutoff = getCutoffDate(baseDate, 3, "m");
-    expect(cutoff.getMonth()).toBe(8);
-    expect(cutoff.getFullYear()).toBe(2024);
+  it("104 - should close under load while a route other than the first one is blocked", async () => {
+    const logDir = getTestLogDir("104");
+    const transport = pino.transport({
+      target: TRANSPORT_TARGET,
+      options: {
+        ...createOptions("104"),
+        routes: [
+          { path: "app", maxLevel: "warn" },
+          { path: "error", minLevel: "error" },
+        ],
+      },
+    });
+    const logger = pino(transport);
+
+    // pino waits for `drain` on the first route's stream while the error route is blocked
+    logger.info("first info line");
+    for (let i = 0; i < 50_000; i++) {
+      logger.error(`error line ${i}`);
+    }
+    const closed = new Promise((resolve) => transport.once("close", resolve));
+    transport.end();
+    await closed;
+
+    const countLines = async (route: string) =>
+      (await fs.readFile(path.join(logDir, route, todayFile), "utf-8")).split("\n").length - 1;
+    expect(await countLines("app")).toBe(1);
+    expect(await countLines("error")).toBe(50_000);
+  }, 20_000);
+
+  it("25 - should throw error for invalid routes", () => {
+    expect(() => {
+      createTransport({ ...createOptions("25"), routes: [{ path: "x", minLevel: "unknown" }] });
+    }).toThrow(/unknown level "unknown"/);
+    expect(() => {
+      createTransport({ ...createOptions("25"), routes: [{ path: "x" }, { path: "x" }] });
+    }).toThrow(/several routes use the path/);
+    expect(() => {
+      createTransport({
+        ...createOptions("25"),
+        routes: [{ path: "x", rotation: { frequency: "daily" }, archive: { enabled: true, frequency: "hourly" } }],
+      });
+    }).toThrow(/archive.frequency.*must be >= rotation.frequency/);
   });
 
-  it("should calculate cutoff for years", () => {
-    const cutoff = getCutoffDate(baseDate, 2, "y");
-    expect(cutoff.getFullYear()).toBe(2022);
-    expect(cutoff.getMonth()).toBe(11);
+  it("should parse numeric and label levels", () => {
+    expect(parseLevel('{"level":50,"time":1,"msg":"x"}', DEFAULT_LEVELS)).toBe(50);
+    expect(parseLevel('{"level": 30}', DEFAULT_LEVELS)).toBe(30);
+    expect(parseLevel('{"level":"warn","msg":"x"}', DEFAULT_LEVELS)).toBe(40);
+    expect(parseLevel('{"level":"audit"}', { ...DEFAULT_LEVELS, audit: 35 })).toBe(35);
+    expect(parseLevel('{"level":"constructor"}', DEFAULT_LEVELS)).toBeUndefined();
+    expect(parseLevel('{"msg":"no level"}', DEFAULT_LEVELS)).toBeUndefined();
+    expect(parseLevel('{"req":{"level":60},"level":30}', DEFAULT_LEVELS)).toBe(30);
+    expect(parseLevel('{"msg":"\\"level\\":60","level":"info"}', DEFAULT_LEVELS)).toBe(30);
+    expect(parseLevel('{"err":{"level":60},"msg":"x"}', DEFAULT_LEVELS)).toBeUndefined();
   });
 
-  it("should handle month boundary correctly", () => {
-    const janDate = new Date(2024, 0, 15);
-    const cutoff = getCutoffDate(janDate, 2, "m");
-    expect(cutoff.getMonth()).toBe(10);
-    expect(cutoff.getFullYear()).toBe(2023);
+  it("113 - should route by the top-level level and count unrouted lines", async () => {
+    const logDir = getTestLogDir("113");
+    const stream = createTransport({
+      ...createOptions("113"),
+      routes: [{ path: "error", minLevel: "error" }],
+    });
+
+    const logger = pino(stream);
+    logger.info({ upstream: { level: 60 } }, "Nested level");
+    logger.info({ note: '"level":60' }, "Level in a string");
+    logger.error("Routed error line");
+
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const content = await fs.readFile(path.join(logDir, "error", todayFile), "utf-8");
+    expect(content).toContain("Routed error line");
+    expect(content).not.toContain("Nested level");
+    expect(content).not.toContain("Level in a string");
+    expect(stream.getStats().linesUnrouted).toBe(2);
+
+    stream.end();
   });
 });
 
-describe("File Exists Utility Function", () => {
-  it("should return true for existing file", async () => {
-    const logDir = getTestLogDir("util-exists");
-    await fs.mkdir(logDir, { recursive: true });
-    const testFile = path.join(logDir, "test.txt");
-    await fs.writeFile(testFile, "test");
+describe("Field Partitioning", () => {
+  it("26 - should write lines to one directory per field value", async () => {
+    const logDir = getTestLogDir("26");
+    const stream = createTransport({
+      ...createOptions("26"),
+      partition: { field: "tenant" },
+    });
 
-    expect(await fileExists(testFile)).toBe(true);
-    expect(fileExistsSync(testFile)).toBe(true);
+    const logger = pino(stream);
+    logger.info({ tenant: "acme" }, "Acme line");
+    logger.info({ tenant: "globex" }, "Globex line");
+    logger.info({ tenant: "../escape" }, "Escaping line");
+    logger.info("Line without tenant");
+
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const acmeContent = await fs.readFile(path.join(logDir, "acme", todayFile), "utf-8");
+    expect(acmeContent).toContain("Acme line");
+    expect(acmeContent).not.toContain("Globex line");
+
+    const globexContent = await fs.readFile(path.join(logDir, "globex", todayFile), "utf-8");
+    expect(globexContent).toContain("Globex line");
+
+    const escapeContent = await fs.readFile(path.join(logDir, "%2E%2E%2Fescape", todayFile), "utf-8");
+    expect(escapeContent).toContain("Escaping line");
+
+    const defaultContent = await fs.readFile(path.join(logDir, "default", todayFile), "utf-8");
+    expect(defaultContent).toContain("Line without tenant");
+
+    stream.end();
   });
 
-  it("should return false for non-existing file", async () => {
-    expect(await fileExists("/path/to/nonexistent/file.txt")).toBe(false);
-    expect(fileExistsSync("/path/to/nonexistent/file.txt")).toBe(false);
+  it("27 - should close least recently used partitions beyond maxOpen", async () => {
+    const logDir = getTestLogDir("27");
+    const stream = createTransport({
+      ...createOptions("27"),
+      partition: { field: "tenant", maxOpen: 1 },
+    });
+
+    const logger = pino(stream);
+    logger.info({ tenant: "a" }, "First a line");
+    logger.info({ tenant: "b" }, "First b line");
+    logger.info({ tenant: "a" }, "Second a line");
+
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const aContent = await fs.readFile(path.join(logDir, "a", todayFile), "utf-8");
+    expect(aContent).toContain("First a line");
+    expect(aContent).toContain("Second a line");
+
+    const bContent = await fs.readFile(path.join(logDir, "b", todayFile), "utf-8");
+    expect(bContent).toContain("First b line");
+
+    stream.end();
+  });
+
+  it("105 - should partition each line of a multi-line chunk by its own field value", async () => {
+    const logDir = getTestLogDir("105");
+    const stream = createTransport({ ...createOptions("105"), partition: { field: "tenant" } });
+
+    stream.write('{"tenant":"a","msg":"a-1"}\n{"tenant":"b","msg":"b-1"}\n{"msg":"none"}\n{"tenant":');
+    stream.write('"b","msg":"b-2"}\n{"tenant":"a","msg":"a-2"}\n');
+    await stream.close();
+
+    const readMessages = async (name: string) =>
+      (await fs.readFile(path.join(logDir, name, todayFile), "utf-8")).match(/"msg":"[^"]+"/g);
+    expect(await readMessages("a")).toEqual(['"msg":"a-1"', '"msg":"a-2"']);
+    expect(await readMessages("b")).toEqual(['"msg":"b-1"', '"msg":"b-2"']);
+    expect(await readMessages("default")).toEqual(['"msg":"none"']);
+  });
+
+  it("106 - should partition the batched lines of pino.transport() and close under load", async () => {
+    const logDir = getTestLogDir("106");
+    const transport = pino.transport({
+      target: TRANSPORT_TARGET,
+      options: { ...createOptions("106"), partition: { field: "tenant" } },
+    });
+    const logger = pino(transport);
+
+    for (let i = 0; i < 20_000; i++) {
+      logger.info({ tenant: "a" }, `a line ${i}`);
+      logger.info({ tenant: "b" }, `b line ${i}`);
+    }
+    const closed = new Promise((resolve) => transport.once("close", resolve));
+    transport.end();
+    await closed;
+
+    const countLines = async (name: string) =>
+      (await fs.readFile(path.join(logDir, name, todayFile), "utf-8")).split("\n").length - 1;
+    expect(await countLines("a")).toBe(20_000);
+    expect(await countLines("b")).toBe(20_000);
+  }, 20_000);
+
+  it("98 - should keep the lines of a partition in order while it is closed and reopened", async () => {
+    const logDir = getTestLogDir("98");
+    const stream = createTransport({
+      ...createOptions("98"),
+      partition: { field: "tenant", maxOpen: 1 },
+    });
+
+    // Every line evicts the other partition, whose next line arrives before its stream is closed
+    for (let i = 0; i < 50; i++) {
+      stream.write(`{"tenant":"a","n":${i}}\n`);
+      stream.write(`{"tenant":"b","n":${i}}\n`);
+    }
+    await stream.close();
+
+    const expected = Array.from({ length: 50 }, (_, i) => i);
+    for (const tenant of ["a", "b"]) {
+      const content = await fs.readFile(path.join(logDir, tenant, todayFile), "utf-8");
+      const lines = content.trim().split("\n").map((line) => JSON.parse(line).n);
+      expect(lines).toEqual(expected);
+    }
+  });
+
+  it("28 - should archive every partition directory", async () => {
+    const logDir = getTestLogDir("28");
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    const yesterdayStr = yesterday.toISOString().slice(0, 10);
+
+    for (const tenant of ["acme", "globex"]) {
+      await fs.mkdir(path.join(logDir, tenant), { recursive: true });
+      await fs.writeFile(path.join(logDir, tenant, `${yesterdayStr}.log`), `{"tenant":"${tenant}"}\n`);
+    }
+
+    await runArchiveWorker({
+      ...createResolvedOptions("28", {
+        archive: { frequency: "daily", path: TEST_ARCHIVE_DIR, enabled: true },
+      }),
+      partition: { field: "tenant", maxOpen: 100, default: "default" },
+    });
+
+    for (const tenant of ["acme", "globex"]) {
+      const archiveFiles = await readArchiveDir(path.join(logDir, tenant, TEST_ARCHIVE_DIR));
+      expect(archiveFiles).toEqual([`${yesterdayStr}-archive.tar.gz`]);
+    }
+  });
+
+  it("29 - should throw error for invalid partition options", () => {
+    expect(() => {
+      createTransport({ ...createOptions("29"), partition: { field: "" } });
+    }).toThrow(/'partition.field' option is required/);
+    expect(() => {
+      createTransport({ ...createOptions("29"), partition: { field: "tenant", maxOpen: 0 } });
+    }).toThrow(/Invalid 'partition.maxOpen'/);
+    expect(() => {
+      createTransport({ ...createOptions("29"), partition: { field: "tenant", default: ".meta" } });
+    }).toThrow(/Invalid 'partition.default'/);
+  });
+
+  it("should extract field values without parsing the line", () => {
+    const parseTenant = createFieldParser("tenant");
+    expect(parseTenant('{"level":30,"tenant":"acme","msg":"x"}')).toBe("acme");
+    expect(parseTenant('{"tenant": 42}')).toBe("42");
+    expect(parseTenant('{"tenant":true,"msg":"x"}')).toBe("true");
+    expect(parseTenant('{"tenant":"a\\"b"}')).toBe('a"b');
+    expect(parseTenant('{"tenant":null}')).toBeUndefined();
+    expect(parseTenant('{"msg":"no tenant"}')).toBeUndefined();
+  });
+
+  it("should only extract top-level fields, and ignore invalid values", () => {
+    const parseTenant = createFieldParser("tenant");
+    expect(parseTenant('{"req":{"tenant":"x"},"tenant":"y"}')).toBe("y");
+    expect(parseTenant('{"req":{"tenant":"x"}}')).toBeUndefined();
+    expect(parseTenant('{"list":[{"tenant":"x"}]}')).toBeUndefined();
+    expect(parseTenant('{"msg":"\\"tenant\\":\\"evil\\"","tenant":"good"}')).toBe("good");
+    expect(parseTenant('{"msg":"{\\"tenant\\":1}"}')).toBeUndefined();
+    expect(parseTenant('{"tenant":"a\\u12"}')).toBeUndefined();
+    expect(parseTenant('{"tenant":{"id":1}}')).toBeUndefined();
+    expect(parseTenant('{"tenant" : "spaced"}')).toBe("spaced");
+  });
+
+  it("should sanitize partition names", () => {
+    expect(sanitizePartitionName("acme-corp_1.eu")).toBe("acme-corp_1.eu");
+    expect(sanitizePartitionName("a/b c")).toBe("a%2Fb%20c");
+    expect(sanitizePartitionName("..")).toBe("%2E%2E");
+    expect(sanitizePartitionName(".locks")).toBe("%2Elocks");
+    expect(sanitizePartitionName("a.b")).toBe("a.b");
+    expect(sanitizePartitionName("café")).toBe("caf%C3%A9");
+  });
+
+  it("should give distinct values distinct partition names", () => {
+    const values = ["a/b", "a_b", "a b", "a%2Fb", "a~b"];
+    expect(new Set(values.map(sanitizePartitionName)).size).toBe(values.length);
+
+    // Long values are cut, keeping a hash of the whole value
+    const long = sanitizePartitionName(`${"x".repeat(200)}1`);
+    expect(long.length).toBe(128);
+    expect(long).not.toBe(sanitizePartitionName(`${"x".repeat(200)}2`));
+    expect(sanitizePartitionName("x".repeat(128))).toBe("x".repeat(128));
+  });
+});
+
+describe("Current Link", () => {
+  it("30 - should point the current link at the active file across rotations", async () => {
+    const logDir = getTestLogDir("30");
+    await fs.mkdir(logDir, { recursive: true });
+
+    // Main log file just below 1MB: the first line triggers a size rotation
+    await fs.writeFile(path.join(logDir, todayFile), "x".repeat(1024 * 1024 - 10));
+
+    const stream = createTransport({
+      ...createOptions("30"),
+      rotation: { maxSize: 1, currentLink: true },
+    });
+    const linkPath = path.join(logDir, "current.log");
+    expect(await fs.readlink(linkPath)).toBe(todayFile);
+
+    const logger = pino(stream);
+    logger.info("Line after rotation");
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const target = await fs.readlink(linkPath);
+    expect(target).not.toBe(todayFile);
+    expect(target.startsWith(`${todayDate}~`)).toBe(true);
+    expect(await fs.readFile(linkPath, "utf-8")).toContain("Line after rotation");
+
+    const files = await fs.readdir(logDir);
+    expect(files.filter((f) => f.endsWith(".tmp"))).toEqual([]);
+
+    stream.end();
+  });
+
+  it("31 - should throw error for a current link matching the filename template", () => {
+    expect(() => {
+      createTransport({ ...createOptions("31"), rotation: { currentLink: "2025-01-01.log" } });
+    }).toThrow(/matches the 'fileName' template/);
+    expect(() => {
+      createTransport({ ...createOptions("31"), rotation: { currentLink: "../current.log" } });
+    }).toThrow(/Invalid 'rotation.currentLink'/);
+  });
+});
+
+describe("Rotate and Reopen API", () => {
+  it("32 - should switch to a new file on rotate()", async () => {
+    const logDir = getTestLogDir("32");
+    const stream = createTransport(createOptions("32"));
+
+    const logger = pino(stream);
+    logger.info("Before manual rotation");
+    await stream.rotate();
+    logger.info("After manual rotation");
+
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const mainContent = await fs.readFile(path.join(logDir, todayFile), "utf-8");
+    expect(mainContent).toContain("Before manual rotation");
+    expect(mainContent).not.toContain("After manual rotation");
+
+    const files = await fs.readdir(logDir);
+    const overflowFiles = files.filter((f) => f.startsWith(`${todayDate}~`));
+    expect(overflowFiles.length).toBe(1);
+
+    const overflowContent = await fs.readFile(path.join(logDir, overflowFiles[0]), "utf-8");
+    expect(overflowContent).toContain("After manual rotation");
+
+    stream.end();
+  });
+
+  it("33 - should recreate a moved file on reopen()", async () => {
+    const logDir = getTestLogDir("33");
+    const stream = createTransport(createOptions("33"));
+
+    const logger = pino(stream);
+    logger.info("Before external move");
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    // Simulate logrotate moving the file away
+    await fs.rename(path.join(logDir, todayFile), path.join(logDir, "moved.1"));
+    await stream.reopen();
+    logger.info("After reopen");
+
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const movedContent = await fs.readFile(path.join(logDir, "moved.1"), "utf-8");
+    expect(movedContent).toContain("Before external move");
+    expect(movedContent).not.toContain("After reopen");
+
+    const mainContent = await fs.readFile(path.join(logDir, todayFile), "utf-8");
+    expect(mainContent).toContain("After reopen");
+
+    stream.end();
+  });
+
+  it("34 - should reopen on the configured signal", async () => {
+    const logDir = getTestLogDir("34");
+    const listenersBefore = process.listenerCount("SIGHUP");
+    const stream = createTransport({ ...createOptions("34"), reopenOnSignal: "SIGHUP" });
+    expect(process.listenerCount("SIGHUP")).toBe(listenersBefore + 1);
+
+    const logger = pino(stream);
+    logger.info("Before signal");
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    await fs.rename(path.join(logDir, todayFile), path.join(logDir, "moved.1"));
+    process.emit("SIGHUP", "SIGHUP");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    logger.info("After signal");
+
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const mainContent = await fs.readFile(path.join(logDir, todayFile), "utf-8");
+    expect(mainContent).toContain("After signal");
+
+    stream.end();
+    expect(process.listenerCount("SIGHUP")).toBe(listenersBefore);
+  });
+});
+
+describe("External File Changes", () => {
+  const readRotationEvents = async (logDir: string) => {
+    const metaFile = path.join(logDir, ".meta", "rotation", `${new Date().toISOString().slice(0, 10)}.log`);
+    const content = await fs.readFile(metaFile, "utf-8");
+    return content.trim().split("\n").map((line) => JSON.parse(line));
+  };
+
+  it("35 - should recreate a deleted file and log an external rotation", async () => {
+    const logDir = getTestLogDir("35");
+    const stream = createTransport(createOptions("35"));
+
+    const logger = pino(stream);
+    logger.info("Before delete");
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    await fs.unlink(path.join(logDir, todayFile));
+    // Wait for the next disk check
+    await new Promise((resolve) => setTimeout(resolve, 600));
+    logger.info("After delete");
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const content = await fs.readFile(path.join(logDir, todayFile), "utf-8");
+    expect(content).toContain("After delete");
+    expect(content).not.toContain("Before delete");
+
+    const events = await readRotationEvents(logDir);
+    expect(events).toContainEqual(expect.objectContaining({ reason: "external", file: todayFile }));
+
+    stream.end();
+  });
+
+  it("36 - should detect a moved file without size-based rotation", async () => {
+    const logDir = getTestLogDir("36");
+    const stream = createTransport({ ...createOptions("36"), rotation: { maxSize: 0 } });
+
+    const logger = pino(stream);
+    logger.info("Before move");
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    await fs.rename(path.join(logDir, todayFile), path.join(logDir, "moved.1"));
+    await new Promise((resolve) => setTimeout(resolve, 600));
+    logger.info("After move");
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    stream.flush();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(await fs.readFile(path.join(logDir, "moved.1"), "utf-8")).not.toContain("After move");
+    expect(await fs.readFile(path.join(logDir, todayFile), "utf-8")).toContain("After move");
+
+    const events = await readRotationEvents(logDir);
+    expect(events).toContainEqual(expect.objectContaining({ reason: "external" }));
+
+    stream.end();
+  });
+});
+
+describe("Graceful Close", () => {
+  it("37 - should write lines buffered during rotation on close()", async () => {
+    const logDir = getTestLogDir("37");
+    await fs.mkdir(logDir, { recursive: true });
+    await fs.writeFile(path.join(logDir, todayFile), "x".repeat(1024 * 1024 - 10));
+
+    const stream = createTransport({ ...createOptions("37"), rotation: { maxSize: 1 } });
+
+    // The first line starts a size rotation, the next ones are buffered
+    const logger = pino(stream);
+    for (let i = 0; i < 10; i++) {
+      logger.info(`Buffered line ${i}`);
+    }
+
+    const report = await stream.close();
+    expect(report.linesFlushed).toBe(10);
+    expect(report.timedOut).toBe(false);
+    expect(report.interruptedWorkers).toEqual([]);
+
+    const files = await fs.readdir(logDir);
+    const overflowFile = files.find((f) => f.startsWith(`${todayDate}~`));
+    expect(overflowFile).toBeDefined();
+
+    const content = await fs.readFile(path.join(logDir, overflowFile as string), "utf-8");
+    expect(content.trim().split("\n").length).toBe(10);
+    expect(content).toContain("Buffered line 9");
+  });
+
+  it("38 - should terminate running workers at the deadline and release their locks", async () => {
+    const logDir = getTestLogDir("38");
+    await fs.mkdir(logDir, { recursive: true });
+
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    await fs.writeFile(path.join(logDir, `${yesterday.toISOString().slice(0, 10)}.log`), "{}\n");
+
+    const stream = createTransport({
+      ...createOptions("38"),
+      archive: { enabled: true, runOnCreation: true, frequency: "daily" },
+    });
+
+    // Wait for the archive worker to take its lock
+    const lockPath = getWorkerLockPath(logDir, "archive");
+    for (let i = 0; i < 50 && !(await fileExists(lockPath)); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    const report = await stream.close({ timeout: 0 });
+    expect(report.timedOut).toBe(true);
+    expect(report.interruptedWorkers).toContainEqual({ type: "archive", paths: [logDir] });
+    expect(await fileExists(lockPath)).toBe(false);
+  });
+
+  it("39 - should return the same report when closed twice", async () => {
+    const stream = createTransport(createOptions("39"));
+    const first = stream.close();
+    stream.end();
+    expect(stream.close()).toBe(first);
+    expect((await first).timedOut).toBe(false);
+  });
+
+  it("99 - should write the last chunk passed to end() and call its callback once closed", async () => {
+    const logDir = getTestLogDir("99");
+    const stream = createTransport(createOptions("99"));
+    stream.write(`{"level":30,"msg":"first"}\n`);
+
+    await new Promise<void>((resolve) => {
+      stream.end(`{"level":30,"msg":"last"}\n`, () => resolve());
+    });
+
+    const content = await fs.readFile(path.join(logDir, todayFile), "utf-8");
+    expect(content.trim().split("\n").map((line) => JSON.parse(line).msg)).toEqual(["first", "last"]);
+
+    // A callback alone is called as well
+    const other = createTransport(createOptions("99"));
+    await new Promise<void>((resolve) => other.end(() => resolve()));
+  });
+
+  it("40 - should emit a rotate event with the old and new paths", async () => {
+    const stream = createTransport(createOptions("40"));
+    const events: RotateEvent[] = [];
+    stream.on("rotate", (event) => events.push(event));
+
+    await stream.rotate();
+    await stream.close();
+
+    expect(events.length).toBe(1);
+    expect(events[0].reason).toBe("manual");
+    expect(events[0].oldPath).toBe(getTodayFilePath("40"));
+    expect(path.basename(events[0].newPath).startsWith(`${todayDate}~`)).toBe(true);
+  });
+
+  it("41 - should emit archive events posted by the archive worker", async () => {
+    const logDir = getTestLogDir("41");
+    await fs.mkdir(logDir, { recursive: true });
+
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    const yesterdayFile = `${yesterday.toISOString().slice(0, 10)}.log`;
+    await fs.writeFile(path.join(logDir, yesterdayFile), "{}\n");
+
+    const stream = createTransport({
+      ...createOptions("41"),
+      archive: { enabled: true, runOnCreation: true, frequency: "daily" },
+    });
+    const started: ArchiveStartEvent[] = [];
+    stream.on("archive:start", (event) => started.push(event));
+    const completed = await new Promise<ArchiveCompleteEvent>((resolve) => {
+      stream.once("archive:complete", resolve);
+    });
+    await stream.close();
+
+    expect(started.length).toBe(1);
+    expect(completed.path).toBe(logDir);
+    expect(completed.files).toEqual([yesterdayFile]);
+    expect(completed.archive).toBe(started[0].archive);
+    expect(completed.bytes).toBeGreaterThan(0);
+    expect(await fileExists(path.join(logDir, TEST_ARCHIVE_DIR, completed.archive))).toBe(true);
+  });
+});
+
+describe("Runtime Stats", () => {
+  it("42 - should report written lines, rotations and the active file", async () => {
+    const stream = createTransport(createOptions("42"));
+    const logger = pino(stream);
+    logger.info("first");
+    logger.info("second");
+
+    const before = stream.getStats();
+    expect(before.linesWritten).toBe(2);
+    expect(before.bytesWritten).toBeGreaterThan(0);
+    expect(before.files.length).toBe(1);
+    expect(before.files[0].file).toBe(getTodayFilePath("42"));
+    expect(before.files[0].period).toBe(todayDate);
+    expect(before.files[0].nextCheckIntervalMs).toBeGreaterThan(0);
+
+    await stream.rotate();
+    logger.info("third");
+    await stream.close();
+
+    const after = stream.getStats();
+    expect(after.linesWritten).toBe(3);
+    expect(after.rotations).toEqual({ period: 0, size: 0, manual: 1, reopen: 0, external: 0, disk: 0 });
+    expect(after.files[0].file).not.toBe(getTodayFilePath("42"));
+    expect(after.pendingWrites).toBe(0);
+
+    const content = await fs.readFile(getTodayFilePath("42"), "utf-8");
+    const rotated = await fs.readFile(after.files[0].file, "utf-8");
+    expect(after.bytesWritten).toBe(Buffer.byteLength(content + rotated));
+  });
+
+  it("43 - should count lines dropped because of maxLength and the pending high-water mark", async () => {
+    const stream = createTransport({ ...createOptions("43"), sonicBoom: { maxLength: 100 } });
+
+    // The file is still being opened: lines accumulate in SonicBoom's buffer
+    stream.write(`${"a".repeat(60)}\n`);
+    stream.write(`${"b".repeat(60)}\n`);
+
+    // Lines written while rotating are buffered
+    const rotation = stream.rotate();
+    stream.write("buffered 1\n");
+    stream.write("buffered 2\n");
+    await rotation;
+    await stream.close();
+
+    const stats = stream.getStats();
+    expect(stats.linesDropped).toBe(1);
+    expect(stats.linesWritten).toBe(3);
+    expect(stats.pendingWritesHighWaterMark).toBe(2);
+    expect(stats.files[0].pendingWritesHighWaterMark).toBe(2);
+  });
+
+  it("44 - should report the last retention outcome", async () => {
+    const logDir = getTestLogDir("44");
+    await fs.mkdir(logDir, { recursive: true });
+
+    const oldDate = new Date();
+    oldDate.setDate(oldDate.getDate() - 10);
+    await fs.writeFile(path.join(logDir, `${oldDate.toISOString().slice(0, 10)}.log`), "{}\n");
+
+    const stream = createTransport({ ...createOptions("44"), retention: { duration: "7d" } });
+    expect(stream.getStats().lastRetention).toBeNull();
+
+    await new Promise((resolve) => stream.once("retention:complete", resolve));
+    await stream.close();
+
+    const { lastRetention, lastArchive } = stream.getStats();
+    expect(lastRetention).toMatchObject({
+      status: "complete",
+      path: logDir,
+      deletedLogs: 1,
+      deletedArchives: 0,
+    });
+    expect(lastArchive).toBeNull();
+  });
+});
+
+describe("Archive Compression", () => {
+  const yesterday = new Date();
+  yesterday.setDate(yesterday.getDate() - 1);
+  const yesterdayStr = yesterday.toISOString().slice(0, 10);
+
+  it("45 - should create brotli archives with the configured level", async () => {
+    const logDir = getTestLogDir("45");
+    await fs.mkdir(logDir, { recursive: true });
+    await fs.writeFile(path.join(logDir, `${yesterdayStr}.log`), `{"msg":"brotli log"}\n`);
+
+    await runArchiveWorker(createResolvedOptions("45", {
+      archive: { frequency: "daily", path: TEST_ARCHIVE_DIR, compression: "brotli", level: 11 },
+    }));
+
+    const archiveFiles = await readArchiveDir(path.join(logDir, TEST_ARCHIVE_DIR));
+    expect(archiveFiles).toEqual([`${yesterdayStr}-archive.tar.br`]);
+
+    const compressed = await fs.readFile(path.join(logDir, TEST_ARCHIVE_DIR, archiveFiles[0]));
+    const tarball = zlib.brotliDecompressSync(compressed).toString("utf-8");
+    expect(tarball).toContain(`${yesterdayStr}.log`);
+    expect(tarball).toContain(`{"msg":"brotli log"}`);
+  });
+
+  it("46 - should not reuse an archive name taken by another format", async () => {
+    const logDir = getTestLogDir("46");
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    await fs.mkdir(archiveDir, { recursive: true });
+    await fs.writeFile(path.join(archiveDir, `${yesterdayStr}-archive.tar.gz`), "");
+    await fs.writeFile(path.join(logDir, `${yesterdayStr}.log`), `{"msg":"plain log"}\n`);
+
+    await runArchiveWorker(createResolvedOptions("46", {
+      archive: { frequency: "daily", path: TEST_ARCHIVE_DIR, compression: "none" },
+    }));
+
+    const archiveFiles = (await readArchiveDir(archiveDir)).sort();
+    expect(archiveFiles).toEqual([
+      `${yesterdayStr}-archive-1.tar`,
+      `${yesterdayStr}-archive.tar.gz`,
+    ]);
+    const tarball = await fs.readFile(path.join(archiveDir, archiveFiles[0]), "utf-8");
+    expect(tarball).toContain(`{"msg":"plain log"}`);
+  });
+
+  it("47 - should throw error for an invalid compression or level", () => {
+    expect(() => {
+      // @ts-expect-error - Invalid format
+      createTransport({ ...createOptions("47"), archive: { compression: "zstd" } });
+    }).toThrow(/Invalid 'archive.compression' option/);
+    expect(() => {
+      createTransport({ ...createOptions("47"), archive: { compression: "gzip", level: 10 } });
+    }).toThrow(/Invalid 'archive.level' option: 10/);
+    expect(() => {
+      createTransport({ ...createOptions("47"), archive: { compression: "brotli", level: 1.5 } });
+    }).toThrow(/Invalid 'archive.level' option/);
+  });
+
+  it("48 - should archive through a temp file and remove temp files left by a crash", async () => {
+    const logDir = getTestLogDir("48");
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    await fs.mkdir(archiveDir, { recursive: true });
+    await fs.writeFile(path.join(archiveDir, `.${yesterdayStr}-archive.tar.gz.tmp`), "trunc");
+    await fs.writeFile(path.join(logDir, `${yesterdayStr}.log`), `{"msg":"log"}\n`);
+
+    await runArchiveWorker(createResolvedOptions("48", {
+      archive: { frequency: "daily", path: TEST_ARCHIVE_DIR },
+    }));
+
+    expect(await readArchiveDir(archiveDir)).toEqual([`${yesterdayStr}-archive.tar.gz`]);
+    expect(await fs.readdir(logDir)).not.toContain(`${yesterdayStr}.log`);
+  });
+
+  it("49 - should reject archives that do not match the log files", async () => {
+    const logDir = getTestLogDir("49");
+    await fs.mkdir(logDir, { recursive: true });
+    await fs.writeFile(path.join(logDir, "a.log"), "a".repeat(2000));
+    await fs.writeFile(path.join(logDir, "b.log"), "b".repeat(2000));
+
+    const archiveFile = path.join(logDir, "test.tar.gz");
+    const { archive } = createResolvedOptions("49");
+    const snapshots = await createArchive(archiveFile, logDir, ["a.log", "b.log"], archive);
+    expect(snapshots.get("b.log")?.size).toBe(2000);
+    await verifyArchive(archiveFile, snapshots, "gzip");
+
+    // A truncated archive
+    const truncatedFile = path.join(logDir, "truncated.tar.gz");
+    const content = await fs.readFile(archiveFile);
+    await fs.writeFile(truncatedFile, content.subarray(0, content.length - 20));
+    await expect(verifyArchive(truncatedFile, snapshots, "gzip")).rejects.toThrow();
+
+    // A log file written after the archive was created still matches its snapshot
+    await fs.appendFile(path.join(logDir, "b.log"), "late line\n");
+    await verifyArchive(archiveFile, snapshots, "gzip");
+
+    const grown = new Map(snapshots).set("b.log", { size: 2010, mtimeMs: 0 });
+    await expect(verifyArchive(archiveFile, grown, "gzip")).rejects.toThrow(
+      /b.log has 2000 bytes, expected 2010/,
+    );
+    const single = new Map([["a.log", { size: 2000, mtimeMs: 0 }]]);
+    await expect(verifyArchive(archiveFile, single, "gzip")).rejects.toThrow(
+      /2 entries for 1 log files/,
+    );
+  });
+
+  it("114 - should keep log files written after they were archived", async () => {
+    const logDir = getTestLogDir("114");
+    await fs.mkdir(logDir, { recursive: true });
+    const logFile = path.join(logDir, "2024-04-01.log");
+    const archived = `{"level":30,"time":1711929600000,"msg":"one"}\n`;
+    const late = `{"level":30,"time":1711929700000,"msg":"late"}\n`;
+    await fs.writeFile(logFile, archived);
+    const options = createResolvedOptions("114", {
+      archive: { frequency: "daily", path: TEST_ARCHIVE_DIR },
+    });
+
+    // A line appended once the archive is created and verified, before the log file is deleted
+    const syncFile = fileModule.syncFile;
+    const syncSpy = spyOn(fileModule, "syncFile").mockImplementation(async (file) => {
+      if (!(await fs.readFile(logFile, "utf-8")).includes(late)) {
+        await fs.appendFile(logFile, late);
+      }
+      return syncFile(file);
+    });
+    try {
+      await runArchiveWorker(options);
+    } finally {
+      syncSpy.mockRestore();
+    }
+
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    expect(await fs.readFile(logFile, "utf-8")).toBe(archived + late);
+    let manifest = JSON.parse(await fs.readFile(path.join(archiveDir, "index.json"), "utf-8"));
+    expect(manifest.archives[0].files).toEqual([
+      { name: "2024-04-01.log", bytes: archived.length, lines: 1 },
+    ]);
+
+    // The next run archives the whole file
+    await runArchiveWorker(options);
+    expect(await fileExists(logFile)).toBe(false);
+    manifest = JSON.parse(await fs.readFile(path.join(archiveDir, "index.json"), "utf-8"));
+    expect(manifest.archives.map((r: ArchiveRecord) => r.archive)).toEqual([
+      "2024-04-01-archive.tar.gz",
+      "2024-04-01-archive-1.tar.gz",
+    ]);
+    expect(manifest.archives[1].files[0].lines).toBe(2);
+  });
+
+  it("50 - should record archives in the manifest", async () => {
+    const logDir = getTestLogDir("50");
+    await fs.mkdir(logDir, { recursive: true });
+    const first = new Date(`${yesterdayStr}T08:00:00.000Z`);
+    const last = new Date(`${yesterdayStr}T09:30:00.000Z`);
+    await fs.writeFile(
+      path.join(logDir, `${yesterdayStr}.log`),
+      `{"level":30,"time":${last.getTime()},"msg":"b"}\n{"level":30,"time":${first.getTime()},"msg":"a"}\n`,
+    );
+    await fs.writeFile(
+      path.join(logDir, `${yesterdayStr}~10-00-00~000.log`),
+      `{"level":30,"time":"${first.toISOString()}","msg":"iso"}\n{"msg":"no time"}\n`,
+    );
+
+    await runArchiveWorker(createResolvedOptions("50", {
+      archive: { frequency: "daily", path: TEST_ARCHIVE_DIR },
+    }));
+
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    const manifest = JSON.parse(await fs.readFile(path.join(archiveDir, "index.json"), "utf-8"));
+    expect(manifest.version).toBe(1);
+    expect(manifest.archives.length).toBe(1);
+
+    const [record] = manifest.archives as ArchiveRecord[];
+    const archiveContent = await fs.readFile(path.join(archiveDir, record.archive));
+    expect(record.archive).toBe(`${yesterdayStr}-archive.tar.gz`);
+    expect(record.period).toBe(yesterdayStr);
+    expect(record.compression).toBe("gzip");
+    expect(record.files.map((file) => file.lines).sort()).toEqual([2, 2]);
+    expect(record.lines).toBe(4);
+    expect(record.bytes).toBe(record.files[0].bytes + record.files[1].bytes);
+    expect(record.compressedBytes).toBe(archiveContent.length);
+    expect(record.sha256).toBe(createHash("sha256").update(archiveContent).digest("hex"));
+    expect(record.firstTime).toBe(first.toISOString());
+    expect(record.lastTime).toBe(last.toISOString());
+    expect(record.deletedAt).toBeUndefined();
+  });
+
+  it("100 - should take over the manifest lock of a dead process, but not of a slow live one", async () => {
+    const logDir = getTestLogDir("100");
+    const lockPath = getManifestLockPath(logDir);
+    const child = spawn(process.execPath, ["-e", ""]);
+    await new Promise((resolve) => child.on("exit", resolve));
+    await fs.mkdir(lockPath, { recursive: true });
+    await fs.writeFile(
+      path.join(lockPath, LOCK_PATHS.LOCK_OWNER),
+      JSON.stringify({ pid: child.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() }),
+    );
+
+    // Fresh lock of a dead process: taken over right away
+    const start = Date.now();
+    expect(await withManifestLock(logDir, async () => "updated")).toBe("updated");
+    expect(Date.now() - start).toBeLessThan(LOCK_SETTINGS.MANIFEST_STALE_MS);
+    expect(await fileExists(lockPath)).toBe(false);
+
+    // A live holder keeping the lock longer than the stale timeout keeps it
+    const staleMs = LOCK_SETTINGS.MANIFEST_STALE_MS;
+    Object.assign(LOCK_SETTINGS, { MANIFEST_STALE_MS: 100 });
+    try {
+      const order: string[] = [];
+      const slow = withManifestLock(logDir, async () => {
+        order.push("slow:start");
+        await new Promise((resolve) => setTimeout(resolve, 400));
+        order.push("slow:end");
+      });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await withManifestLock(logDir, async () => {
+        order.push("other");
+      });
+      await slow;
+      expect(order).toEqual(["slow:start", "slow:end", "other"]);
+    } finally {
+      Object.assign(LOCK_SETTINGS, { MANIFEST_STALE_MS: staleMs });
+    }
+  });
+
+  it("51 - should mark archives deleted by retention in the manifest", async () => {
+    const logDir = getTestLogDir("51");
+    await fs.mkdir(logDir, { recursive: true });
+
+    const oldDate = new Date();
+    oldDate.setDate(oldDate.getDate() - 10);
+    const oldDateStr = oldDate.toISOString().slice(0, 10);
+    await fs.writeFile(path.join(logDir, `${oldDateStr}.log`), `{"msg":"old"}\n`);
+    await fs.writeFile(path.join(logDir, `${yesterdayStr}.log`), `{"msg":"recent"}\n`);
+
+    const options = createResolvedOptions("51", {
+      archive: { frequency: "daily", path: TEST_ARCHIVE_DIR },
+      retention: { duration: "7d" },
+    });
+    await runArchiveWorker(options);
+    await runRetentionWorker(options);
+
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    expect(await fs.readdir(archiveDir)).toEqual(
+      expect.arrayContaining([`${yesterdayStr}-archive.tar.gz`, "index.json"]),
+    );
+    expect(await fs.readdir(archiveDir)).not.toContain(`${oldDateStr}-archive.tar.gz`);
+
+    const manifest = JSON.parse(await fs.readFile(path.join(archiveDir, "index.json"), "utf-8"));
+    const records = new Map<string, ArchiveRecord>(
+      manifest.archives.map((record: ArchiveRecord) => [record.period, record]),
+    );
+    expect(records.get(oldDateStr)?.deletedAt).toBeDefined();
+    expect(records.get(yesterdayStr)?.deletedAt).toBeUndefined();
+  });
+
+  it("should generate and parse archive filenames of every format", () => {
+    expect(getArchiveFilename("2024-12", undefined, 0, "brotli")).toBe("2024-12-archive.tar.br");
+    expect(getArchiveFilename("2024-12", undefined, 2, "none")).toBe("2024-12-archive-2.tar");
+    expect(parseArchiveFilename("2024-12-archive.tar.br", "local")?.getMonth()).toBe(11);
+    expect(parseArchiveFilename("2024-12-archive-2.tar", "local")?.getMonth()).toBe(11);
+    expect(parseArchiveFilename("2024-12-archive.tar.zst", "local")).toBeNull();
+  });
+});
+
+describe("Archive Consolidation", () => {
+  // List the entries of an archive with their sizes
+  const listEntries = async (file: string) => {
+    const entries: Record<string, number> = {};
+    await tar.t({
+      file,
+      onReadEntry: (entry) => {
+        entries[entry.path] = entry.size;
+      },
+    });
+    return entries;
+  };
+
+  it("52 - should merge old hourly archives into daily archives without losing files", async () => {
+    const logDir = getTestLogDir("52");
+    await fs.mkdir(logDir, { recursive: true });
+    const options = createResolvedOptions("52", {
+      archive: { frequency: "hourly", path: TEST_ARCHIVE_DIR, consolidation: { daily: "7d" } },
+    });
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    const yesterdayStr = yesterday.toISOString().slice(0, 10);
+
+    // Two hours of an old day, the second one archived twice (same log file name)
+    await fs.writeFile(path.join(logDir, "2024-01-05~01.log"), `{"msg":"one"}\n`);
+    await fs.writeFile(path.join(logDir, "2024-01-05~02.log"), `{"msg":"two"}\n`);
+    await runArchiveWorker(options);
+    await fs.writeFile(path.join(logDir, "2024-01-05~02.log"), `{"msg":"late"}\n{"msg":"two"}\n`);
+    await fs.writeFile(path.join(logDir, `${yesterdayStr}~05.log`), `{"msg":"recent"}\n`);
+    await runArchiveWorker(options);
+
+    await runConsolidationWorker(options);
+
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    expect((await readArchiveDir(archiveDir)).sort()).toEqual([
+      "2024-01-05-archive.tar.gz",
+      `${yesterdayStr}~05-archive.tar.gz`,
+    ]);
+
+    const entries = await listEntries(path.join(archiveDir, "2024-01-05-archive.tar.gz"));
+    expect(entries).toEqual({
+      "2024-01-05~01.log": 14,
+      "2024-01-05~02.log": 14,
+      "2024-01-05~02-archive-1.tar.gz/2024-01-05~02.log": 29,
+    });
+
+    const manifest = JSON.parse(await fs.readFile(path.join(archiveDir, "index.json"), "utf-8"));
+    const records = manifest.archives as ArchiveRecord[];
+    const merged = records.filter((record) => record.period.startsWith("2024-01-05~"));
+    expect(merged.length).toBe(3);
+    for (const record of merged) {
+      expect(record.consolidatedInto).toBe("2024-01-05-archive.tar.gz");
+      expect(record.deletedAt).toBeDefined();
+    }
+    const daily = records.find((record) => record.archive === "2024-01-05-archive.tar.gz");
+    expect(daily?.period).toBe("2024-01-05");
+    expect(daily?.files.length).toBe(3);
+    expect(daily?.lines).toBe(4);
+  });
+
+  it("101 - should flush new archives to disk before deleting the files they replace", async () => {
+    const logDir = getTestLogDir("101");
+    await fs.mkdir(logDir, { recursive: true });
+    const options = createResolvedOptions("101", {
+      archive: { frequency: "hourly", path: TEST_ARCHIVE_DIR, consolidation: { daily: "7d" } },
+    });
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    const log = path.join(logDir, "2024-01-05~01.log");
+    const source = path.join(archiveDir, "2024-01-05~01-archive.tar.gz");
+    await fs.writeFile(log, `{"msg":"one"}\n`);
+    await fs.writeFile(path.join(logDir, "2024-01-05~02.log"), `{"msg":"two"}\n`);
+
+    // Record each flush, and whether the replaced files were still there
+    const calls: string[] = [];
+    const syncFile = fileModule.syncFile;
+    const syncDir = fileModule.syncDir;
+    const fileSpy = spyOn(fileModule, "syncFile").mockImplementation(async (file) => {
+      calls.push(`file ${path.basename(file)}`);
+      return syncFile(file);
+    });
+    const dirSpy = spyOn(fileModule, "syncDir").mockImplementation(async (dir) => {
+      calls.push(`dir ${path.basename(dir)} log=${await fileExists(log)} source=${await fileExists(source)}`);
+      return syncDir(dir);
+    });
+
+    try {
+      await runArchiveWorker(options);
+      await runConsolidationWorker(options);
+    } finally {
+      fileSpy.mockRestore();
+      dirSpy.mockRestore();
+    }
+
+    expect(calls).toEqual([
+      "file .2024-01-05~01-archive.tar.gz.tmp",
+      `dir ${TEST_ARCHIVE_DIR} log=true source=true`,
+      "file .2024-01-05~02-archive.tar.gz.tmp",
+      `dir ${TEST_ARCHIVE_DIR} log=false source=true`,
+      "file 2024-01-05-archive.tar.gz",
+      `dir ${TEST_ARCHIVE_DIR} log=false source=true`,
+    ]);
+    expect(await readArchiveDir(archiveDir)).toEqual(["2024-01-05-archive.tar.gz"]);
+  });
+
+  it("53 - should merge old hourly and daily archives into monthly archives", async () => {
+    const logDir = getTestLogDir("53");
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    await fs.mkdir(archiveDir, { recursive: true });
+
+    await fs.writeFile(path.join(logDir, "2024-02-03.log"), `{"msg":"day"}\n`);
+    await fs.writeFile(path.join(logDir, "2024-02-04~05.log"), `{"msg":"hour"}\n`);
+    await tar.c({ gzip: true, file: path.join(archiveDir, "2024-02-03-archive.tar.gz"), cwd: logDir }, [
+      "2024-02-03.log",
+    ]);
+    await tar.c({ file: path.join(archiveDir, "2024-02-04~05-archive.tar"), cwd: logDir }, [
+      "2024-02-04~05.log",
+    ]);
+    // Only the archives are left to consolidate
+    await fs.rm(path.join(logDir, "2024-02-03.log"));
+    await fs.rm(path.join(logDir, "2024-02-04~05.log"));
+
+    const stream = createTransport({
+      ...createOptions("53"),
+      archive: {
+        enabled: true,
+        runOnCreation: true,
+        frequency: "daily",
+        compression: "brotli",
+        path: TEST_ARCHIVE_DIR,
+        consolidation: { monthly: "60d" },
+      },
+    });
+    const consolidated = await new Promise<ArchiveConsolidateEvent>((resolve) => {
+      stream.once("archive:consolidate", resolve);
+    });
+    await stream.close();
+
+    expect(consolidated.period).toBe("2024-02");
+    expect(consolidated.archive).toBe("2024-02-archive.tar.br");
+    expect(consolidated.sources).toEqual(["2024-02-03-archive.tar.gz", "2024-02-04~05-archive.tar"]);
+    expect(await readArchiveDir(archiveDir)).toEqual(["2024-02-archive.tar.br"]);
+
+    const entries: string[] = [];
+    await tar.t({
+      file: path.join(archiveDir, "2024-02-archive.tar.br"),
+      brotli: true,
+      onReadEntry: (entry) => {
+        entries.push(entry.path);
+      },
+    });
+    expect(entries.sort()).toEqual(["2024-02-03.log", "2024-02-04~05.log"]);
+  });
+
+  it("54 - should delete the sources left by an interrupted consolidation", async () => {
+    const logDir = getTestLogDir("54");
+    await fs.mkdir(logDir, { recursive: true });
+    const options = createResolvedOptions("54", {
+      archive: { frequency: "hourly", path: TEST_ARCHIVE_DIR, consolidation: { daily: "7d" } },
+    });
+    await fs.writeFile(path.join(logDir, "2024-03-01~10.log"), `{"msg":"one"}\n`);
+    await runArchiveWorker(options);
+
+    // Keep a copy of the source, as if the worker died before deleting it
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    const source = path.join(archiveDir, "2024-03-01~10-archive.tar.gz");
+    const content = await fs.readFile(source);
+    await runConsolidationWorker(options);
+    await fs.writeFile(source, content);
+
+    await runConsolidationWorker(options);
+    expect(await readArchiveDir(archiveDir)).toEqual(["2024-03-01-archive.tar.gz"]);
+  });
+
+  it("55 - should throw error for an invalid consolidation policy", () => {
+    expect(() => {
+      createTransport({
+        ...createOptions("55"),
+        archive: { frequency: "daily", consolidation: { daily: "7d" } },
+      });
+    }).toThrow(/archive.consolidation.daily requires archive.frequency "hourly"/);
+    expect(() => {
+      createTransport({
+        ...createOptions("55"),
+        archive: { frequency: "weekly", consolidation: { monthly: "60d" } },
+      });
+    }).toThrow(/archive.consolidation.monthly requires/);
+    expect(() => {
+      createTransport({
+        ...createOptions("55"),
+        archive: { frequency: "hourly", consolidation: { daily: "30d", monthly: "7d" } },
+      });
+    }).toThrow(/must be >= archive.consolidation.daily/);
+    expect(() => {
+      createTransport({
+        ...createOptions("55"),
+        // @ts-expect-error - Invalid format
+        archive: { frequency: "hourly", consolidation: { daily: "7 days" } },
+      });
+    }).toThrow(/Invalid duration format/);
+  });
+});
+
+describe("Archive Sinks", () => {
+  // Minimal S3-compatible server: PUT and HEAD objects, failing the first `failures` uploads
+  const startS3Server = async (failures = 0, stalls = 0) => {
+    const objects = new Map<string, Buffer>();
+    const requests: { method?: string; url?: string; authorization?: string }[] = [];
+    const server = http.createServer((req, res) => {
+      requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization });
+      // A stalled request is read but never answered
+      if (stalls-- > 0) {
+        req.resume();
+        return;
+      }
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk) => chunks.push(chunk));
+      req.on("end", () => {
+        const body = Buffer.concat(chunks);
+        const md5 = createHash("md5").update(body);
+        if (req.method === "PUT") {
+          if (failures-- > 0 || req.headers["content-md5"] !== md5.copy().digest("base64")) {
+            res.statusCode = 500;
+            res.end("<Error><Code>InternalError</Code></Error>");
+            return;
+          }
+          objects.set(req.url as string, body);
+          res.setHeader("ETag", `"${md5.digest("hex")}"`);
+          res.end();
+          return;
+        }
+        const object = objects.get(req.url as string);
+        res.statusCode = object ? 200 : 404;
+        if (object) {
+          res.setHeader("Content-Length", object.length);
+          res.setHeader("ETag", `"${createHash("md5").update(object).digest("hex")}"`);
+        }
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as { port: number };
+    return { endpoint: `http://127.0.0.1:${port}`, objects, requests, server };
+  };
+
+  it("56 - should copy archives to a filesystem sink and delete the local copy", async () => {
+    const logDir = getTestLogDir("56");
+    const sinkDir = path.join(getTestLogDir("56"), "..", "test-56-nas");
+    await fs.mkdir(logDir, { recursive: true });
+    await fs.writeFile(path.join(logDir, "2024-04-01.log"), `{"msg":"one"}\n`);
+
+    await runArchiveWorker(createResolvedOptions("56", {
+      archive: {
+        frequency: "daily",
+        path: TEST_ARCHIVE_DIR,
+        sink: { type: "fs", path: sinkDir, retries: 0, retryDelay: 0, deleteLocal: true, root: logDir },
+      },
+    }));
+
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    const copy = path.join(sinkDir, TEST_ARCHIVE_DIR, "2024-04-01-archive.tar.gz");
+    expect(await readArchiveDir(archiveDir)).toEqual([]);
+    expect(await fileExists(copy)).toBe(true);
+
+    const manifest = JSON.parse(await fs.readFile(path.join(archiveDir, "index.json"), "utf-8"));
+    const [record] = manifest.archives as ArchiveRecord[];
+    expect(record.destination).toBe(path.resolve(copy));
+    expect(record.deletedAt).toBeDefined();
+    expect(record.sha256).toBe(createHash("sha256").update(await fs.readFile(copy)).digest("hex"));
+  });
+
+  it("57 - should upload archives to an S3-compatible sink with retries", async () => {
+    const logDir = getTestLogDir("57");
+    await fs.mkdir(logDir, { recursive: true });
+    await fs.writeFile(path.join(logDir, "2024-04-01.log"), `{"msg":"one"}\n`);
+    const s3 = await startS3Server(1);
+
+    try {
+      await runArchiveWorker(createResolvedOptions("57", {
+        archive: {
+          frequency: "daily",
+          path: TEST_ARCHIVE_DIR,
+          sink: {
+            type: "s3",
+            bucket: "logs",
+            endpoint: s3.endpoint,
+            prefix: "api/",
+            accessKeyId: "minio",
+            secretAccessKey: "minio-secret",
+            retries: 2,
+            retryDelay: 10,
+            deleteLocal: false,
+            root: logDir,
+          },
+        },
+      }));
+    } finally {
+      s3.server.close();
+    }
+
+    const archiveFile = path.join(logDir, TEST_ARCHIVE_DIR, "2024-04-01-archive.tar.gz");
+    expect(s3.requests.map((r) => r.method)).toEqual(["PUT", "PUT", "HEAD"]);
+    expect(s3.requests[1].url).toBe("/logs/api/archives/2024-04-01-archive.tar.gz");
+    expect(s3.requests[1].authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=minio\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=.*content-md5;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/,
+    );
+    expect(s3.objects.get(s3.requests[1].url as string)).toEqual(await fs.readFile(archiveFile));
+
+    const manifest = JSON.parse(
+      await fs.readFile(path.join(logDir, TEST_ARCHIVE_DIR, "index.json"), "utf-8"),
+    );
+    const [record] = manifest.archives as ArchiveRecord[];
+    expect(record.destination).toBe("s3://logs/api/archives/2024-04-01-archive.tar.gz");
+    expect(record.deletedAt).toBeUndefined();
+  });
+
+  it("58 - should keep archives whose upload failed and retry them on the next run", async () => {
+    const logDir = getTestLogDir("58");
+    await fs.mkdir(logDir, { recursive: true });
+    await fs.writeFile(path.join(logDir, "2024-04-01.log"), `{"msg":"one"}\n`);
+    const s3 = await startS3Server(3);
+    const options = createResolvedOptions("58", {
+      archive: {
+        frequency: "daily",
+        path: TEST_ARCHIVE_DIR,
+        sink: {
+          type: "s3",
+          bucket: "logs",
+          endpoint: s3.endpoint,
+          accessKeyId: "minio",
+          secretAccessKey: "minio-secret",
+          retries: 1,
+          retryDelay: 10,
+          deleteLocal: true,
+          root: logDir,
+        },
+      },
+    });
+
+    try {
+      await runArchiveWorker(options);
+      const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+      expect(await readArchiveDir(archiveDir)).toEqual(["2024-04-01-archive.tar.gz"]);
+      expect(s3.objects.size).toBe(0);
+
+      // Next run: no log file to archive, the pending archive is uploaded
+      await runArchiveWorker(options);
+      expect(await readArchiveDir(archiveDir)).toEqual([]);
+      expect([...s3.objects.keys()]).toEqual(["/logs/archives/2024-04-01-archive.tar.gz"]);
+    } finally {
+      s3.server.close();
+    }
+
+    const errors = await fs.readdir(path.join(logDir, ".meta", "error"));
+    const errorLog = await fs.readFile(path.join(logDir, ".meta", "error", errors[0]), "utf-8");
+    expect(errorLog).toContain("S3 upload of archives/2024-04-01-archive.tar.gz failed: 500");
+  });
+
+  it("111 - should keep the local archive when recording its sink copy fails", async () => {
+    const logDir = getTestLogDir("111");
+    const sinkDir = path.join(getTestLogDir("111"), "..", "test-111-nas");
+    await fs.mkdir(logDir, { recursive: true });
+    await fs.writeFile(path.join(logDir, "2024-04-01.log"), `{"msg":"one"}\n`);
+
+    // The first manifest write records the archive, the second one its sink copy
+    const rename = fs.rename;
+    let manifestWrites = 0;
+    const renameSpy = spyOn(fs, "rename").mockImplementation(async (from, to) => {
+      if (String(to).endsWith("index.json") && ++manifestWrites === 2) {
+        throw new Error("manifest write failed");
+      }
+      return rename(from, to);
+    });
+
+    try {
+      await runArchiveWorker(createResolvedOptions("111", {
+        archive: {
+          frequency: "daily",
+          path: TEST_ARCHIVE_DIR,
+          sink: { type: "fs", path: sinkDir, retries: 0, retryDelay: 0, deleteLocal: true, root: logDir },
+        },
+      }));
+    } finally {
+      renameSpy.mockRestore();
+    }
+
+    const archiveDir = path.join(logDir, TEST_ARCHIVE_DIR);
+    expect(await fileExists(path.join(archiveDir, "2024-04-01-archive.tar.gz"))).toBe(true);
+    const manifest = JSON.parse(await fs.readFile(path.join(archiveDir, "index.json"), "utf-8"));
+    const [record] = manifest.archives as ArchiveRecord[];
+    expect(record.destination).toBeUndefined();
+    expect(record.deletedAt).toBeUndefined();
+  });
+
+  it("59 - should throw error for an invalid archive sink", () => {
+    expect(() => {
+      // @ts-expect-error - Invalid type
+      createTransport({ ...createOptions("59"), archive: { sink: { type: "ftp" } } });
+    }).toThrow(/Invalid 'archive.sink.type' option: "ftp"/);
+    expect(() => {
+      // @ts-expect-error - Missing bucket
+      createTransport({ ...createOptions("59"), archive: { sink: { type: "s3" } } });
+    }).toThrow(/'archive.sink.bucket' option is required/);
+    expect(() => {
+      createTransport({
+        ...createOptions("59"),
+        archive: { sink: { type: "fs", path: "/mnt/nas", retries: -1 } },
+      });
+    }).toThrow(/Invalid 'archive.sink.retries' option: -1/);
+    expect(() => {
+      createTransport({
+        ...createOptions("59"),
+        archive: { sink: { type: "s3", bucket: "logs", timeout: 0 } },
+      });
+    }).toThrow(/Invalid 'archive.sink.timeout' option: 0/);
+  });
+
+  it("112 - should time out a stalled S3 request and retry it", async () => {
+    const logDir = getTestLogDir("112");
+    await fs.mkdir(logDir, { recursive: true });
+    await fs.writeFile(path.join(logDir, "2024-04-01.log"), `{"msg":"one"}\n`);
+    const s3 = await startS3Server(0, 1);
+
+    try {
+      await runArchiveWorker(createResolvedOptions("112", {
+        archive: {
+          frequency: "daily",
+          path: TEST_ARCHIVE_DIR,
+          sink: {
+            type: "s3",
+            bucket: "logs",
+            endpoint: s3.endpoint,
+            accessKeyId: "minio",
+            secretAccessKey: "minio-secret",
+            timeout: 200,
+            retries: 1,
+            retryDelay: 10,
+            deleteLocal: false,
+            root: logDir,
+          },
+        },
+      }));
+    } finally {
+      s3.server.close();
+    }
+
+    expect(s3.requests.map((r) => r.method)).toEqual(["PUT", "PUT", "HEAD"]);
+    expect([...s3.objects.keys()]).toEqual(["/logs/archives/2024-04-01-archive.tar.gz"]);
+    const manifest = JSON.parse(
+      await fs.readFile(path.join(logDir, TEST_ARCHIVE_DIR, "index.json"), "utf-8"),
+    );
+    expect(manifest.archives[0].destination).toBe("s3://logs/archives/2024-04-01-archive.tar.gz");
+  });
+});
+
+describe("Retention Limits", () => {
+  // Date string of a day in the past
+  const daysAgo = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return date.toISOString().slice(0, 10);
+  };
+
+  it("60 - should keep the newest log files and archives with maxFiles", async () => {
+    const logDir = getTestLogDir("60");
+    const archivePath = path.join(logDir, TEST_ARCHIVE_DIR);
+    await fs.mkdir(archivePath, { recursive: true });
+
+    const logs = [10, 8, 6, 4].map((days) => `${daysAgo(days)}.log`);
+    for (const file of [...logs, todayFile]) {
+      await fs.writeFile(path.join(logDir, file), `{"msg":"${file}"}\n`);
+    }
+    const archives = [
+      `${daysAgo(40)}-archive.tar.gz`,
+      `${daysAgo(30)}-archive.tar.gz`,
+      `${daysAgo(30)}-archive-1.tar.gz`,
+      `${daysAgo(20)}-archive.tar.gz`,
+    ];
+    for (const file of archives) {
+      await fs.writeFile(path.join(archivePath, file), "fake archive content");
+    }
+
+    await runRetentionWorker(createResolvedOptions("60", {
+      archive: { path: TEST_ARCHIVE_DIR, enabled: false },
+      retention: { maxFiles: 3 },
+    }));
+
+    // Today's file is being written: it counts towards the limit
+    expect((await fs.readdir(logDir)).filter((f) => f.endsWith(".log")).sort()).toEqual(
+      [logs[2], logs[3], todayFile].sort(),
+    );
+    // The counter archive of a period is newer than the period's first archive
+    expect((await readArchiveDir(archivePath)).sort()).toEqual(archives.slice(1).sort());
+  });
+
+  it("61 - should delete the oldest files over maxTotalSize but never the active file", async () => {
+    const logDir = getTestLogDir("61");
+    await fs.mkdir(logDir, { recursive: true });
+
+    const logs = [3, 2, 1].map((days) => `${daysAgo(days)}.log`);
+    for (const file of logs) {
+      await fs.writeFile(path.join(logDir, file), "x".repeat(400));
+    }
+    await fs.writeFile(path.join(logDir, todayFile), "x".repeat(400));
+
+    await runRetentionWorker(createResolvedOptions("61", {
+      archive: { path: TEST_ARCHIVE_DIR, enabled: false },
+      retention: { maxTotalSize: 1024 },
+    }));
+
+    // 1600 bytes: the two oldest files are deleted to fit in 1KB
+    expect((await fs.readdir(logDir)).sort()).toEqual([logs[2], todayFile].sort());
+
+    // An active file larger than the limit is kept, every other file is deleted
+    await fs.writeFile(path.join(logDir, todayFile), "x".repeat(2048));
+    await runRetentionWorker(createResolvedOptions("61", {
+      archive: { path: TEST_ARCHIVE_DIR, enabled: false },
+      retention: { maxTotalSize: 1024 },
+    }));
+    expect(await fs.readdir(logDir)).toEqual([todayFile]);
+  });
+
+  it("62 - should combine count limits with the retention duration", async () => {
+    const logDir = getTestLogDir("62");
+    await fs.mkdir(logDir, { recursive: true });
+
+    const logs = [10, 5, 4, 3, 2].map((days) => `${daysAgo(days)}.log`);
+    for (const file of [...logs, todayFile]) {
+      await fs.writeFile(path.join(logDir, file), `{"msg":"${file}"}\n`);
+    }
+
+    await runRetentionWorker(createResolvedOptions("62", {
+      archive: { path: TEST_ARCHIVE_DIR, enabled: false },
+      retention: { duration: "7d", maxFiles: 4 },
+    }));
+
+    // The 10 day old file is expired, then the 5 day old file exceeds the count
+    expect((await fs.readdir(logDir)).sort()).toEqual([logs[2], logs[3], logs[4], todayFile].sort());
+  });
+
+  it("63 - should throw error for invalid retention limits", () => {
+    expect(() => {
+      createTransport({ ...createOptions("63"), retention: { maxFiles: 0 } });
+    }).toThrow(/Invalid 'retention.maxFiles' option: 0/);
+    expect(() => {
+      createTransport({ ...createOptions("63"), retention: { maxFiles: 2.5 } });
+    }).toThrow(/Invalid 'retention.maxFiles' option: 2.5/);
+    expect(() => {
+      // @ts-expect-error - Invalid format
+      createTransport({ ...createOptions("63"), retention: { maxTotalSize: "20 gigabytes" } });
+    }).toThrow(/Invalid size format/);
+    expect(() => {
+      createTransport({ ...createOptions("63"), retention: { maxTotalSize: "0GB" } });
+    }).toThrow(/Invalid 'retention.maxTotalSize' option: "0GB"/);
+  });
+
+  it("64 - should apply separate retention policies to logs and archives", async () => {
+    const logDir = getTestLogDir("64");
+    const archivePath = path.join(logDir, TEST_ARCHIVE_DIR);
+    await fs.mkdir(archivePath, { recursive: true });
+
+    const logs = [10, 5, 2].map((days) => `${daysAgo(days)}.log`);
+    for (const file of [...logs, todayFile]) {
+      await fs.writeFile(path.join(logDir, file), `{"msg":"${file}"}\n`);
+    }
+    const archives = [400, 100, 10].map((days) => `${daysAgo(days)}-archive.tar.gz`);
+    for (const file of archives) {
+      await fs.writeFile(path.join(archivePath, file), "fake archive content");
+    }
+
+    await runRetentionWorker(createResolvedOptions("64", {
+      archive: { path: TEST_ARCHIVE_DIR, enabled: false },
+      retention: { logs: { duration: "3d" }, archives: { duration: "1y" } },
+    }));
+
+    expect((await fs.readdir(logDir)).filter((f) => f.endsWith(".log")).sort()).toEqual(
+      [logs[2], todayFile].sort(),
+    );
+    expect((await readArchiveDir(archivePath)).sort()).toEqual(archives.slice(1).sort());
+  });
+
+  it("65 - should inherit the top-level retention policy", async () => {
+    const logDir = getTestLogDir("65");
+    const archivePath = path.join(logDir, TEST_ARCHIVE_DIR);
+    await fs.mkdir(archivePath, { recursive: true });
+
+    const logs = [10, 5].map((days) => `${daysAgo(days)}.log`);
+    for (const file of [...logs, todayFile]) {
+      await fs.writeFile(path.join(logDir, file), `{"msg":"${file}"}\n`);
+    }
+    const archives = [40, 10, 5].map((days) => `${daysAgo(days)}-archive.tar.gz`);
+    for (const file of archives) {
+      await fs.writeFile(path.join(archivePath, file), "fake archive content");
+    }
+
+    // Archives keep the top-level duration and add a count limit, logs override the duration
+    await runRetentionWorker(createResolvedOptions("65", {
+      archive: { path: TEST_ARCHIVE_DIR, enabled: false },
+      retention: { duration: "30d", logs: { duration: "7d" }, archives: { maxFiles: 1 } },
+    }));
+
+    expect((await fs.readdir(logDir)).filter((f) => f.endsWith(".log")).sort()).toEqual(
+      [logs[1], todayFile].sort(),
+    );
+    expect(await readArchiveDir(archivePath)).toEqual([archives[2]]);
+  });
+
+  it("66 - should validate the constraints of each retention policy", () => {
+    // Raw logs cannot be deleted before they are archived
+    expect(() => {
+      createTransport({
+        ...createOptions("66"),
+        archive: { enabled: true, frequency: "weekly" },
+        retention: { logs: { duration: "3d" }, archives: { duration: "1y" } },
+      });
+    }).toThrow(/retention.logs.duration \("3d"\) must be >= archive.frequency/);
+    expect(() => {
+      createTransport({
+        ...createOptions("66"),
+        archive: { enabled: true, frequency: "monthly" },
+        retention: { logs: { duration: "60d" }, archives: { duration: "2w" } },
+      });
+    }).toThrow(/retention.archives.duration \("2w"\) must be >= archive.frequency/);
+    expect(() => {
+      createTransport({
+        ...createOptions("66"),
+        retention: { archives: { maxFiles: -1 } },
+      });
+    }).toThrow(/Invalid 'retention.archives.maxFiles' option: -1/);
+
+    // Archives may be kept longer than raw logs
+    const stream = createTransport({
+      ...createOptions("66"),
+      archive: { enabled: true, frequency: "daily", runOnCreation: false },
+      retention: { logs: { duration: "3d" }, archives: { duration: "1y" } },
+    });
+    stream.end();
+  });
+
+  it("should select expired entries with the limit they exceed", () => {
+    const entry = (file: string, day: number, size: number) => ({
+      file,
+      date: new Date(2024, 0, day),
+      size,
+    });
+    const entries = [entry("a", 1, 100), entry("b", 2, 100), entry("c", 3, 500)];
+    const active = entry("d", 4, 100);
+
+    expect(
+      selectExpiredEntries(entries, { cutoff: new Date(2024, 0, 2) }).map((e) => e.reason),
+    ).toEqual(["age"]);
+    expect(
+      selectExpiredEntries(entries, { maxFiles: 2 }, [active]).map((e) => e.entry.file),
+    ).toEqual(["a", "b"]);
+    expect(
+      selectExpiredEntries(entries, { cutoff: new Date(2024, 0, 2), maxTotalSize: 600 }, [active]),
+    ).toEqual([
+      { entry: entries[0], reason: "age" },
+      { entry: entries[1], reason: "size" },
+    ]);
+    expect(selectExpiredEntries(entries, {})).toEqual([]);
+  });
+});
+
+describe("Retention Trash and Legal Holds", () => {
+  // Date string of a day in the past
+  const daysAgo = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return date.toISOString().slice(0, 10);
+  };
+
+  // Trash directory name of a retention run some days ago
+  const trashBatch = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return date.toISOString().replace(/:/g, "-");
+  };
+
+  it("67 - should move expired files to the trash and purge them after the grace period", async () => {
+    const logDir = getTestLogDir("67");
+    const archivePath = path.join(logDir, TEST_ARCHIVE_DIR);
+    const trashPath = path.join(logDir, ".trash");
+    await fs.mkdir(archivePath, { recursive: true });
+
+    const oldLog = `${daysAgo(10)}.log`;
+    const oldArchive = `${daysAgo(20)}-archive.tar.gz`;
+    await fs.writeFile(path.join(logDir, oldLog), `{"msg":"old"}\n`);
+    await fs.writeFile(path.join(logDir, todayFile), `{"msg":"today"}\n`);
+    await fs.writeFile(path.join(archivePath, oldArchive), "fake archive content");
+
+    // Files trashed 10 days ago are past the grace period
+    const oldBatch = path.join(trashPath, trashBatch(10));
+    const purgedLog = `${daysAgo(30)}.log`;
+    const purgedArchive = `${daysAgo(40)}-archive.tar.gz`;
+    await fs.mkdir(path.join(oldBatch, TEST_ARCHIVE_DIR), { recursive: true });
+    await fs.writeFile(path.join(oldBatch, purgedLog), `{"msg":"purged"}\n`);
+    await fs.writeFile(path.join(oldBatch, TEST_ARCHIVE_DIR, purgedArchive), "fake archive content");
+
+    await runRetentionWorker(createResolvedOptions("67", {
+      archive: { path: TEST_ARCHIVE_DIR, enabled: false },
+      retention: { duration: "7d", mode: "trash", gracePeriod: "7d" },
+    }));
+
+    expect(await fs.readdir(logDir)).not.toContain(oldLog);
+    expect(await readArchiveDir(archivePath)).toEqual([]);
+
+    // The old batch is purged and removed, this run's batch holds the trashed files
+    const batches = await fs.readdir(trashPath);
+    expect(batches).toHaveLength(1);
+    const batch = path.join(trashPath, batches[0]);
+    expect((await fs.readdir(batch)).sort()).toEqual([oldLog, TEST_ARCHIVE_DIR].sort());
+    expect(await fs.readdir(path.join(batch, TEST_ARCHIVE_DIR))).toEqual([oldArchive]);
+  });
+
+  it("68 - should keep files held by the .hold file, in place and in the trash", async () => {
+    const logDir = getTestLogDir("68");
+    const archivePath = path.join(logDir, TEST_ARCHIVE_DIR);
+    await fs.mkdir(archivePath, { recursive: true });
+
+    const heldDay = daysAgo(10);
+    const heldLog = `${heldDay}.log`;
+    const otherLog = `${daysAgo(12)}.log`;
+    await fs.writeFile(path.join(logDir, heldLog), `{"msg":"held"}\n`);
+    await fs.writeFile(path.join(logDir, otherLog), `{"msg":"other"}\n`);
+    await fs.writeFile(path.join(logDir, todayFile), `{"msg":"today"}\n`);
+
+    // The monthly archive containing the held day is held too
+    const heldArchive = `${heldDay.slice(0, 7)}-archive.tar.gz`;
+    await fs.writeFile(path.join(archivePath, heldArchive), "fake archive content");
+
+    // A held file trashed before the hold is not purged
+    const oldBatch = path.join(logDir, ".trash", trashBatch(10));
+    await fs.mkdir(oldBatch, { recursive: true });
+    await fs.writeFile(path.join(oldBatch, heldLog.replace(".log", "~12-00-00.log")), "held\n");
+
+    await fs.writeFile(path.join(logDir, ".hold"), `# Case 1234\n${heldDay}\n`);
+
+    await runRetentionWorker(createResolvedOptions("68", {
+      archive: { path: TEST_ARCHIVE_DIR, enabled: false },
+      retention: { duration: "7d", mode: "trash", gracePeriod: "1d" },
+    }));
+
+    const files = await fs.readdir(logDir);
+    expect(files).toContain(heldLog);
+    expect(files).not.toContain(otherLog);
+    expect(await readArchiveDir(archivePath)).toEqual([heldArchive]);
+    expect(await fs.readdir(oldBatch)).toEqual([heldLog.replace(".log", "~12-00-00.log")]);
+  });
+
+  it("69 - should keep files held by the manifest and stop on an invalid hold", async () => {
+    const logDir = getTestLogDir("69");
+    const archivePath = path.join(logDir, TEST_ARCHIVE_DIR);
+    await fs.mkdir(archivePath, { recursive: true });
+
+    const heldArchive = `${daysAgo(20)}-archive.tar.gz`;
+    const otherArchive = `${daysAgo(30)}-archive.tar.gz`;
+    await fs.writeFile(path.join(archivePath, heldArchive), "fake archive content");
+    await fs.writeFile(path.join(archivePath, otherArchive), "fake archive content");
+    const manifestPath = path.join(archivePath, "index.json");
+    await fs.writeFile(
+      manifestPath,
+      JSON.stringify({ version: 1, archives: [], holds: ["not-a-period"] }),
+    );
+
+    const options = createResolvedOptions("69", {
+      archive: { path: TEST_ARCHIVE_DIR, enabled: false },
+      retention: { duration: "7d" },
+    });
+
+    // An invalid hold deletes nothing
+    await runRetentionWorker(options);
+    expect((await readArchiveDir(archivePath)).sort()).toEqual([heldArchive, otherArchive].sort());
+
+    await fs.writeFile(
+      manifestPath,
+      JSON.stringify({ version: 1, archives: [], holds: [daysAgo(20)] }),
+    );
+    await runRetentionWorker(options);
+    expect(await readArchiveDir(archivePath)).toEqual([heldArchive]);
+  });
+
+  it("70 - should throw error for an invalid retention mode or grace period", () => {
+    expect(() => {
+      // @ts-expect-error - Invalid mode
+      createTransport({ ...createOptions("70"), retention: { mode: "archive" } });
+    }).toThrow(/Invalid 'retention.mode' option: "archive"/);
+    expect(() => {
+      // @ts-expect-error - Invalid format
+      createTransport({ ...createOptions("70"), retention: { mode: "trash", gracePeriod: "1 week" } });
+    }).toThrow(/Invalid duration format/);
+  });
+
+  it("should match periods against legal holds", () => {
+    const holds = ["2024-01-12", "2023"].map((period) => getPeriodRange(period) as PeriodRange);
+
+    expect(isHeld(holds, getPeriodRange("2024-01-12~10") as PeriodRange)).toBe(true);
+    expect(isHeld(holds, getPeriodRange("2024-01") as PeriodRange)).toBe(true);
+    expect(isHeld(holds, getPeriodRange("2024-01-13") as PeriodRange)).toBe(false);
+    expect(isHeld(holds, getPeriodRange("2023-07-01") as PeriodRange)).toBe(true);
+    // Weekly archive of the week starting Monday 2024-01-08
+    expect(isHeld(holds, getPeriodRange("2024-01-08", true) as PeriodRange)).toBe(true);
+    expect(isHeld(holds, getPeriodRange("2024-01-08") as PeriodRange)).toBe(false);
+
+    expect(getPeriodRange("2024-13")).toBeNull();
+    expect(getPeriodRange("2024-01-15~24")).toBeNull();
+    expect(getPeriodRange("January")).toBeNull();
+  });
+});
+
+describe("Low Disk Space Guard", () => {
+  const MB = 1024 * 1024;
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  // Report the free space returned by `getFree` for every volume
+  const mockFreeSpace = (getFree: () => number) =>
+    spyOn(nodeFs, "statfsSync").mockImplementation(
+      () => ({ bavail: getFree() / 4096, bsize: 4096 }) as nodeFs.StatsFs,
+    );
+
+  // Disk guard entries of the .meta/error log
+  const readDiskErrors = async (logDir: string) => {
+    const errorDir = path.join(logDir, ".meta", "error");
+    const [file] = await fs.readdir(errorDir);
+    const content = await fs.readFile(path.join(errorDir, file), "utf-8");
+    return content.trim().split("\n").map((line) => JSON.parse(line)).filter((e) => e.context === "disk");
+  };
+
+  it("71 - should drop lines below the guard level while free space is low", async () => {
+    const logDir = getTestLogDir("71");
+    let free = 0;
+    const spy = mockFreeSpace(() => free);
+
+    try {
+      const stream = createTransport({
+        ...createOptions("71"),
+        diskGuard: { minFreeSpace: "1MB", action: "drop", minLevel: "error" },
+      });
+      const events: unknown[] = [];
+      stream.on("disk:low", (event) => events.push(event));
+      stream.on("disk:recovered", (event) => events.push(event));
+
+      // The first disk check finds free space low
+      await wait(600);
+      stream.write(`{"level":30,"msg":"checked"}\n`);
+      stream.write(`{"level":30,"msg":"dropped"}\n`);
+      stream.write(`{"level":50,"msg":"kept"}\n`);
+      expect(stream.getStats().linesDroppedLowDisk).toBe(1);
+
+      // The recheck timer finds free space back
+      free = 10 * MB;
+      await wait(2_200);
+      stream.write(`{"level":30,"msg":"recovered"}\n`);
+      await stream.close();
+
+      const content = await fs.readFile(path.join(logDir, todayFile), "utf-8");
+      expect(content).toContain("checked");
+      expect(content).not.toContain("dropped");
+      expect(content).toContain("kept");
+      expect(content).toContain("recovered");
+
+      expect(events).toEqual([
+        { path: logDir, free: 0, threshold: MB, action: "drop" },
+        { path: logDir, free: 10 * MB, threshold: MB, action: "drop", dropped: 1 },
+      ]);
+
+      await wait(100);
+      const errors = await readDiskErrors(logDir);
+      expect(errors).toHaveLength(2);
+      expect(errors[0].msg).toContain("below diskGuard.minFreeSpace");
+      expect(errors[1].msg).toContain("1 lines dropped");
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("108 - should drop each line of a multi-line chunk by its own level", async () => {
+    const logDir = getTestLogDir("108");
+    const spy = mockFreeSpace(() => 0);
+
+    try {
+      const stream = createTransport({
+        ...createOptions("108"),
+        diskGuard: { minFreeSpace: "1MB", action: "drop", minLevel: "error" },
+      });
+
+      // The first disk check finds free space low
+      await wait(600);
+      stream.write(`{"level":30,"msg":"checked"}\n`);
+      stream.write(
+        `{"level":30,"msg":"info-1"}\n{"level":50,"msg":"error-1"}\n{"level":30,"msg":"info-2"}\n{"level":60,"msg":"fatal-1"}\n`,
+      );
+      expect(stream.getStats().linesDroppedLowDisk).toBe(2);
+      await stream.close();
+
+      const content = await fs.readFile(path.join(logDir, todayFile), "utf-8");
+      expect(content.match(/"msg":"[^"]+"/g)).toEqual([
+        '"msg":"checked"',
+        '"msg":"error-1"',
+        '"msg":"fatal-1"',
+      ]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+  it("72 - should pause writes with backpressure until free space is back", async () => {
+    const logDir = getTestLogDir("72");
+    let free = 0;
+    const spy = mockFreeSpace(() => free);
+
+    try {
+      const stream = createTransport({
+        ...createOptions("72"),
+        diskGuard: { minFreeSpace: "1MB", action: "pause" },
+      });
+      let drained = false;
+      stream.on("disk:recovered", () => {
+        stream.once("drain", () => {
+          drained = true;
+        });
+      });
+
+      await wait(600);
+      stream.write(`{"level":30,"msg":"checked"}\n`);
+      expect(stream.write(`{"level":30,"msg":"held"}\n`)).toBe(false);
+      expect(stream.getStats().files[0]).toMatchObject({ lowDisk: true, pendingWrites: 1 });
+
+      stream.flush();
+      await wait(100);
+      expect(await fs.readFile(path.join(logDir, todayFile), "utf-8")).not.toContain("held");
+
+      free = 10 * MB;
+      await wait(2_200);
+      expect(drained).toBe(true);
+      expect(stream.getStats().files[0]).toMatchObject({ lowDisk: false, pendingWrites: 0 });
+      await stream.close();
+
+      expect(await fs.readFile(path.join(logDir, todayFile), "utf-8")).toContain("held");
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("73 - should write to the fallback directory while free space is low", async () => {
+    const logDir = getTestLogDir("73");
+    const fallbackDir = path.join(TEST_LOG_BASE_DIR, "test-73-fallback");
+    let free = 0;
+    const spy = mockFreeSpace(() => free);
+
+    try {
+      const stream = createTransport({
+        ...createOptions("73"),
+        diskGuard: { minFreeSpace: "1MB", action: "fallback", fallbackPath: fallbackDir },
+      });
+      const reasons: string[] = [];
+      stream.on("rotate", (event) => reasons.push(event.reason));
+
+      stream.write(`{"level":30,"msg":"primary"}\n`);
+      await wait(600);
+      stream.write(`{"level":30,"msg":"fallback"}\n`);
+      await wait(200);
+
+      free = 10 * MB;
+      await wait(2_200);
+      stream.write(`{"level":30,"msg":"back"}\n`);
+      await stream.close();
+
+      expect(reasons).toEqual(["disk", "disk"]);
+      const primary = await fs.readFile(path.join(logDir, todayFile), "utf-8");
+      expect(primary).toContain("primary");
+      expect(primary).not.toContain("fallback");
+      expect(primary).toContain("back");
+      expect(await fs.readFile(path.join(fallbackDir, todayFile), "utf-8")).toContain("fallback");
+      expect(stream.getStats().rotations.disk).toBe(2);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("74 - should delete the oldest unheld files until free space is back", async () => {
+    const logDir = getTestLogDir("74");
+    const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+    const heldLog = `${daysAgo(30)}.log`;
+    const oldestLog = `${daysAgo(20)}.log`;
+    const olderLog = `${daysAgo(10)}.log`;
+    await fs.mkdir(logDir, { recursive: true });
+    for (const file of [heldLog, oldestLog, olderLog]) {
+      await fs.writeFile(path.join(logDir, file), `{"msg":"${file}"}\n`);
+    }
+    await fs.writeFile(path.join(logDir, ".hold"), `${daysAgo(30)}\n`);
+
+    // Free space is back once the oldest unheld log is deleted
+    const spy = mockFreeSpace(() => (nodeFs.existsSync(path.join(logDir, oldestLog)) ? 0 : 10 * MB));
+
+    try {
+      const stream = createTransport({
+        ...createOptions("74"),
+        diskGuard: { minFreeSpace: "1MB", action: "retention" },
+      });
+      const deleted: unknown[] = [];
+      let recovered = false;
+      stream.on("retention:delete", (event) => deleted.push(event));
+      stream.on("disk:recovered", () => {
+        recovered = true;
+      });
+
+      await wait(600);
+      stream.write(`{"level":30,"msg":"checked"}\n`);
+      await wait(300);
+      await stream.close();
+
+      expect(deleted).toEqual([
+        { path: logDir, file: oldestLog, type: "log", reason: "space", trashed: false },
+      ]);
+      expect(recovered).toBe(true);
+      const files = await fs.readdir(logDir);
+      expect(files).toContain(heldLog);
+      expect(files).toContain(olderLog);
+      expect(files).toContain(todayFile);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("75 - should throw error for an invalid disk guard config", () => {
+    expect(() => {
+      // @ts-expect-error - Invalid action
+      createTransport({ ...createOptions("75"), diskGuard: { minFreeSpace: "1GB", action: "wait" } });
+    }).toThrow(/Invalid 'diskGuard.action' option: "wait"/);
+    expect(() => {
+      createTransport({ ...createOptions("75"), diskGuard: { minFreeSpace: "1GB", action: "fallback" } });
+    }).toThrow(/'diskGuard.fallbackPath' option is required/);
+    expect(() => {
+      createTransport({
+        ...createOptions("75"),
+        diskGuard: { minFreeSpace: "1GB", action: "drop", minLevel: "critical" },
+      });
+    }).toThrow(/unknown level "critical" for diskGuard.minLevel/);
+    expect(() => {
+      // @ts-expect-error - Invalid format
+      createTransport({ ...createOptions("75"), diskGuard: { minFreeSpace: "1 GB", action: "drop" } });
+    }).toThrow(/Invalid size format/);
+  });
+
+  it("96 - should delete archived files before the logs not archived yet", async () => {
+    const logDir = getTestLogDir("96");
+    const archivePath = path.join(logDir, "archives");
+    const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+    const unarchivedLog = `${daysAgo(30)}.log`;
+    const archivedLog = `${daysAgo(20)}.log`;
+    const newerLog = `${daysAgo(10)}.log`;
+    const archive = `${daysAgo(40)}-archive.tar.gz`;
+    await fs.mkdir(archivePath, { recursive: true });
+    for (const file of [unarchivedLog, archivedLog, newerLog]) {
+      await fs.writeFile(path.join(logDir, file), `{"msg":"${file}"}\n`);
+    }
+    await fs.writeFile(path.join(archivePath, archive), "archive");
+    // The archived log was left behind by an interrupted archive run
+    const record = { archive, files: [{ name: archivedLog, bytes: 10, lines: 1 }] };
+    await fs.writeFile(
+      path.join(archivePath, "index.json"),
+      JSON.stringify({ version: 1, archives: [record] }),
+    );
+
+    // Free space is back once the archive and the archived log are deleted
+    const spy = mockFreeSpace(() =>
+      nodeFs.existsSync(path.join(archivePath, archive)) ||
+      nodeFs.existsSync(path.join(logDir, archivedLog))
+        ? 0
+        : 10 * MB,
+    );
+
+    try {
+      const stream = createTransport({
+        ...createOptions("96"),
+        diskGuard: { minFreeSpace: "1MB", action: "retention" },
+      });
+      const deleted: unknown[] = [];
+      stream.on("retention:delete", (event) => deleted.push(event));
+
+      await wait(600);
+      stream.write(`{"level":30,"msg":"checked"}\n`);
+      await wait(300);
+      await stream.close();
+
+      expect(deleted).toEqual([
+        { path: logDir, file: archive, type: "archive", reason: "space", trashed: false },
+        { path: logDir, file: archivedLog, type: "log", reason: "space", trashed: false },
+      ]);
+      const files = await fs.readdir(logDir);
+      expect(files).toContain(unarchivedLog);
+      expect(files).toContain(newerLog);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("97 - should record the deletion of logs not archived yet, under the partitioned set's lock", async () => {
+    const logDir = getTestLogDir("97");
+    const partitionDir = path.join(logDir, "acme");
+    const oldLog = `${new Date(Date.now() - 20 * 86_400_000).toISOString().slice(0, 10)}.log`;
+    await fs.mkdir(partitionDir, { recursive: true });
+    await fs.writeFile(path.join(partitionDir, oldLog), `{"msg":"old"}\n`);
+
+    // A retention worker of another host runs on the partitioned file set
+    const lockPath = getWorkerLockPath(logDir, "retention");
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+    const now = new Date().toISOString();
+    await fs.writeFile(
+      lockPath,
+      JSON.stringify({ pid: 1, hostname: "other-host", token: "other", startedAt: now, heartbeat: now, attempt: 1 }),
+    );
+
+    const spy = mockFreeSpace(() => (nodeFs.existsSync(path.join(partitionDir, oldLog)) ? 0 : 10 * MB));
+
+    try {
+      const stream = createTransport({
+        ...createOptions("97"),
+        partition: { field: "tenant" },
+        diskGuard: { minFreeSpace: "1MB", action: "retention" },
+      });
+      const deleted: unknown[] = [];
+      stream.on("retention:delete", (event) => deleted.push(event));
+
+      // The partition stream checks free space at its next write
+      stream.write(`{"level":30,"tenant":"acme","msg":"first"}\n`);
+      await wait(600);
+      stream.write(`{"level":30,"tenant":"acme","msg":"second"}\n`);
+      await wait(300);
+      expect(deleted).toEqual([]);
+
+      // Retried at the next check once the worker is done
+      await fs.rm(lockPath);
+      await wait(2_500);
+      await stream.close();
+
+      expect(deleted).toEqual([
+        { path: partitionDir, file: oldLog, type: "log", reason: "space", trashed: false },
+      ]);
+      const retentionDir = path.join(partitionDir, ".meta", "retention");
+      const [metaLog] = await fs.readdir(retentionDir);
+      expect(await fs.readFile(path.join(retentionDir, metaLog), "utf-8")).toContain(
+        `Deleted unarchived log file: ${oldLog} (space)`,
+      );
+    } finally {
+      spy.mockRestore();
+    }
+  }, 10_000);
+});
+
+describe("Write Fallback", () => {
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  // Fail the writes to the stream's file and the opening of `file` while `isFailing()` is true
+  const mockWriteErrors = (stream: { fd: number }, file: string, isFailing: () => boolean) => {
+    const error = () => Object.assign(new Error("EROFS: read-only file system"), { code: "EROFS" });
+    const write = nodeFs.write;
+    const openSync = nodeFs.openSync;
+    const writeSpy = spyOn(nodeFs, "write").mockImplementation(((fd: number, ...args: unknown[]) => {
+      if (!isFailing() || fd !== stream.fd) return (write as Function)(fd, ...args);
+      const cb = args[args.length - 1] as (err: Error) => void;
+      process.nextTick(cb, error());
+    }) as typeof nodeFs.write);
+    const openSpy = spyOn(nodeFs, "openSync").mockImplementation(((target: string, ...args: unknown[]) => {
+      if (isFailing() && path.resolve(target) === path.resolve(file)) throw error();
+      return (openSync as Function)(target, ...args);
+    }) as typeof nodeFs.openSync);
+    return () => {
+      writeSpy.mockRestore();
+      openSpy.mockRestore();
+    };
+  };
+
+  it("76 - should buffer lines on persistent write errors and replay them in order", async () => {
+    const logDir = getTestLogDir("76");
+    const stream = createTransport({
+      ...createOptions("76"),
+      fallback: { type: "buffer", errorThreshold: 2, retryInterval: 200 },
+    });
+    const events: unknown[] = [];
+    stream.on("fallback:start", (event) => events.push(event));
+    stream.on("fallback:end", (event) => events.push(event));
+    const originalError = console.error;
+    console.error = () => {};
+
+    let failing = false;
+    const restore = mockWriteErrors(stream, path.join(logDir, todayFile), () => failing);
+    try {
+      stream.write(`{"msg":"before"}\n`);
+      await wait(100);
+
+      // Two failed writes make the errors persistent
+      failing = true;
+      stream.write(`{"msg":"failed-1"}\n`);
+      await wait(50);
+      stream.write(`{"msg":"failed-2"}\n`);
+      await wait(50);
+      expect(stream.getStats().files[0].fallback).toBe("buffer");
+
+      stream.write(`{"msg":"buffered-1"}\n`);
+      stream.write(`{"msg":"buffered-2"}\n`);
+
+      // The next retry switches back
+      failing = false;
+      await wait(300);
+      expect(stream.getStats().files[0].fallback).toBeNull();
+      await stream.close();
+    } finally {
+      restore();
+      console.error = originalError;
+    }
+
+    const content = await fs.readFile(path.join(logDir, todayFile), "utf-8");
+    const messages = content.trim().split("\n").map((line) => JSON.parse(line).msg);
+    expect(messages).toEqual(["before", "failed-1", "failed-2", "buffered-1", "buffered-2"]);
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({ path: logDir, type: "buffer", error: { code: "EROFS" } });
+    expect(events[1]).toEqual({ path: logDir, type: "buffer", replayed: 2 });
+
+    const errorDir = path.join(logDir, ".meta", "error");
+    const errorLog = await fs.readFile(path.join(errorDir, (await fs.readdir(errorDir))[0]), "utf-8");
+    expect(errorLog).toContain(`"context":"fallback"`);
+  });
+
+  it("77 - should write to the fallback directory and drop the oldest buffered lines", async () => {
+    const logDir = getTestLogDir("77");
+    const fallbackDir = path.join(TEST_LOG_BASE_DIR, "test-77-fallback");
+    const stream = createTransport({
+      ...createOptions("77"),
+      fallback: { type: "directory", path: fallbackDir, errorThreshold: 1, retryInterval: 60_000 },
+    });
+    const originalError = console.error;
+    console.error = () => {};
+
+    let failing = false;
+    const restore = mockWriteErrors(stream, path.join(logDir, todayFile), () => failing);
+    try {
+      stream.write(`{"msg":"before"}\n`);
+      await wait(100);
+      failing = true;
+      stream.write(`{"msg":"failed"}\n`);
+      await wait(50);
+      stream.write(`{"msg":"fallback"}\n`);
+      await wait(100);
+      expect(stream.getStats().files[0].fallback).toBe("directory");
+    } finally {
+      restore();
+      console.error = originalError;
+    }
+    await stream.close();
+
+    expect(await fs.readFile(path.join(fallbackDir, todayFile), "utf-8")).toContain("fallback");
+    // The failed write is kept by SonicBoom and written once the directory works again
+    const content = await fs.readFile(path.join(logDir, todayFile), "utf-8");
+    expect(content).toContain("failed");
+    expect(content).not.toContain(`"fallback"`);
+  });
+
+  it("78 - should throw error for an invalid fallback config", () => {
+    expect(() => {
+      // @ts-expect-error - Invalid type
+      createTransport({ ...createOptions("78"), fallback: { type: "memory" } });
+    }).toThrow(/Invalid 'fallback.type' option: "memory"/);
+    expect(() => {
+      // @ts-expect-error - Missing path
+      createTransport({ ...createOptions("78"), fallback: { type: "directory" } });
+    }).toThrow(/'fallback.path' option is required/);
+    expect(() => {
+      createTransport({ ...createOptions("78"), fallback: { type: "buffer", maxLines: 0 } });
+    }).toThrow(/Invalid 'fallback.maxLines' option: 0/);
+    expect(() => {
+      createTransport({ ...createOptions("78"), fallback: { type: "stderr", retryInterval: -1 } });
+    }).toThrow(/Invalid 'fallback.retryInterval' option: -1/);
+  });
+});
+
+describe("Rotation Buffer Limit", () => {
+  const lines = [1, 2, 3, 4, 5].map((n) => `{"msg":"line-${n}"}\n`);
+  const lineBytes = Buffer.byteLength(lines[0]);
+
+  // Rotate while another process holds the rotation lock (the rotation waits ~1s for it),
+  // writing the lines meanwhile
+  const rotateWithStalledLock = async (testNum: string, rotation: TransportOptions["rotation"]) => {
+    const logDir = getTestLogDir(testNum);
+    const stream = createTransport({ ...createOptions(testNum), rotation });
+    await fs.mkdir(path.join(logDir, ".locks", "rotation"), { recursive: true });
+
+    let newPath = "";
+    stream.on("rotate", (event) => {
+      newPath = event.newPath;
+    });
+    const rotating = stream.rotate();
+    const results = lines.map((line) => stream.write(line));
+    const during = stream.getStats().files[0];
+    await rotating;
+    await stream.close();
+
+    const content = await fs.readFile(newPath, "utf-8");
+    return { stream, results, during, messages: content.trim().split("\n").map((l) => JSON.parse(l).msg) };
+  };
+
+  it("79 - should drop the oldest buffered lines and record the count", async () => {
+    const { stream, during, messages } = await rotateWithStalledLock("79", {
+      maxPendingBytes: lineBytes * 3,
+      pendingOverflow: "drop-oldest",
+    });
+
+    expect(during).toMatchObject({ pendingWrites: 3, pendingBytes: lineBytes * 3 });
+    expect(messages).toEqual(["line-3", "line-4", "line-5"]);
+    expect(stream.getStats().linesDroppedPending).toBe(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const errorDir = path.join(getTestLogDir("79"), ".meta", "error");
+    const errorLog = await fs.readFile(path.join(errorDir, (await fs.readdir(errorDir))[0]), "utf-8");
+    expect(errorLog).toContain("dropped 2 lines (drop-oldest)");
+  });
+
+  it("80 - should drop the newest lines, or apply backpressure with block", async () => {
+    const dropped = await rotateWithStalledLock("80", {
+      maxPendingBytes: lineBytes * 3,
+      pendingOverflow: "drop-newest",
+    });
+    expect(dropped.messages).toEqual(["line-1", "line-2", "line-3"]);
+    expect(dropped.stream.getStats().linesDroppedPending).toBe(2);
+
+    const logDir = getTestLogDir("80-block");
+    const stream = createTransport({
+      ...createOptions("80-block"),
+      rotation: { maxPendingBytes: lineBytes * 3, pendingOverflow: "block" },
+    });
+    await fs.mkdir(path.join(logDir, ".locks", "rotation"), { recursive: true });
+    let drained = false;
+    const rotating = stream.rotate();
+    const results = lines.map((line) => stream.write(line));
+    stream.once("drain", () => {
+      drained = true;
+    });
+    await rotating;
+    await stream.close();
+
+    expect(results).toEqual([true, true, true, false, false]);
+    expect(drained).toBe(true);
+    expect(stream.getStats().linesDroppedPending).toBe(0);
+    expect(stream.getStats().linesWritten).toBe(5);
+  });
+
+  it("81 - should spill lines to a temporary file and replay them in order", async () => {
+    const tmpDirs = async () =>
+      (await fs.readdir(os.tmpdir())).filter((name) => name.startsWith("pino-file-transport-spill-"));
+    const before = await tmpDirs();
+
+    const { results, during, messages } = await rotateWithStalledLock("81", {
+      maxPendingBytes: lineBytes * 2,
+      pendingOverflow: "spill",
+    });
+
+    expect(results).toEqual([true, true, true, true, true]);
+    expect(during).toMatchObject({ pendingWrites: 5, pendingBytes: lineBytes * 2 });
+    expect(messages).toEqual(["line-1", "line-2", "line-3", "line-4", "line-5"]);
+    expect(await tmpDirs()).toEqual(before);
+  });
+
+  it("82 - should throw error for an invalid rotation buffer config", () => {
+    expect(() => {
+      createTransport({ ...createOptions("82"), rotation: { maxPendingBytes: 0 } });
+    }).toThrow(/Invalid 'rotation.maxPendingBytes' option: 0/);
+    expect(() => {
+      // @ts-expect-error - Invalid policy
+      createTransport({ ...createOptions("82"), rotation: { pendingOverflow: "wait" } });
+    }).toThrow(/Invalid 'rotation.pendingOverflow' option: "wait"/);
+  });
+});
+
+describe("Worker Lock", () => {
+  const WORKER_LOCK_MODULE = path.resolve(__dirname, "../src/locks/worker.ts");
+
+  // Child process racing for the archive lock until `HAMMER_UNTIL`: each run creates a marker
+  // file exclusively, so two concurrent runs are recorded as an overlap. Crashing children exit
+  // while holding the lock after their third run; abandoning children keep running but leave
+  // their locks behind, until they go stale.
+  const HAMMER_SCRIPT = `
+    const fs = require("node:fs");
+    const path = require("node:path");
+    const { tryAcquireWorkerLock, releaseWorkerLock } = require(process.env.LOCK_MODULE);
+    const { LOG_DIR: logDir, HAMMER_UNTIL: until, CRASH: crash, ABANDON: abandon } = process.env;
+    const staleTimeout = Number(process.env.STALE_TIMEOUT || 20000);
+    const marker = path.join(logDir, "running");
+    const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+    (async () => {
+      let runs = 0;
+      while (Date.now() < Number(until)) {
+        const lock = await tryAcquireWorkerLock(logDir, "archive", undefined, staleTimeout);
+        if (lock) {
+          let created = false;
+          try {
+            fs.writeFileSync(marker, String(process.pid), { flag: "wx" });
+            created = true;
+          } catch {
+            fs.appendFileSync(path.join(logDir, "overlaps"), process.pid + "\\n");
+          }
+          await sleep(5);
+          if (created) fs.rmSync(marker);
+          runs++;
+          fs.appendFileSync(path.join(logDir, "runs"), process.pid + "\\n");
+          if (crash && runs === 3) process.exit(0);
+          if (abandon) continue;
+          await releaseWorkerLock(logDir, "archive", undefined, lock.token);
+        }
+        await sleep(Math.random() * 3);
+      }
+    })();
+  `;
+
+  const runChild = (script: string, env: Record<string, string>) =>
+    new Promise<number>((resolve) => {
+      const child = spawn(process.execPath, ["-e", script], {
+        env: { ...process.env, LOCK_MODULE: WORKER_LOCK_MODULE, ...env },
+        stdio: "inherit",
+      });
+      child.on("exit", (code) => resolve(code ?? 1));
+    });
+
+  it("83 - should let only one process at a time hold the worker lock", async () => {
+    const logDir = getTestLogDir("83");
+    await fs.mkdir(logDir, { recursive: true });
+
+    const until = String(Date.now() + 3_000);
+    const codes = await Promise.all(
+      [0, 1, 2, 3, 4, 5].map((n) =>
+        runChild(HAMMER_SCRIPT, { LOG_DIR: logDir, HAMMER_UNTIL: until, CRASH: n < 2 ? "1" : "" }),
+      ),
+    );
+
+    expect(codes).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(await fileExists(path.join(logDir, "overlaps"))).toBe(false);
+    // The locks left by the crashed children were taken over
+    const runs = (await fs.readFile(path.join(logDir, "runs"), "utf-8")).trim().split("\n");
+    expect(new Set(runs).size).toBe(6);
+  }, 20_000);
+
+  it("84 - should take over the lock of a dead process, but not of another host", async () => {
+    const logDir = getTestLogDir("84");
+    const lockPath = getWorkerLockPath(logDir, "archive");
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+
+    // PID of a process that has exited
+    const child = spawn(process.execPath, ["-e", ""]);
+    await new Promise((resolve) => child.on("exit", resolve));
+    const lock = {
+      pid: child.pid,
+      hostname: os.hostname(),
+      token: "dead",
+      startedAt: new Date().toISOString(),
+      heartbeat: new Date().toISOString(),
+      attempt: 1,
+    };
+
+    await fs.writeFile(lockPath, JSON.stringify(lock));
+    expect(await checkStaleLock(logDir, "archive")).toMatchObject({ pid: child.pid });
+    const acquired = await tryAcquireWorkerLock(logDir, "archive");
+    expect(acquired).toMatchObject({ pid: process.pid, hostname: os.hostname(), attempt: 2 });
+    await releaseWorkerLock(logDir, "archive", undefined, acquired?.token as string);
+    expect(await fileExists(lockPath)).toBe(false);
+
+    // The PID cannot be checked on another host: only the heartbeat age counts
+    await fs.writeFile(lockPath, JSON.stringify({ ...lock, hostname: "other-host" }));
+    expect(await checkStaleLock(logDir, "archive")).toBeNull();
+    expect(await tryAcquireWorkerLock(logDir, "archive")).toBeNull();
+
+    // A lock of another process is not released
+    await releaseWorkerLock(logDir, "archive", undefined, "mine");
+    expect(await fileExists(lockPath)).toBe(true);
+  });
+
+  it("93 - should let only one process at a time take over a stale worker lock", async () => {
+    const logDir = getTestLogDir("93");
+    await fs.mkdir(logDir, { recursive: true });
+
+    const until = String(Date.now() + 4_000);
+    const codes = await Promise.all(
+      [0, 1, 2, 3, 4, 5].map((n) =>
+        runChild(HAMMER_SCRIPT, {
+          LOG_DIR: logDir,
+          HAMMER_UNTIL: until,
+          STALE_TIMEOUT: "150",
+          ABANDON: n < 3 ? "1" : "",
+        }),
+      ),
+    );
+
+    expect(codes).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(await fileExists(path.join(logDir, "overlaps"))).toBe(false);
+    // Abandoned locks were taken over, each of them by a single process
+    const runs = (await fs.readFile(path.join(logDir, "runs"), "utf-8")).trim().split("\n");
+    expect(runs.length).toBeGreaterThan(2);
+  }, 20_000);
+
+  it("94 - should tell apart two holders of one process by their lock token", async () => {
+    const logDir = getTestLogDir("94");
+    const lockPath = getWorkerLockPath(logDir, "archive");
+
+    const first = await tryAcquireWorkerLock(logDir, "archive", undefined, 200);
+    expect(first).not.toBeNull();
+    const firstToken = first?.token as string;
+    expect(await updateWorkerHeartbeat(logDir, "archive", undefined, firstToken)).toBe(true);
+
+    // The lock goes stale and another holder of this process takes it over
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const second = await tryAcquireWorkerLock(logDir, "archive", undefined, 200);
+    expect(second).toMatchObject({ pid: process.pid, attempt: 2 });
+    const secondToken = second?.token as string;
+
+    // The first holder lost the lock: it can neither refresh nor release it
+    expect(await updateWorkerHeartbeat(logDir, "archive", undefined, firstToken)).toBe(false);
+    await releaseWorkerLock(logDir, "archive", undefined, firstToken);
+    expect(await readWorkerLock(logDir, "archive")).toMatchObject({ token: secondToken });
+
+    await releaseWorkerLock(logDir, "archive", undefined, secondToken);
+    expect(await fileExists(lockPath)).toBe(false);
+  });
+
+  it("110 - should create worker locks on file systems without hard links", async () => {
+    const logDir = getTestLogDir("110");
+    const spy = spyOn(fs, "link").mockRejectedValue(
+      Object.assign(new Error("operation not permitted"), { code: "EPERM" }),
+    );
+
+    try {
+      const lock = await tryAcquireWorkerLock(logDir, "archive");
+      expect(lock).toMatchObject({ pid: process.pid, attempt: 1 });
+      expect(await readWorkerLock(logDir, "archive")).toMatchObject({ token: lock?.token });
+      // Still exclusive
+      expect(await tryAcquireWorkerLock(logDir, "archive")).toBeNull();
+
+      await releaseWorkerLock(logDir, "archive", undefined, lock?.token as string);
+      expect(await fileExists(getWorkerLockPath(logDir, "archive"))).toBe(false);
+      expect((await fs.readdir(path.join(logDir, ".locks"))).filter((f) => f.endsWith(".tmp"))).toEqual([]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
+
+describe("Rotation Lock", () => {
+  const writeLockOwner = async (logDir: string, pid: number) => {
+    const lockPath = path.join(logDir, ".locks", "rotation");
+    await fs.mkdir(lockPath, { recursive: true });
+    const owner = { pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+    await fs.writeFile(path.join(lockPath, "owner.json"), JSON.stringify(owner));
+    return lockPath;
+  };
+
+  const readErrorLog = async (logDir: string) => {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const errorDir = path.join(logDir, ".meta", "error");
+    if (!(await fileExists(errorDir))) return "";
+    return fs.readFile(path.join(errorDir, (await fs.readdir(errorDir))[0]), "utf-8");
+  };
+
+  it("85 - should take over the rotation lock of a dead process right away", async () => {
+    const logDir = getTestLogDir("85");
+    const child = spawn(process.execPath, ["-e", ""]);
+    await new Promise((resolve) => child.on("exit", resolve));
+    const lockPath = await writeLockOwner(logDir, child.pid as number);
+
+    const stream = createTransport(createOptions("85"));
+    const timeouts: unknown[] = [];
+    stream.on("lock:timeout", (event) => timeouts.push(event));
+
+    const start = Date.now();
+    await stream.rotate();
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(timeouts).toEqual([]);
+    // Released after the rotation
+    expect(await fileExists(lockPath)).toBe(false);
+    await stream.close();
+  });
+
+  it("109 - should put back a fresh lock whose owner file is not written yet", async () => {
+    const logDir = getTestLogDir("109");
+    const child = spawn(process.execPath, ["-e", ""]);
+    await new Promise((resolve) => child.on("exit", resolve));
+    const lockPath = await writeLockOwner(logDir, child.pid as number);
+
+    // Another process takes the stale lock over first: it has created the lock directory,
+    // but not written its owner file yet
+    const renameSync = nodeFs.renameSync;
+    const spy = spyOn(nodeFs, "renameSync").mockImplementation(((from: string, to: string) => {
+      if (to.endsWith(".stale")) {
+        nodeFs.rmSync(from, { recursive: true });
+        nodeFs.mkdirSync(from);
+      }
+      return renameSync(from, to);
+    }) as typeof nodeFs.renameSync);
+
+    try {
+      expect(tryAcquireDirectoryLock(lockPath, 10_000)).toBe(false);
+    } finally {
+      spy.mockRestore();
+    }
+    expect(await fileExists(lockPath)).toBe(true);
+    expect((await fs.readdir(path.dirname(lockPath))).filter((f) => f.endsWith(".stale"))).toEqual([]);
+  });
+
+  it("86 - should log a lock timeout and rotate without the lock in best-effort mode", async () => {
+    const logDir = getTestLogDir("86");
+    await writeLockOwner(logDir, process.ppid);
+
+    const stream = createTransport(createOptions("86"));
+    const timeouts: unknown[] = [];
+    stream.on("lock:timeout", (event) => timeouts.push(event));
+
+    await stream.rotate();
+    await stream.close();
+
+    expect(timeouts).toEqual([
+      {
+        path: logDir,
+        owner: expect.objectContaining({ pid: process.ppid, hostname: os.hostname() }),
+        mode: "best-effort",
+      },
+    ]);
+    expect(stream.getStats().rotations.manual).toBe(1);
+    expect(await readErrorLog(logDir)).toContain(
+      `Timed out waiting for the rotation lock (held by pid ${process.ppid}`,
+    );
+  });
+
+  it("87 - should keep lines buffered until the lock is released in strict mode", async () => {
+    const logDir = getTestLogDir("87");
+    const holder = spawn(process.execPath, ["-e", "setTimeout(() => {}, 30000)"]);
+    await writeLockOwner(logDir, holder.pid as number);
+
+    const stream = createTransport({ ...createOptions("87"), rotation: { lockMode: "strict" } });
+    const timeouts: unknown[] = [];
+    stream.on("lock:timeout", (event) => timeouts.push(event));
+
+    let rotated = false;
+    const rotating = stream.rotate().then(() => {
+      rotated = true;
+    });
+    stream.write('{"msg":"buffered"}\n');
+
+    await new Promise((resolve) => setTimeout(resolve, 1_500));
+    expect(rotated).toBe(false);
+    expect(stream.getStats().pendingWrites).toBe(1);
+    expect(timeouts).toMatchObject([{ mode: "strict" }]);
+    expect(await readErrorLog(logDir)).toContain("keeping lines buffered until it is released");
+
+    // The owner dies: its lock is taken over
+    holder.kill();
+    await rotating;
+    await stream.close();
+
+    const newFile = (await fs.readdir(logDir)).find((f) => f.startsWith(`${todayDate}~`));
+    expect(await fs.readFile(path.join(logDir, newFile as string), "utf-8")).toContain("buffered");
+  });
+
+  it("102 - should scope the rotation lock by filename template", async () => {
+    const logDir = getTestLogDir("102");
+    // Rotation of the default filename template in progress
+    const defaultLockPath = await writeLockOwner(logDir, process.ppid);
+
+    const stream = createTransport({ ...createOptions("102"), fileName: "api-{date}{hour?}.log" });
+    const timeouts: unknown[] = [];
+    stream.on("lock:timeout", (event) => timeouts.push(event));
+
+    const start = Date.now();
+    await stream.rotate();
+    await stream.close();
+
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(timeouts).toEqual([]);
+    expect(await fileExists(defaultLockPath)).toBe(true);
+
+    // Its own lock, named like its worker locks
+    const scope = createHash("sha1").update("api-{date}{hour?}.log").digest("hex").slice(0, 8);
+    expect(getWorkerLockPath(logDir, "archive", "api-{date}{hour?}.log")).toEndWith(`archive-${scope}.json`);
+    await fs.rename(defaultLockPath, `${defaultLockPath}-${scope}`);
+    const other = createTransport({ ...createOptions("102"), fileName: "api-{date}{hour?}.log" });
+    other.on("lock:timeout", (event) => timeouts.push(event));
+    await other.rotate();
+    await other.close();
+    expect(timeouts).toMatchObject([{ owner: { pid: process.ppid } }]);
+  });
+
+  it("88 - should throw error for an invalid rotation lock mode", () => {
+    expect(() => {
+      // @ts-expect-error - Invalid mode
+      createTransport({ ...createOptions("88"), rotation: { lockMode: "wait" } });
+    }).toThrow(/Invalid 'rotation.lockMode' option: "wait"/);
+  });
+
+  it("89 - should use the configured lock timings", async () => {
+    const logDir = getTestLogDir("89");
+    const lockPath = path.join(logDir, ".locks", "rotation");
+    await fs.mkdir(lockPath, { recursive: true });
+
+    // Short retries: a held lock times out quickly
+    const stream = createTransport({
+      ...createOptions("89"),
+      locks: { rotation: { retryInterval: 10, maxRetries: 3 } },
+    });
+    const timeouts: unknown[] = [];
+    stream.on("lock:timeout", (event) => timeouts.push(event));
+    let start = Date.now();
+    await stream.rotate();
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(timeouts.length).toBe(1);
+
+    // Short stale timeout: the lock is taken over
+    const past = new Date(Date.now() - 1_000);
+    await fs.utimes(lockPath, past, past);
+    const staleStream = createTransport({
+      ...createOptions("89"),
+      locks: { rotation: { staleTimeout: 500 } },
+    });
+    staleStream.on("lock:timeout", (event) => timeouts.push(event));
+    start = Date.now();
+    await staleStream.rotate();
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(timeouts.length).toBe(1);
+    expect(await fileExists(lockPath)).toBe(false);
+
+    await stream.close();
+    await staleStream.close();
+
+    // Worker locks of another host are stale after the configured heartbeat age
+    const workerLockPath = getWorkerLockPath(logDir, "archive");
+    const heartbeat = new Date(Date.now() - 1_000).toISOString();
+    await fs.writeFile(
+      workerLockPath,
+      JSON.stringify({ pid: 1, hostname: "other-host", startedAt: heartbeat, heartbeat, attempt: 1 }),
+    );
+    expect(await checkStaleLock(logDir, "archive")).toBeNull();
+    expect(await checkStaleLock(logDir, "archive", undefined, 500)).toMatchObject({ pid: 1 });
+  });
+
+  it("90 - should throw error for invalid lock timings", () => {
+    expect(() => {
+      createTransport({ ...createOptions("90"), locks: { rotation: { maxRetries: 0 } } });
+    }).toThrow(/Invalid 'locks.rotation.maxRetries' option: 0/);
+    expect(() => {
+      createTransport({ ...createOptions("90"), locks: { worker: { staleTimeout: 1.5 } } });
+    }).toThrow(/Invalid 'locks.worker.staleTimeout' option: 1.5/);
+    expect(() => {
+      createTransport({
+        ...createOptions("90"),
+        locks: { worker: { staleTimeout: 5_000, heartbeatInterval: 5_000 } },
+      });
+    }).toThrow(/Invalid 'locks.worker.heartbeatInterval' option: 5000. Expected less than/);
+  });
+});
+
+describe("Worker Supervision", () => {
+  const writeYesterdayLog = async (logDir: string) => {
+    await fs.mkdir(logDir, { recursive: true });
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    await fs.writeFile(path.join(logDir, `${yesterday.toISOString().slice(0, 10)}.log`), "{}\n");
+  };
+
+  const waitFor = async (condition: () => boolean | Promise<boolean>, timeoutMs: number) => {
+    for (const start = Date.now(); Date.now() - start < timeoutMs; ) {
+      if (await condition()) return;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  it("91 - should retry a crashed worker with backoff, then give up", async () => {
+    const logDir = getTestLogDir("91");
+    await writeYesterdayLog(logDir);
+
+    // The archive worker crashes before releasing its lock
+    const crashingWorker = path.resolve(logDir, "crash.worker.js");
+    await fs.writeFile(crashingWorker, 'throw new Error("worker crashed");\n');
+    const resolveWorkerPath = workerPathModule.resolveWorkerPath;
+    const spy = spyOn(workerPathModule, "resolveWorkerPath").mockImplementation((name) =>
+      name === "archive.worker" ? crashingWorker : resolveWorkerPath(name),
+    );
+
+    const stream = createTransport({
+      ...createOptions("91"),
+      archive: { enabled: true, runOnCreation: true, frequency: "daily", logging: true },
+      locks: { worker: { maxAttempts: 3, retryDelay: 50 } },
+    });
+    const errors: Error[] = [];
+    const streamErrors: Error[] = [];
+    stream.on("transport:error", (err) => errors.push(err));
+    stream.on("error", (err) => streamErrors.push(err));
+
+    await waitFor(() => errors.some((err) => err.message.includes("giving up")), 5_000);
+    spy.mockRestore();
+    await stream.close();
+
+    expect(streamErrors).toEqual([]);
+    expect(errors.filter((err) => err.message.includes("worker crashed")).length).toBe(3);
+    expect(errors.map((err) => err.message)).toContain(
+      "Archive worker failed after 3 attempts, giving up until the next scheduled run",
+    );
+    expect(await fileExists(getWorkerLockPath(logDir, "archive"))).toBe(false);
+
+    const metaLog = async (type: string) => {
+      const dir = path.join(logDir, ".meta", type);
+      return fs.readFile(path.join(dir, (await fs.readdir(dir))[0]), "utf-8");
+    };
+    const archiveLog = await metaLog("archive");
+    expect(archiveLog).toContain("Archive worker failed (attempt: 1), retrying in 50ms");
+    expect(archiveLog).toContain("Archive worker failed (attempt: 2), retrying in 100ms");
+    expect(await metaLog("error")).toContain("giving up until the next scheduled run");
+  });
+
+  it("92 - should keep watching a lock held by another process and take it over once stale", async () => {
+    const logDir = getTestLogDir("92");
+    await writeYesterdayLog(logDir);
+
+    // Another host's worker is running, then stops sending heartbeats
+    const lockPath = getWorkerLockPath(logDir, "archive");
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+    const now = new Date().toISOString();
+    await fs.writeFile(
+      lockPath,
+      JSON.stringify({ pid: 1, hostname: "other-host", startedAt: now, heartbeat: now, attempt: 1 }),
+    );
+
+    const stream = createTransport({
+      ...createOptions("92"),
+      archive: { enabled: true, runOnCreation: true, frequency: "daily" },
+      locks: { worker: { staleTimeout: 500, heartbeatInterval: 100, checkInterval: 100 } },
+    });
+    const staleEvents: unknown[] = [];
+    stream.on("lock:stale", (event) => staleEvents.push(event));
+    let completed = false;
+    stream.on("archive:complete", () => {
+      completed = true;
+    });
+
+    await waitFor(() => completed, 5_000);
+    await stream.close();
+
+    expect(staleEvents).toMatchObject([{ worker: "archive", pid: 1 }]);
+    expect(completed).toBe(true);
+    await waitFor(async () => !(await fileExists(lockPath)), 1_000);
+    expect(await fileExists(lockPath)).toBe(false);
+  });
+  it("95 - should stop a worker whose lock is taken over, without retrying it", async () => {
+    const logDir = getTestLogDir("95");
+    await writeYesterdayLog(logDir);
+
+    // The archive worker only sends heartbeats, until its lock is lost
+    const hangingWorker = path.resolve(logDir, "hang.worker.ts");
+    await fs.writeFile(
+      hangingWorker,
+      `import { workerData } from "node:worker_threads";
+      import { startHeartbeat } from ${JSON.stringify(path.resolve(__dirname, "../src/locks/worker.ts"))};
+      import { abortWorker } from ${JSON.stringify(path.resolve(__dirname, "../src/utils/events.ts"))};
+      const [{ options, lockToken }] = workerData;
+      startHeartbeat(options.path, "archive", options.fileName, lockToken, 50, () => {
+        abortWorker("archive", options.path, new Error("Lost the archive lock"), true);
+      });
+      setInterval(() => {}, 1_000);
+      `,
+    );
+    const resolveWorkerPath = workerPathModule.resolveWorkerPath;
+    const spy = spyOn(workerPathModule, "resolveWorkerPath").mockImplementation((name) =>
+      name === "archive.worker" ? hangingWorker : resolveWorkerPath(name),
+    );
+
+    const stream = createTransport({
+      ...createOptions("95"),
+      archive: { enabled: true, runOnCreation: true, frequency: "daily", logging: true },
+    });
+    const errors: Error[] = [];
+    stream.on("transport:error", (err) => errors.push(err));
+
+    // Another holder takes the lock over
+    const lockPath = getWorkerLockPath(logDir, "archive");
+    await waitFor(() => fileExists(lockPath), 2_000);
+    const lock = JSON.parse(await fs.readFile(lockPath, "utf-8"));
+    await fs.writeFile(lockPath, JSON.stringify({ ...lock, pid: 1, token: "other" }));
+
+    await waitFor(() => errors.length > 0, 2_000);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    spy.mockRestore();
+    const report = await stream.close();
+
+    expect(errors.map((err) => err.message)).toEqual(["Lost the archive lock"]);
+    expect(report.interruptedWorkers).toEqual([]);
+    expect(await readWorkerLock(logDir, "archive")).toMatchObject({ token: "other" });
+  });
+});
+
+describe("Duration Utility Functions", () => {
+  it("should parse duration strings correctly", () => {
+    expect(parseDuration("12h")).toEqual({ value: 12, unit: "h" });
+    expect(parseDuration("7d")).toEqual({ value: 7, unit: "d" });
+    expect(parseDuration("2w")).toEqual({ value: 2, unit: "w" });
+    expect(parseDuration("3m")).toEqual({ value: 3, unit: "m" });
+    expect(parseDuration("1y")).toEqual({ value: 1, unit: "y" });
+  });
+
+  it("should throw error for invalid duration format", () => {
+    //@ts-expect-error - Invalid format
+    expect(() => parseDuration("invalid")).toThrow(/Invalid duration format/);
+    //@ts-expect-error - Invalid format
+    expect(() => parseDuration("7")).toThrow(/Invalid duration format/);
+    //@ts-expect-error - Invalid format
+    expect(() => parseDuration("d7")).toThrow(/Invalid duration format/);
+    //@ts-expect-error - Invalid format
+    expect(() => parseDuration("")).toThrow(/Invalid duration format/);
+  });
+
+  it("should parse size strings correctly", () => {
+    expect(parseSize("512B")).toBe(512);
+    expect(parseSize("1KB")).toBe(1024);
+    expect(parseSize("1.5MB")).toBe(1.5 * 1024 ** 2);
+    expect(parseSize("20GB")).toBe(20 * 1024 ** 3);
+    expect(parseSize("1TB")).toBe(1024 ** 4);
+    //@ts-expect-error - Invalid format
+    expect(() => parseSize("20")).toThrow(/Invalid size format/);
+    //@ts-expect-error - Invalid format
+    expect(() => parseSize("20gb")).toThrow(/Invalid size format/);
+  });
+
+  it("should convert duration to hours correctly", () => {
+    expect(durationToHours(1, "h")).toBe(1);
+    expect(durationToHours(24, "h")).toBe(24);
+    expect(durationToHours(1, "d")).toBe(24);
+    expect(durationToHours(7, "d")).toBe(168);
+    expect(durationToHours(1, "w")).toBe(168);
+    expect(durationToHours(1, "m")).toBe(744);
+    expect(durationToHours(1, "y")).toBe(8784);
+  });
+
+  it("should convert frequency to hours correctly", () => {
+    expect(frequencyToHours("hourly")).toBe(1);
+    expect(frequencyToHours("daily")).toBe(24);
+    expect(frequencyToHours("weekly")).toBe(168);
+    expect(frequencyToHours("monthly")).toBe(744);
+  });
+});
+
+describe("Archive Utility Functions", () => {
+  it("should get Monday of week correctly", () => {
+    expect(getMondayOfWeek(new Date(2024, 11, 4))).toBe("2024-12-02");
+    expect(getMondayOfWeek(new Date(2024, 11, 8))).toBe("2024-12-02");
+    expect(getMondayOfWeek(new Date(2024, 11, 2))).toBe("2024-12-02");
+    expect(getMondayOfWeek(new Date(2024, 11, 7))).toBe("2024-12-02");
+  });
+
+  it("should generate archive filename correctly", () => {
+    expect(getArchiveFilename("2024-12")).toBe("2024-12-archive.tar.gz");
+    expect(getArchiveFilename("2024-12-03")).toBe("2024-12-03-archive.tar.gz");
+    expect(getArchiveFilename("2024-12-03~10")).toBe("2024-12-03~10-archive.tar.gz");
+  });
+
+  it("should extract file period for monthly frequency", () => {
+    expect(getFilePeriod("2024-12-03.log", "monthly")).toBe("2024-12");
+    expect(getFilePeriod("2024-12-03~10.log", "monthly")).toBe("2024-12");
+    expect(getFilePeriod("2024-12-03~10-30-45.log", "monthly")).toBe("2024-12");
+  });
+
+  it("should extract file period for daily frequency", () => {
+    expect(getFilePeriod("2024-12-03.log", "daily")).toBe("2024-12-03");
+    expect(getFilePeriod("2024-12-03~10.log", "daily")).toBe("2024-12-03");
+    expect(getFilePeriod("2024-12-03~10-30-45.log", "daily")).toBe("2024-12-03");
+  });
+
+  it("should extract file period for hourly frequency", () => {
+    expect(getFilePeriod("2024-12-03~10.log", "hourly")).toBe("2024-12-03~10");
+    expect(getFilePeriod("2024-12-03~10-30-45.log", "hourly")).toBe("2024-12-03~10");
+    expect(getFilePeriod("2024-12-03.log", "hourly")).toBe("2024-12-03~00");
+  });
+
+  it("should extract file period for weekly frequency", () => {
+    expect(getFilePeriod("2024-12-04.log", "weekly")).toBe("2024-12-02");
+    expect(getFilePeriod("2024-12-04~10.log", "weekly")).toBe("2024-12-02");
+  });
+
+  it("should return null for invalid filenames", () => {
+    expect(getFilePeriod("invalid.log", "monthly")).toBeNull();
+    expect(getFilePeriod("not-a-date.log", "daily")).toBeNull();
+  });
+
+  it("should get current archive period for each frequency", () => {
+    expect(getCurrentArchivePeriod("hourly")).toMatch(/^\d{4}-\d{2}-\d{2}~\d{2}$/);
+    expect(getCurrentArchivePeriod("daily")).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(getCurrentArchivePeriod("weekly")).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(getCurrentArchivePeriod("monthly")).toMatch(/^\d{4}-\d{2}$/);
+  });
+
+  it("should get current rotation period", () => {
+    expect(getCurrentRotationPeriod("daily")).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(getCurrentRotationPeriod("hourly")).toMatch(/^\d{4}-\d{2}-\d{2}~\d{2}$/);
+  });
+});
+
+describe("Filename Parsing Utility Functions", () => {
+  it("should parse daily log filenames", () => {
+    const result = parseLogFilename("2024-12-03.log");
+    expect(result).not.toBeNull();
+    expect(result?.getFullYear()).toBe(2024);
+    expect(result?.getMonth()).toBe(11);
+    expect(result?.getDate()).toBe(3);
+  });
+
+  it("should parse hourly log filenames", () => {
+    const result = parseLogFilename("2024-12-03~14.log");
+    expect(result).not.toBeNull();
+    expect(result?.getFullYear()).toBe(2024);
+    expect(result?.getMonth()).toBe(11);
+    expect(result?.getDate()).toBe(3);
+    expect(result?.getHours()).toBe(14);
+  });
+
+  it("should parse overflow log filenames", () => {
+    const result = parseLogFilename("2024-12-03~14-30-45.log");
+    expect(result).not.toBeNull();
+    expect(result?.getFullYear()).toBe(2024);
+    expect(result?.getMonth()).toBe(11);
+    expect(result?.getDate()).toBe(3);
+    expect(result?.getHours()).toBe(14);
+  });
+
+  it("should return null for invalid log filenames", () => {
+    expect(parseLogFilename("invalid.log")).toBeNull();
+    expect(parseLogFilename("not-a-date.log")).toBeNull();
+  });
+
+  it("should parse monthly archive filenames", () => {
+    const result = parseArchiveFilename("2024-12-archive.tar.gz");
+    expect(result).not.toBeNull();
+    expect(result?.getFullYear()).toBe(2024);
+    expect(result?.getMonth()).toBe(11);
+    expect(result?.getDate()).toBe(1);
+  });
+
+  it("should parse daily archive filenames", () => {
+    const result = parseArchiveFilename("2024-12-03-archive.tar.gz");
+    expect(result).not.toBeNull();
+    expect(result?.getFullYear()).toBe(2024);
+    expect(result?.getMonth()).toBe(11);
+    expect(result?.getDate()).toBe(3);
+  });
+
+  it("should parse hourly archive filenames", () => {
+    const result = parseArchiveFilename("2024-12-03~14-archive.tar.gz");
+    expect(result).not.toBeNull();
+    expect(result?.getFullYear()).toBe(2024);
+    expect(result?.getMonth()).toBe(11);
+    expect(result?.getDate()).toBe(3);
+    expect(result?.getHours()).toBe(14);
+  });
+
+  it("should parse archive filenames with counter suffix", () => {
+    const result = parseArchiveFilename("2024-12-archive-1.tar.gz");
+    expect(result).not.toBeNull();
+    expect(result?.getFullYear()).toBe(2024);
+    expect(result?.getMonth()).toBe(11);
+  });
+
+  it("should return null for invalid archive filenames", () => {
+    expect(parseArchiveFilename("invalid-archive.tar.gz")).toBeNull();
+    expect(parseArchiveFilename("not-a-date.tar.gz")).toBeNull();
+  });
+});
+
+describe("Cutoff Date Utility Function", () => {
+  const baseDate = new Date(2024, 11, 15, 12, 0, 0);
+
+  it("should calculate cutoff for hours", () => {
+    const cutoff = getCutoffDate(baseDate, 6, "h");
+    expect(cutoff.getHours()).toBe(6);
+    expect(cutoff.getDate()).toBe(15);
+  });
+
+  it("should calculate cutoff for days", () => {
+    const cutoff = getCutoffDate(baseDate, 10, "d");
+    expect(cutoff.getDate()).toBe(5);
+    expect(cutoff.getMonth()).toBe(11);
+  });
+
+  it("should calculate cutoff for weeks", () => {
+    const cutoff = getCutoffDate(baseDate, 2, "w");
+    expect(cutoff.getDate()).toBe(1);
+    expect(cutoff.getMonth()).toBe(11);
+  });
+
+  it("should calculate cutoff for months", () => {
+    const cutoff = getCutoffDate(baseDate, 3, "m");
+    expect(cutoff.getMonth()).toBe(8);
+    expect(cutoff.getFullYear()).toBe(2024);
+  });
+
+  it("should calculate cutoff for years", () => {
+    const cutoff = getCutoffDate(baseDate, 2, "y");
+    expect(cutoff.getFullYear()).toBe(2022);
+    expect(cutoff.getMonth()).toBe(11);
+  });
+
+  it("should handle month boundary correctly", () => {
+    const janDate = new Date(2024, 0, 15);
+    const cutoff = getCutoffDate(janDate, 2, "m");
+    expect(cutoff.getMonth()).toBe(10);
+    expect(cutoff.getFullYear()).toBe(2023);
+  });
+});
+
+describe("Timezone Utility Functions", () => {
+  // 2025-06-01T23:30:00Z is 2025-06-02 01:30 in Paris (UTC+2, summer time)
+  const lateUtc = new Date("2025-06-01T23:30:00.000Z");
+
+  it("should compute rotation periods in the configured timezone", () => {
+    expect(getCurrentRotationPeriod("hourly", "utc", lateUtc)).toBe("2025-06-01~23");
+    expect(getCurrentRotationPeriod("hourly", "Europe/Paris", lateUtc)).toBe("2025-06-02~01");
+    expect(getCurrentRotationPeriod("daily", "Europe/Paris", lateUtc)).toBe("2025-06-02");
+    expect(getCurrentRotationPeriod("daily", "America/New_York", lateUtc)).toBe("2025-06-01");
+  });
+
+  it("should compute archive periods in the configured timezone", () => {
+    // 2025-06-30T22:30:00Z is already July 1st in Paris
+    const endOfMonth = new Date("2025-06-30T22:30:00.000Z");
+    expect(getCurrentArchivePeriod("monthly", "utc", endOfMonth)).toBe("2025-06");
+    expect(getCurrentArchivePeriod("monthly", "Europe/Paris", endOfMonth)).toBe("2025-07");
+    // Sunday 2025-06-01 in UTC, Monday 2025-06-02 in Paris
+    expect(getCurrentArchivePeriod("weekly", "utc", lateUtc)).toBe("2025-05-26");
+    expect(getCurrentArchivePeriod("weekly", "Europe/Paris", lateUtc)).toBe("2025-06-02");
+  });
+
+  it("should round-trip wall-clock parts across DST changes", () => {
+    const parts = { year: 2025, month: 3, day: 30, hour: 4 };
+    const date = fromZonedParts(parts, "Europe/Paris");
+    expect(date.toISOString()).toBe("2025-03-30T02:00:00.000Z");
+    expect(getZonedParts(date, "Europe/Paris")).toMatchObject(parts);
+  });
+
+  it("should parse log and archive filenames in the configured timezone", () => {
+    expect(parseLogFilename("2025-06-02~01.log", "Europe/Paris")?.toISOString()).toBe(
+      "2025-06-01T23:00:00.000Z",
+    );
+    expect(parseArchiveFilename("2025-06-archive.tar.gz", "utc")?.toISOString()).toBe(
+      "2025-06-01T00:00:00.000Z",
+    );
+  });
+
+  it("should compute cutoff dates on the timezone's calendar", () => {
+    const cutoff = getCutoffDate(lateUtc, 1, "m", "Europe/Paris");
+    expect(cutoff.toISOString()).toBe("2025-05-01T23:30:00.000Z");
+  });
+
+  it("should compute hour cutoffs as elapsed time across DST changes", () => {
+    // 2025-03-30 04:30 in Paris, one hour after the spring-forward gap
+    const afterGap = new Date("2025-03-30T02:30:00.000Z");
+    expect(getCutoffDate(afterGap, 2, "h", "Europe/Paris").toISOString()).toBe(
+      "2025-03-30T00:30:00.000Z",
+    );
+    // 2025-10-26 02:30 in Paris (winter time), after the repeated hour
+    const afterRepeat = new Date("2025-10-26T01:30:00.000Z");
+    expect(getCutoffDate(afterRepeat, 1, "h", "Europe/Paris").toISOString()).toBe(
+      "2025-10-26T00:30:00.000Z",
+    );
+  });
+});
+
+describe("File Exists Utility Function", () => {
+  it("should return true for existing file", async () => {
+    const logDir = getTestLogDir("util-exists");
+    await fs.mkdir(logDir, { recursive: true });
+    const testFile = path.join(logDir, "test.txt");
+    await fs.writeFile(testFile, "test");
+
+    expect(await fileExists(testFile)).toBe(true);
+    expect(fileExistsSync(testFile)).toBe(true);
+  });
+
+  it("should return false for non-existing file", async () => {
+    expect(await fileExists("/path/to/nonexistent/file.txt")).toBe(false);
+    expect(fileExistsSync("/path/to/nonexistent/file.txt")).toBe(false);
+  });
+});
+
+describe("Event Utility Functions", () => {
+  it("should emit events carried by worker messages", () => {
+    const emitted: unknown[][] = [];
+    const emit = ((...args: unknown[]) => emitted.push(args)) as EmitEvent;
+
+    const event = { path: "logs", file: "2024-01-01.log", type: "log", reason: "age" };
+    emitEventMessage({ event: "retention:delete", args: [event] }, emit);
+    emitEventMessage({ other: true }, emit);
+    emitEventMessage(undefined, emit);
+
+    expect(emitted).toEqual([["retention:delete", event]]);
   });
 });